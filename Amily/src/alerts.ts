@@ -0,0 +1,342 @@
+/**
+ * Alert Lifecycle
+ *
+ * Safety alerts are stored and move open → notified → acknowledged →
+ * resolved. The first Care Circle tier is told straight away; if nobody
+ * acknowledges within the level's window, the next tier is told, and so on.
+ * An alert can first wait a short while for the user to say they're
+ * alright (awaiting_response); if they don't, it goes out as usual.
+ */
+
+import { config } from './config';
+import { canAccess } from './auth';
+import { escalationTiers, isNotifiable, notifyMembers } from './careCircle';
+import { StatusError } from './errors';
+import {
+  alertRepository,
+  careCircleRepository,
+  type AlertHistoryEntry,
+  type AlertRecord,
+  type AlertStatus,
+} from './repositories';
+import type { AlertLevel } from './schemas';
+import { createSerialRunner } from './serial';
+
+const TRANSITIONS: Record<AlertStatus, AlertStatus[]> = {
+  awaiting_response: ['open', 'notified', 'acknowledged', 'resolved'],
+  open: ['notified', 'acknowledged', 'resolved'],
+  notified: ['notified', 'acknowledged', 'resolved'],
+  acknowledged: ['resolved'],
+  resolved: [],
+};
+
+export class AlertError extends StatusError {}
+
+export interface RaiseAlertInput {
+  userId: string;
+  level: AlertLevel;
+  source: string;
+  event: string;
+  detected: string[];
+  context?: string;
+  vitals?: unknown;
+  route?: string;
+  /** Give the user this long to answer before anyone is told */
+  awaitResponseSeconds?: number;
+}
+
+/**
+ * How the user answered a check on an alert about them
+ */
+export interface UserResponse {
+  outcome: 'ok' | 'help';
+  channel: string;
+  /** What they said, if they said something */
+  text?: string;
+}
+
+function escalateAt(level: AlertLevel, from: number = Date.now()): string {
+  return new Date(from + config.alerts.escalationMinutes[level] * 60_000).toISOString();
+}
+
+function historyEntry(entry: Omit<AlertHistoryEntry, 'at'>): AlertHistoryEntry {
+  return { at: new Date().toISOString(), ...entry };
+}
+
+function assertTransition(alert: AlertRecord, to: AlertStatus): void {
+  if (!TRANSITIONS[alert.status].includes(to)) {
+    throw new AlertError(
+      alert.status === 'resolved'
+        ? 'That alert has already been resolved.'
+        : `That alert is already ${alert.status}.`,
+      409
+    );
+  }
+}
+
+/**
+ * Contact one Care Circle tier about an alert and record the outcome.
+ * Failed deliveries are retried on the next sweep.
+ */
+async function notifyTier(alert: AlertRecord, tierIndex: number): Promise<AlertRecord> {
+  const tiers = await escalationTiers(alert.user_id, alert.level);
+  const members = tiers[tierIndex];
+
+  if (!members && tierIndex > 0) {
+    console.warn(`⚠️  Alert ${alert.id} has no further Care Circle tiers to escalate to`);
+    return (await alertRepository.update(alert.id, {
+      escalate_at: null,
+      history: [...alert.history, historyEntry({ action: 'exhausted', tier: tierIndex })],
+    }))!;
+  }
+
+  const payload = {
+    alertId: alert.id,
+    level: alert.level,
+    source: alert.source,
+    detected: alert.detected,
+    context: alert.context,
+    vitals: alert.vitals,
+    location: (alert.vitals as { location?: unknown } | null)?.location,
+    tier: tierIndex,
+    escalated: tierIndex > 0,
+    timestamp: alert.timestamp,
+  };
+
+  let success = false;
+  try {
+    ({ success } = await notifyMembers(alert.user_id, members || [], alert.event, payload));
+  } catch (error) {
+    console.error(`Alert ${alert.id} delivery error:`, error);
+  }
+
+  if (!success) {
+    // Leave the tier as it was so the next sweep tries this one again
+    return (await alertRepository.update(alert.id, {
+      escalate_at: new Date(Date.now() + config.alerts.sweepSeconds * 1000).toISOString(),
+      history: [...alert.history, historyEntry({ action: 'delivery_failed', tier: tierIndex })],
+    }))!;
+  }
+
+  const recipients = (members || []).map((member) => member.id);
+  return (await alertRepository.update(alert.id, {
+    status: 'notified',
+    tier: tierIndex,
+    notified: [...new Set([...alert.notified, ...recipients])],
+    // Only worth escalating when there is someone further up the ladder
+    escalate_at: tierIndex + 1 < tiers.length ? escalateAt(alert.level) : null,
+    history: [
+      ...alert.history,
+      historyEntry({
+        action: tierIndex === 0 ? 'notified' : 'escalated',
+        tier: tierIndex,
+        recipients: (members || []).map((member) => member.name),
+      }),
+    ],
+  }))!;
+}
+
+/**
+ * Store a new alert and tell the first Care Circle tier
+ */
+export async function raiseAlert(input: RaiseAlertInput): Promise<AlertRecord> {
+  const awaiting = input.awaitResponseSeconds !== undefined;
+  const alert = await alertRepository.add({
+    user_id: input.userId,
+    level: input.level,
+    status: awaiting ? 'awaiting_response' : 'open',
+    source: input.source,
+    route: input.route ?? null,
+    event: input.event,
+    detected: input.detected,
+    context: input.context ?? null,
+    vitals: input.vitals ?? null,
+    tier: 0,
+    notified: [],
+    // The escalation sweep sends it out if the user hasn't answered by then
+    escalate_at: awaiting ? new Date(Date.now() + input.awaitResponseSeconds! * 1000).toISOString() : null,
+    acknowledged_by: null,
+    acknowledged_at: null,
+    resolved_by: null,
+    resolved_at: null,
+    history: [historyEntry({ action: 'raised' })],
+  });
+
+  return awaiting ? alert : notifyTier(alert, 0);
+}
+
+const serially = createSerialRunner();
+
+/**
+ * Send out alerts the user didn't answer, retry failed deliveries and
+ * escalate unacknowledged alerts that are due. Returns how many alerts
+ * were acted on.
+ */
+export function escalateDueAlerts(now: Date = new Date()): Promise<number> {
+  // One sweep at a time, so a tier is never told or escalated to twice
+  return serially(() => sweepDue(now));
+}
+
+async function sweepDue(now: Date): Promise<number> {
+  const due = now.toISOString();
+  const [unanswered, retries, escalations] = await Promise.all([
+    alertRepository.listDue('awaiting_response', due),
+    alertRepository.listDue('open', due),
+    alertRepository.listDue('notified', due),
+  ]);
+
+  for (const alert of unanswered) {
+    console.log(`🔇 No answer to alert ${alert.id} (${alert.level}); telling the Care Circle`);
+    // Open from here, so a failed delivery is retried rather than taken as no answer again
+    const updated = (await alertRepository.update(alert.id, {
+      status: 'open',
+      history: [...alert.history, historyEntry({ action: 'no_response' })],
+    }))!;
+    await notifyTier(updated, 0);
+  }
+  for (const alert of retries) {
+    await notifyTier(alert, alert.tier);
+  }
+  for (const alert of escalations) {
+    console.log(`⏫ Escalating alert ${alert.id} (${alert.level}) to tier ${alert.tier + 1}`);
+    await notifyTier(alert, alert.tier + 1);
+  }
+
+  return unanswered.length + retries.length + escalations.length;
+}
+
+let sweeper: NodeJS.Timeout | null = null;
+
+/**
+ * Check for due escalations in the background
+ */
+export function startAlertEscalation(): void {
+  if (sweeper) return;
+  sweeper = setInterval(() => {
+    escalateDueAlerts().catch((error) => console.error('Alert escalation error:', error));
+  }, config.alerts.sweepSeconds * 1000);
+  sweeper.unref();
+}
+
+/**
+ * Load an alert the actor may act on: the senior, or a caregiver with the
+ * safety scope. With `orNotified`, also a member who was told about it
+ * (an observer paged about an emergency can say they're on it).
+ */
+async function getAccessibleAlert(actorId: string, alertId: string, orNotified: boolean = false): Promise<AlertRecord> {
+  const alert = await alertRepository.get(alertId);
+  if (alert && (await canAccess(actorId, alert.user_id, 'safety'))) return alert;
+  if (alert && orNotified) {
+    const member = await careCircleRepository.findMember(alert.user_id, actorId);
+    if (member && isNotifiable(member) && alert.notified.includes(member.id)) return alert;
+  }
+  throw new AlertError("I couldn't find that alert.", 404);
+}
+
+/**
+ * Someone has seen the alert and is dealing with it; stops escalation and
+ * lets the others who were told know
+ */
+export async function acknowledgeAlert(actorId: string, alertId: string, note?: string): Promise<AlertRecord> {
+  const alert = await getAccessibleAlert(actorId, alertId, true);
+  assertTransition(alert, 'acknowledged');
+
+  const updated = (await alertRepository.update(alert.id, {
+    status: 'acknowledged',
+    acknowledged_by: actorId,
+    acknowledged_at: new Date().toISOString(),
+    escalate_at: null,
+    history: [...alert.history, historyEntry({ action: 'acknowledged', by: actorId, note })],
+  }))!;
+
+  const acknowledger = await careCircleRepository.findMember(alert.user_id, actorId);
+  const others = (await careCircleRepository.listForSenior(alert.user_id)).filter(
+    (member) => alert.notified.includes(member.id) && member.member_id !== actorId
+  );
+  if (others.length > 0) {
+    notifyMembers(alert.user_id, others, 'alert_acknowledged', {
+      alertId: alert.id,
+      level: alert.level,
+      acknowledgedBy: acknowledger?.name ?? (actorId === alert.user_id ? 'self' : actorId),
+      timestamp: updated.acknowledged_at,
+    }).catch((error) => console.error(`Alert ${alert.id} acknowledgement notice error:`, error));
+  }
+
+  return updated;
+}
+
+/**
+ * Close an alert, with an optional note on what happened
+ */
+export async function resolveAlert(actorId: string, alertId: string, note?: string): Promise<AlertRecord> {
+  const alert = await getAccessibleAlert(actorId, alertId);
+  assertTransition(alert, 'resolved');
+
+  return (await alertRepository.update(alert.id, {
+    status: 'resolved',
+    resolved_by: actorId,
+    resolved_at: new Date().toISOString(),
+    escalate_at: null,
+    history: [...alert.history, historyEntry({ action: 'resolved', by: actorId, note })],
+  }))!;
+}
+
+/**
+ * Record the user's answer to a check on an alert about them. "ok" stands
+ * the alert down: one still waiting is resolved before anyone is told, and
+ * one already sent stops escalating while the people told hear the user
+ * is alright. "help" sends a waiting alert out straight away.
+ */
+export async function recordUserResponse(userId: string, alertId: string, response: UserResponse): Promise<AlertRecord> {
+  const alert = await getAccessibleAlert(userId, alertId);
+  if (alert.user_id !== userId) {
+    throw new AlertError('Only the person the alert is about can answer for themselves.', 403);
+  }
+  if (alert.status === 'resolved') {
+    throw new AlertError('That alert has already been resolved.', 409);
+  }
+
+  const answered = historyEntry({
+    action: response.outcome === 'ok' ? 'user_ok' : 'user_needs_help',
+    by: userId,
+    channel: response.channel,
+    note: response.text,
+  });
+
+  if (response.outcome === 'help') {
+    const updated = (await alertRepository.update(alert.id, {
+      // A waiting alert goes out now, and is retried from open if that fails
+      ...(alert.status === 'awaiting_response' && { status: 'open' as const }),
+      history: [...alert.history, answered],
+    }))!;
+    return alert.status === 'awaiting_response' ? notifyTier(updated, 0) : updated;
+  }
+
+  if (alert.status === 'awaiting_response') {
+    return (await alertRepository.update(alert.id, {
+      status: 'resolved',
+      resolved_by: userId,
+      resolved_at: new Date().toISOString(),
+      escalate_at: null,
+      history: [...alert.history, answered],
+    }))!;
+  }
+
+  const updated = (await alertRepository.update(alert.id, {
+    escalate_at: null,
+    history: [...alert.history, answered],
+  }))!;
+
+  const told = (await careCircleRepository.listForSenior(userId)).filter((member) => alert.notified.includes(member.id));
+  if (told.length > 0) {
+    notifyMembers(userId, told, 'alert_user_ok', {
+      alertId: alert.id,
+      level: alert.level,
+      channel: response.channel,
+      said: response.text,
+      timestamp: answered.at,
+    }).catch((error) => console.error(`Alert ${alert.id} all-clear notice error:`, error));
+  }
+
+  return updated;
+}
@@ -0,0 +1,271 @@
+/**
+ * Authentication & Access Control
+ *
+ * Bearer tokens come from Supabase auth in production, or from a local
+ * HMAC-signed token issuer for offline use. Access rule: a senior can
+ * read and change their own data; linked caregivers get read access to
+ * the scopes the senior granted them, nothing more.
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+import { createHmac, randomBytes, randomUUID, scryptSync, timingSafeEqual } from 'crypto';
+import { config } from './config';
+import { getSupabaseClient } from './storage';
+import {
+  careCircleRepository,
+  caregiverLinkRepository,
+  localAccountRepository,
+  type CaregiverScope,
+} from './repositories';
+
+export interface AuthContext {
+  userId: string;
+  provider: 'supabase' | 'local';
+}
+
+export interface IssuedToken {
+  accessToken: string;
+  expiresAt: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+const LOCAL_TOKEN_PREFIX = 'amily';
+
+/**
+ * Issue a local access token: amily.<payload>.<signature>
+ */
+export function issueLocalToken(userId: string): IssuedToken {
+  const expiresAt = Math.floor(Date.now() / 1000) + config.auth.tokenTtlSeconds;
+  const payload = Buffer.from(JSON.stringify({ sub: userId, exp: expiresAt })).toString('base64url');
+  const signature = createHmac('sha256', config.auth.secret).update(payload).digest('base64url');
+
+  return {
+    accessToken: `${LOCAL_TOKEN_PREFIX}.${payload}.${signature}`,
+    expiresAt: new Date(expiresAt * 1000).toISOString(),
+  };
+}
+
+/**
+ * Check a local token's signature and expiry
+ */
+function verifyLocalToken(token: string): AuthContext | null {
+  const [prefix, payload, signature] = token.split('.');
+  if (prefix !== LOCAL_TOKEN_PREFIX || !payload || !signature) return null;
+
+  const expected = createHmac('sha256', config.auth.secret).update(payload).digest();
+  const given = Buffer.from(signature, 'base64url');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') return null;
+    if (claims.exp * 1000 < Date.now()) return null;
+    return { userId: claims.sub, provider: 'local' };
+  } catch {
+    return null;
+  }
+}
+
+// Supabase lookups are cached briefly so every request doesn't hit the auth server
+const supabaseTokenCache = new Map<string, { context: AuthContext; cachedUntil: number }>();
+const SUPABASE_CACHE_MS = 60_000;
+
+/**
+ * Resolve a Supabase access token to its user
+ */
+async function verifySupabaseToken(token: string): Promise<AuthContext | null> {
+  const cached = supabaseTokenCache.get(token);
+  if (cached && cached.cachedUntil > Date.now()) return cached.context;
+
+  const supabase = getSupabaseClient();
+  if (!supabase) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) {
+    supabaseTokenCache.delete(token);
+    return null;
+  }
+
+  const context: AuthContext = { userId: data.user.id, provider: 'supabase' };
+  supabaseTokenCache.set(token, { context, cachedUntil: Date.now() + SUPABASE_CACHE_MS });
+  return context;
+}
+
+/**
+ * Resolve any access token we accept to its user
+ */
+export async function verifyAccessToken(token: string): Promise<AuthContext | null> {
+  if (token.startsWith(`${LOCAL_TOKEN_PREFIX}.`)) {
+    return verifyLocalToken(token);
+  }
+  if (config.auth.provider === 'supabase') {
+    return verifySupabaseToken(token);
+  }
+  return null;
+}
+
+function hashPassword(password: string, salt: string): Buffer {
+  return scryptSync(password, salt, 32);
+}
+
+/**
+ * Create a local account (offline / demo sign up)
+ */
+export async function localSignUp(params: {
+  email: string;
+  password: string;
+  fullName?: string;
+  supportedPerson?: string;
+}): Promise<{ success: boolean; userId?: string; error?: string }> {
+  const email = params.email.trim().toLowerCase();
+  if (await localAccountRepository.findByEmail(email)) {
+    return { success: false, error: 'An account with this email already exists.' };
+  }
+
+  const salt = randomBytes(16).toString('hex');
+  const account = await localAccountRepository.add({
+    id: `local-${randomUUID()}`,
+    email,
+    password_hash: hashPassword(params.password, salt).toString('hex'),
+    salt,
+    full_name: params.fullName ?? null,
+    supported_person: params.supportedPerson ?? null,
+  });
+
+  return { success: true, userId: account.id };
+}
+
+/**
+ * Check credentials against local accounts
+ */
+export async function localSignIn(params: {
+  email: string;
+  password: string;
+}): Promise<{ success: boolean; userId?: string; error?: string }> {
+  const account = await localAccountRepository.findByEmail(params.email.trim().toLowerCase());
+  if (!account) {
+    return { success: false, error: 'Invalid email or password.' };
+  }
+
+  const attempt = hashPassword(params.password, account.salt);
+  if (!timingSafeEqual(attempt, Buffer.from(account.password_hash, 'hex'))) {
+    return { success: false, error: 'Invalid email or password.' };
+  }
+
+  return { success: true, userId: account.id };
+}
+
+/**
+ * Read the bearer token from the Authorization header. Browsers can't set
+ * headers on EventSource, so GET requests may pass ?access_token= instead.
+ */
+function readToken(req: Request<any, any, any, any>): string | null {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim() || null;
+  }
+  if (req.method === 'GET' && typeof req.query.access_token === 'string') {
+    return req.query.access_token;
+  }
+  return null;
+}
+
+/**
+ * Middleware: require a valid access token and attach req.auth
+ */
+export async function requireAuth(req: Request<any, any, any, any>, res: Response, next: NextFunction) {
+  try {
+    const token = readToken(req);
+    const auth = token ? await verifyAccessToken(token) : null;
+
+    if (!auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Please sign in first… then we can carry on together.',
+      });
+    }
+
+    req.auth = auth;
+    next();
+  } catch (error) {
+    console.error('Auth check error:', error);
+    res.status(500).json({
+      success: false,
+      error: "I couldn't check who you are just now… let's try again in a moment.",
+    });
+  }
+}
+
+/**
+ * Can this user see the senior's data? Seniors can always see their own;
+ * caregivers only within a scope granted directly (a caregiver link) or
+ * through their Care Circle role once it's active and consented to. The
+ * two are kept apart, so neither undoes the other.
+ */
+export async function canAccess(
+  actorId: string,
+  seniorId: string,
+  scope?: CaregiverScope
+): Promise<boolean> {
+  if (actorId === seniorId) return true;
+  if (!scope) return false;
+
+  const link = await caregiverLinkRepository.find(seniorId, actorId);
+  if (link?.scopes.includes(scope)) return true;
+  const member = await careCircleRepository.findMember(seniorId, actorId);
+  return Boolean(member && member.status === 'active' && member.consent && member.scopes.includes(scope));
+}
+
+/**
+ * Middleware: enforce ownership of the `userId` in the body, query or path.
+ * A missing userId defaults to the signed-in user. Writes are owner-only;
+ * reads are also open to caregivers holding `scope`.
+ */
+export function authorizeUser(
+  part: 'body' | 'query' | 'params',
+  options: { scope?: CaregiverScope } = {}
+) {
+  return async (req: Request<any, any, any, any>, res: Response, next: NextFunction) => {
+    if (!req.auth) {
+      return res.status(401).json({
+        success: false,
+        error: 'Please sign in first… then we can carry on together.',
+      });
+    }
+
+    const container = (req[part] ?? {}) as Record<string, unknown>;
+    const requested = typeof container.userId === 'string' ? container.userId.trim() : '';
+
+    if (!requested) {
+      if (part === 'params') {
+        return res.status(400).json({ success: false, error: "I'm not sure whose details you're looking for." });
+      }
+      req[part] = { ...container, userId: req.auth.userId };
+      return next();
+    }
+
+    try {
+      if (await canAccess(req.auth.userId, requested, options.scope)) {
+        return next();
+      }
+    } catch (error) {
+      console.error('Access check error:', error);
+      return res.status(500).json({
+        success: false,
+        error: "I couldn't check that just now… let's try again in a moment.",
+      });
+    }
+
+    res.status(403).json({
+      success: false,
+      error: "I can only share that with the person it belongs to… and the people they've chosen.",
+    });
+  };
+}
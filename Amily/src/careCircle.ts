@@ -0,0 +1,286 @@
+/**
+ * Care Circle
+ *
+ * The people around a senior: who they are, their role, what they may
+ * see and which alerts they want. Members join by invitation, and the
+ * senior's consent is needed before anyone in the circle is contacted
+ * or can read their data.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { StatusError } from './errors';
+import { triggerN8NWorkflow } from './services';
+import { careCircleRepository, type CareCircleMember } from './repositories';
+import type {
+  AlertLevel,
+  CareCircleInviteRequest,
+  CareCircleMemberUpdate,
+  CareCircleRole,
+  CaregiverScope,
+  NotifyPreferences,
+} from './schemas';
+
+/**
+ * What each role can see and hear about unless told otherwise
+ */
+export const ROLE_DEFAULTS: Record<CareCircleRole, { scopes: CaregiverScope[]; notify: NotifyPreferences }> = {
+  primary: {
+    scopes: ['preferences', 'wellness', 'safety', 'memories'],
+    notify: { emergency: true, urgent: true, concern: true },
+  },
+  secondary: {
+    scopes: ['wellness', 'safety'],
+    notify: { emergency: true, urgent: true, concern: false },
+  },
+  observer: {
+    scopes: ['wellness'],
+    notify: { emergency: true, urgent: false, concern: false },
+  },
+};
+
+const ROLE_ORDER: CareCircleRole[] = ['primary', 'secondary', 'observer'];
+
+export class CareCircleError extends StatusError {}
+
+/**
+ * A member as shown to clients (never includes the invite code hash)
+ */
+export interface CareCircleMemberView {
+  id: string;
+  seniorId: string;
+  memberId: string | null;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  role: CareCircleRole;
+  status: CareCircleMember['status'];
+  consent: boolean;
+  scopes: CaregiverScope[];
+  notify: NotifyPreferences;
+  createdAt: string;
+}
+
+export function toMemberView(member: CareCircleMember): CareCircleMemberView {
+  return {
+    id: member.id,
+    seniorId: member.senior_id,
+    memberId: member.member_id,
+    name: member.name,
+    email: member.email,
+    phone: member.phone,
+    role: member.role,
+    status: member.status,
+    consent: member.consent,
+    scopes: member.scopes,
+    notify: member.notify,
+    createdAt: member.created_at,
+  };
+}
+
+function hashInviteCode(code: string): string {
+  return createHash('sha256').update(code).digest('hex');
+}
+
+/**
+ * Active and consented to by the senior
+ */
+export function isNotifiable(member: CareCircleMember): boolean {
+  return member.status === 'active' && member.consent;
+}
+
+/**
+ * The senior, or a primary member they have consented to, may manage the circle
+ */
+export async function canManageCircle(actorId: string, seniorId: string): Promise<boolean> {
+  if (actorId === seniorId) return true;
+  const membership = await careCircleRepository.findMember(seniorId, actorId);
+  return Boolean(membership && isNotifiable(membership) && membership.role === 'primary');
+}
+
+async function getOwnedMember(id: string): Promise<CareCircleMember> {
+  const member = await careCircleRepository.get(id);
+  if (!member) {
+    throw new CareCircleError("I couldn't find that person in the care circle.", 404);
+  }
+  return member;
+}
+
+/**
+ * Invite someone into a senior's circle. Returns the one-time invite code
+ * to pass on to them. Invitations made by someone other than the senior
+ * wait for the senior's consent.
+ */
+export async function inviteMember(
+  actorId: string,
+  request: CareCircleInviteRequest
+): Promise<{ member: CareCircleMember; inviteCode: string }> {
+  const seniorId = request.seniorId || actorId;
+  if (!(await canManageCircle(actorId, seniorId))) {
+    throw new CareCircleError('Only they, or their main caregiver, can invite people into their circle.', 403);
+  }
+
+  const defaults = ROLE_DEFAULTS[request.role];
+  const inviteCode = randomBytes(24).toString('base64url');
+
+  const member = await careCircleRepository.add({
+    senior_id: seniorId,
+    member_id: null,
+    name: request.name,
+    email: request.email ?? null,
+    phone: request.phone ?? null,
+    role: request.role,
+    status: 'invited',
+    consent: actorId === seniorId,
+    scopes: request.scopes ?? defaults.scopes,
+    notify: { ...defaults.notify, ...request.notify },
+    invited_by: actorId,
+    invite_code_hash: hashInviteCode(inviteCode),
+  });
+
+  return { member, inviteCode };
+}
+
+async function findInvitation(code: string): Promise<CareCircleMember> {
+  const member = await careCircleRepository.findByInviteCodeHash(hashInviteCode(code));
+  if (!member || member.status !== 'invited') {
+    throw new CareCircleError("That invitation isn't open any more… please ask for a new one.", 404);
+  }
+  return member;
+}
+
+/**
+ * The signed-in user accepts an invitation
+ */
+export async function acceptInvitation(userId: string, code: string): Promise<CareCircleMember> {
+  const invitation = await findInvitation(code);
+
+  if (invitation.senior_id === userId) {
+    throw new CareCircleError("You can't join your own care circle… share the invitation with someone you trust.", 400);
+  }
+  const existing = await careCircleRepository.findMember(invitation.senior_id, userId);
+  if (existing && existing.id !== invitation.id) {
+    throw new CareCircleError("You're already part of this care circle.", 409);
+  }
+
+  return (await careCircleRepository.update(invitation.id, {
+    member_id: userId,
+    status: 'active',
+    invite_code_hash: null,
+  }))!;
+}
+
+/**
+ * The signed-in user turns an invitation down
+ */
+export async function declineInvitation(userId: string, code: string): Promise<CareCircleMember> {
+  const invitation = await findInvitation(code);
+  console.log(`👋 Care Circle invitation ${invitation.id} declined by ${userId}`);
+  return (await careCircleRepository.update(invitation.id, {
+    status: 'declined',
+    invite_code_hash: null,
+  }))!;
+}
+
+/**
+ * The senior gives or withdraws consent for one member
+ */
+export async function setConsent(actorId: string, id: string, consent: boolean): Promise<CareCircleMember> {
+  const member = await getOwnedMember(id);
+  if (member.senior_id !== actorId) {
+    throw new CareCircleError('Only they can decide who is in their care circle.', 403);
+  }
+
+  return (await careCircleRepository.update(id, { consent }))!;
+}
+
+/**
+ * Change a member's role, access or notifications. Managers can change
+ * anything; a member can change only their own notifications.
+ */
+export async function updateMember(
+  actorId: string,
+  id: string,
+  changes: CareCircleMemberUpdate
+): Promise<CareCircleMember> {
+  const member = await getOwnedMember(id);
+  const isManager = await canManageCircle(actorId, member.senior_id);
+  const isSelf = member.member_id === actorId;
+
+  if (!isManager && !(isSelf && !changes.role && !changes.scopes)) {
+    throw new CareCircleError('You can only change how you hear about alerts.', 403);
+  }
+
+  return (await careCircleRepository.update(id, {
+    role: changes.role,
+    scopes: changes.scopes,
+    notify: changes.notify ? { ...member.notify, ...changes.notify } : undefined,
+  }))!;
+}
+
+/**
+ * Remove a member (managers), or leave a circle (the member themselves)
+ */
+export async function removeMember(actorId: string, id: string): Promise<void> {
+  const member = await getOwnedMember(id);
+  if (member.member_id !== actorId && !(await canManageCircle(actorId, member.senior_id))) {
+    throw new CareCircleError('Only they, or their main caregiver, can remove someone from their circle.', 403);
+  }
+
+  await careCircleRepository.remove(id);
+}
+
+/**
+ * Members who should hear about an alert of this level, grouped into
+ * escalation tiers by role (primary first). Empty tiers are skipped.
+ */
+export async function escalationTiers(seniorId: string, level: AlertLevel): Promise<CareCircleMember[][]> {
+  const members = (await careCircleRepository.listForSenior(seniorId)).filter(
+    (member) => isNotifiable(member) && member.notify[level]
+  );
+  return ROLE_ORDER
+    .map((role) => members.filter((member) => member.role === role))
+    .filter((tier) => tier.length > 0);
+}
+
+/**
+ * Send a Care Circle event to each of these members. With nobody to
+ * address, the event still goes out once without a recipient so the
+ * deployment's own workflow can pick it up.
+ */
+export async function notifyMembers(
+  seniorId: string,
+  members: CareCircleMember[],
+  event: string,
+  payload: Record<string, unknown>
+): Promise<{ success: boolean; notified: number }> {
+  if (members.length === 0) {
+    const success = await triggerN8NWorkflow(event, { ...payload, userId: seniorId, recipient: null });
+    return { success, notified: 0 };
+  }
+
+  const results = await Promise.allSettled(
+    members.map((member) =>
+      triggerN8NWorkflow(event, {
+        ...payload,
+        userId: seniorId,
+        recipient: {
+          id: member.id,
+          userId: member.member_id,
+          name: member.name,
+          email: member.email,
+          phone: member.phone,
+          role: member.role,
+        },
+      })
+    )
+  );
+
+  const notified = results.filter((result) => result.status === 'fulfilled' && result.value).length;
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      console.error(`Care Circle ${event} delivery error:`, result.reason);
+    }
+  }
+
+  return { success: notified > 0, notified };
+}
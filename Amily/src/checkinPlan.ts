@@ -0,0 +1,208 @@
+/**
+ * Check-in Plans
+ *
+ * Turns a daily check-in into a plan for the day. The plan is built from
+ * the user's mood (what they said, or what their words suggest), their
+ * preferences, today's remaining medication doses and the activity
+ * guidance for the time of day. The LLM writes it as PlanJSON. If the
+ * provider can't, or its reply still isn't valid after a retry, a plan is
+ * put together from the same pieces without it.
+ */
+
+import { dosesForDay } from './medications';
+import { detectEmotion } from './persona';
+import { preferencesRepository } from './repositories';
+import { PlanJSONSchema, type PlanJSON } from './schemas';
+import { generateStructured } from './services';
+import { getUserTimeZone, localDateTime, minutesBetween } from './timezone';
+import { getActivityGuidance, type WellnessNudge } from './wellness';
+import type { LLMProvider } from './llm';
+
+type Mood = PlanJSON['mood'];
+type TimeOfDay = 'morning' | 'afternoon' | 'evening';
+
+export interface PlanContext {
+  mood: Mood;
+  /** Whether the user told us their mood, rather than it being read from their words */
+  moodStated: boolean;
+  userInput?: string;
+  timeOfDay: TimeOfDay;
+  /** Local "YYYY-MM-DDTHH:MM" */
+  now: string;
+  pace: string;
+  favoriteTime: string;
+  interests: string[];
+  routineNotes: string | null;
+  /** Doses still to take today, earliest first */
+  medications: { name: string; dosage: string; time: string; withFood: boolean }[];
+  guidance: WellnessNudge;
+}
+
+export interface CheckInPlan {
+  plan: PlanJSON;
+  source: 'llm' | 'fallback';
+}
+
+/** Tags for each activity guidance action */
+const ACTION_TAGS: Record<string, string> = {
+  chair_stretches: 'mobility',
+  short_walk: 'mobility',
+  morning_activity: 'mobility',
+  light_movement: 'mobility',
+  rest_time: 'rest',
+  calm_evening: 'rest',
+  relaxation: 'rest',
+  hobby_time: 'hobby',
+  social_connection: 'social',
+};
+
+const OPENERS: Record<Mood, string> = {
+  low: "Let's take today gently… one small thing at a time.",
+  ok: "Let's keep today simple and steady.",
+  good: "You're feeling bright today… let's make the most of it.",
+};
+
+/** Doses this close are the first thing to do */
+const DOSE_SOON_MINUTES = 60;
+
+/**
+ * The mood the user gave, or one read from what they said
+ */
+export function assessMood(mood?: Mood, userInput?: string): Mood {
+  if (mood) return mood;
+  const emotion = userInput ? detectEmotion(userInput) : 'calm';
+  return emotion === 'stressed' || emotion === 'lonely' ? 'low' : emotion === 'confused' ? 'ok' : 'good';
+}
+
+function timeOfDayAt(local: string): TimeOfDay {
+  const hour = Number(local.slice(11, 13));
+  return hour < 12 ? 'morning' : hour < 17 ? 'afternoon' : 'evening';
+}
+
+/**
+ * Everything the plan is made from. Appointments aren't part of it yet,
+ * since nothing in Amily records them.
+ */
+export async function gatherPlanContext(
+  userId: string,
+  input: { mood?: Mood; userInput?: string },
+  now: Date = new Date()
+): Promise<PlanContext> {
+  const nowLocal = localDateTime(now, await getUserTimeZone(userId));
+  const mood = assessMood(input.mood, input.userInput);
+  const [preferences, doses] = await Promise.all([
+    preferencesRepository.get(userId),
+    dosesForDay(userId, nowLocal.slice(0, 10), now),
+  ]);
+  const timeOfDay = timeOfDayAt(nowLocal);
+
+  return {
+    mood,
+    moodStated: Boolean(input.mood),
+    userInput: input.userInput,
+    timeOfDay,
+    now: nowLocal,
+    pace: preferences.preferred_pace,
+    favoriteTime: preferences.favorite_time,
+    interests: preferences.interests,
+    routineNotes: preferences.routine_notes,
+    medications: doses
+      .filter(({ dose, medication }) => dose.status === 'pending' && medication)
+      .sort((a, b) => a.dose.scheduled_for.localeCompare(b.dose.scheduled_for))
+      .map(({ dose, medication }) => ({
+        name: medication!.name,
+        dosage: medication!.dosage,
+        time: dose.scheduled_for.slice(11, 16),
+        withFood: medication!.with_food,
+      })),
+    guidance: getActivityGuidance(timeOfDay, mood),
+  };
+}
+
+/**
+ * A plan from the context alone, for when the LLM can't provide one
+ */
+export function fallbackPlan(context: PlanContext): PlanJSON {
+  const { medications, guidance, interests } = context;
+  const tags = ['routine', ACTION_TAGS[guidance.action ?? ''] ?? 'wellbeing'];
+
+  let summary = OPENERS[context.mood];
+  if (medications.length > 0) {
+    const names = [...new Set(medications.map((medication) => medication.name))];
+    const list = names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+    summary += ` Your ${list} ${names.length > 1 ? 'are' : 'is'} still to take today.`;
+    tags.push('medication');
+  }
+
+  const next = medications[0];
+  const interest = interests[0];
+  let nextStep = guidance.message;
+  if (next && minutesBetween(context.now, `${context.now.slice(0, 10)}T${next.time}`) <= DOSE_SOON_MINUTES) {
+    nextStep = `Let's take your ${next.name} first${next.withFood ? ', with a little something to eat' : ''}.`;
+  } else if (interest && context.mood !== 'low' && context.favoriteTime === context.timeOfDay) {
+    nextStep = `It's your favourite time of day… how about a little ${interest}?`;
+    tags.push('hobby');
+  }
+
+  return { summary, next_step: nextStep, mood: context.mood, tags: [...new Set(tags)] };
+}
+
+/**
+ * The context as plain lines for the model
+ */
+function describeContext(context: PlanContext): string {
+  const lines = [
+    `Mood: ${context.mood}${context.moodStated ? ' (they told us)' : ' (from what they said)'}`,
+    context.userInput ? `They said: "${context.userInput}"` : 'They did not say anything else.',
+    `Local time: ${context.now.slice(11)} (${context.timeOfDay})`,
+    `Preferred pace: ${context.pace}; favourite time of day: ${context.favoriteTime}`,
+    `Interests: ${context.interests.length > 0 ? context.interests.join(', ') : 'not known yet'}`,
+    context.routineNotes ? `Routine notes: ${context.routineNotes}` : '',
+    context.medications.length > 0
+      ? `Medication still to take today: ${context.medications
+          .map((medication) => `${medication.name} ${medication.dosage} at ${medication.time}${medication.withFood ? ' with food' : ''}`)
+          .join('; ')}`
+      : 'No more medication due today.',
+    `Suggested activity for this mood and time: ${context.guidance.message}`,
+  ];
+  return lines.filter(Boolean).join('\n');
+}
+
+/**
+ * Plan the user's day from their check-in
+ */
+export async function generateCheckInPlan(
+  userId: string,
+  input: { mood?: Mood; userInput?: string },
+  options: { now?: Date; provider?: LLMProvider } = {}
+): Promise<CheckInPlan> {
+  const context = await gatherPlanContext(userId, input, options.now);
+
+  const generated = await generateStructured(
+    PlanJSONSchema,
+    {
+      instruction:
+        'Plan the rest of the day for the person checking in. The summary is one or two short, warm sentences. ' +
+        'The next step is one small, concrete thing to do now, at their pace. Mention medication that is due soon. ' +
+        'Use their interests where it fits, and never suggest anything strenuous when their mood is low. ' +
+        'Tags are a few lower-case words such as routine, mobility, social, rest, hobby, medication.',
+      prompt: describeContext(context),
+    },
+    options.provider
+  );
+
+  if (!generated) {
+    return { plan: fallbackPlan(context), source: 'fallback' };
+  }
+
+  // The mood is ours to assess; the model only writes the words
+  return {
+    plan: {
+      summary: generated.summary.trim(),
+      next_step: generated.next_step.trim(),
+      mood: context.mood,
+      tags: [...new Set(generated.tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))].slice(0, 5),
+    },
+    source: 'llm',
+  };
+}
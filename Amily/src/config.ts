@@ -1,11 +1,57 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
+import { randomBytes } from 'crypto';
 
 dotenv.config();
 
+export type AppMode = 'demo' | 'production';
+
+export type LLMProviderName = 'gemini' | 'openai' | 'offline';
+
+const LLM_PROVIDERS: LLMProviderName[] = ['gemini', 'openai', 'offline'];
+
+export type TTSProviderName = 'elevenlabs' | 'local';
+
+export type StorageBackend = 'supabase' | 'sqlite';
+
+export type NotificationChannelName = 'n8n' | 'webhook' | 'file' | 'log';
+
+const NOTIFICATION_CHANNELS: NotificationChannelName[] = ['n8n', 'webhook', 'file', 'log'];
+
+export type ReminderChannelName = 'log' | 'notify';
+
+export type WeatherProviderName = 'open-meteo' | 'fixture';
+
+type EscalationLevel = 'emergency' | 'urgent' | 'concern';
+
+export type VitalMetric = 'heart_rate' | 'spo2' | 'bp_systolic' | 'bp_diastolic' | 'temperature' | 'steps' | 'sleep_hours';
+
+export interface VitalRange {
+  low?: number;
+  high?: number;
+}
+
+/** Heart rate in bpm, SpO2 in %, blood pressure in mmHg, temperature in °C, steps and sleep per day */
+const DEFAULT_VITAL_THRESHOLDS: Record<VitalMetric, VitalRange> = {
+  heart_rate: { low: 50, high: 120 },
+  spo2: { low: 92 },
+  bp_systolic: { low: 90, high: 160 },
+  bp_diastolic: { low: 50, high: 100 },
+  temperature: { low: 35, high: 38 },
+  steps: {},
+  sleep_hours: { low: 4, high: 12 },
+};
+
+const DEFAULT_ESCALATION_MINUTES: Record<EscalationLevel, number> = {
+  emergency: 5,
+  urgent: 15,
+  concern: 120,
+};
+
 interface Config {
   port: number;
+  mode: AppMode;
   keys: {
     elevenLabs?: string;
     gemini?: string;
@@ -13,6 +59,124 @@ interface Config {
     supabaseKey?: string;
     n8nWebhook?: string;
   };
+  llm: {
+    provider: LLMProviderName;
+    userProviders: Record<string, LLMProviderName>;
+    geminiModel: string;
+    openai: {
+      baseUrl: string;
+      model: string;
+      apiKey?: string;
+    };
+  };
+  storage: {
+    backend: StorageBackend;
+    sqlitePath: string;
+  };
+  auth: {
+    provider: 'supabase' | 'local';
+    secret: string;
+    tokenTtlSeconds: number;
+  };
+  notifications: {
+    channels: NotificationChannelName[];
+    webhookUrl?: string;
+    filePath: string;
+    /** HMAC-SHA256 key for the X-Amily-Signature header (unsigned when empty) */
+    signingSecret?: string;
+    maxAttempts: number;
+    baseDelaySeconds: number;
+    maxDelaySeconds: number;
+    timeoutMs: number;
+  };
+  alerts: {
+    /** How long an alert waits for acknowledgement before the next tier is told */
+    escalationMinutes: Record<EscalationLevel, number>;
+    sweepSeconds: number;
+  };
+  vitals: {
+    /** Readings outside these are out of range whatever the user's baseline */
+    thresholds: Record<VitalMetric, VitalRange>;
+    /** Days of history the personal baseline is worked out from */
+    baselineDays: number;
+    /** Readings (or days, for steps and sleep) needed before a baseline is used */
+    baselineMinSamples: number;
+    /** Standard deviations from the baseline that count as unusual */
+    deviationSd: number;
+    /** Consecutive unusual readings, all within sustainedMinutes, before we act */
+    sustainedReadings: number;
+    sustainedMinutes: number;
+    /** Consecutive unusual days for steps and sleep */
+    sustainedDays: number;
+    /** Don't raise the same vitals alert again within this long */
+    realertMinutes: number;
+    /** Wearable imports keep readings from this many days back */
+    importDays: number;
+    importMaxMb: number;
+  };
+  falls: {
+    /** How long the user has to answer "are you okay?" before the Care Circle is alerted */
+    responseSeconds: number;
+    /** How long after a fall an answer still counts as an answer to it */
+    followUpMinutes: number;
+  };
+  inactivity: {
+    /** Days of check-ins, chats and wellness logs the usual start of the day is learned from */
+    learningDays: number;
+    /** Active days needed before the watchdog starts watching */
+    minDays: number;
+    /** How long after the usual start to wait before prompting the user */
+    graceMinutes: number;
+    /** How long to wait for an answer to the prompt before alerting the Care Circle */
+    responseMinutes: number;
+    sweepSeconds: number;
+  };
+  mood: {
+    /** Low days within declineWindowDays that count as a sustained decline */
+    declineLowDays: number;
+    declineWindowDays: number;
+  };
+  exports: {
+    /** Where finished family books are written */
+    dir: string;
+    /** How long a finished book can be downloaded before it's cleared away */
+    keepHours: number;
+  };
+  reminders: {
+    /** Where medication reminders go: the console, or the notification channels */
+    channel: ReminderChannelName;
+    /** For users who haven't set their own time zone */
+    defaultTimeZone: string;
+    /** A dose can be taken this long before its time… */
+    earlyMinutes: number;
+    /** …and this long after, before it counts as missed */
+    windowMinutes: number;
+    snoozeMinutes: number;
+    /** Remind again this often while a dose is still open, up to maxReminders times */
+    repeatMinutes: number;
+    maxReminders: number;
+    sweepSeconds: number;
+  };
+  weather: {
+    provider: WeatherProviderName;
+    /** Open-Meteo compatible forecast endpoint */
+    apiUrl: string;
+    /** JSON file of canned weather for the fixture provider */
+    fixturePath: string;
+    cacheMinutes: number;
+    /** For users who haven't chosen C or F */
+    defaultUnit: 'C' | 'F';
+    timeoutMs: number;
+  };
+  tts: {
+    provider: TTSProviderName;
+    cacheDir: string;
+    voice: {
+      voiceId: string;
+      stability: number;
+      similarityBoost: number;
+    };
+  };
 }
 
 /**
@@ -32,30 +196,323 @@ function readKeyFile(filename: string): string | undefined {
 }
 
 /**
- * Load configuration - requires real API keys
+ * Key files sometimes hold notes instead of keys; real keys never contain whitespace
+ */
+function asKey(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed && !/\s/.test(trimmed) ? trimmed : undefined;
+}
+
+/**
+ * Pick demo or production mode. AMILY_MODE wins; otherwise production
+ * needs every external service configured.
+ */
+function resolveMode(keys: Config['keys']): AppMode {
+  const missing = Object.entries(keys)
+    .filter(([, value]) => !value)
+    .map(([name]) => name);
+  const requested = process.env.AMILY_MODE?.trim().toLowerCase();
+
+  if (requested === 'demo') return 'demo';
+  if (requested === 'production') {
+    if (missing.length > 0) {
+      console.warn(`⚠️  Production mode requested but missing keys: ${missing.join(', ')}`);
+    }
+    return 'production';
+  }
+  if (requested) {
+    console.warn(`Ignoring unknown AMILY_MODE "${requested}"`);
+  }
+  if (missing.length > 0) {
+    console.warn(`⚠️  Missing keys (${missing.join(', ')}) - running in demo mode`);
+    return 'demo';
+  }
+  return 'production';
+}
+
+/**
+ * Parse an LLM provider name, ignoring anything we don't know about
+ */
+function parseProviderName(value: string | undefined): LLMProviderName | undefined {
+  const name = value?.trim().toLowerCase();
+  return LLM_PROVIDERS.find(provider => provider === name);
+}
+
+/**
+ * Parse per-user provider overrides, e.g. "user123=offline,user456=openai"
+ */
+function parseUserProviders(value: string | undefined): Record<string, LLMProviderName> {
+  const overrides: Record<string, LLMProviderName> = {};
+  for (const entry of (value || '').split(',')) {
+    const [userId, name] = entry.split('=').map(part => part.trim());
+    const provider = parseProviderName(name);
+    if (userId && provider) {
+      overrides[userId] = provider;
+    } else if (entry.trim()) {
+      console.warn(`Ignoring invalid LLM_USER_PROVIDERS entry "${entry.trim()}"`);
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Parse per-level escalation windows, e.g. "emergency=5,urgent=15,concern=120"
+ */
+function parseEscalationMinutes(value: string | undefined): Record<EscalationLevel, number> {
+  const windows = { ...DEFAULT_ESCALATION_MINUTES };
+  for (const entry of (value || '').split(',')) {
+    const [level, minutes] = entry.split('=').map(part => part.trim());
+    const parsed = Number(minutes);
+    if (level in windows && parsed > 0) {
+      windows[level as EscalationLevel] = parsed;
+    } else if (entry.trim()) {
+      console.warn(`Ignoring invalid ALERT_ESCALATION_MINUTES entry "${entry.trim()}"`);
+    }
+  }
+  return windows;
+}
+
+/**
+ * Parse vital sign ranges, e.g. "heart_rate=45:130,spo2=90:" (either end may be left open)
+ */
+function parseVitalThresholds(value: string | undefined): Record<VitalMetric, VitalRange> {
+  const thresholds = Object.fromEntries(
+    Object.entries(DEFAULT_VITAL_THRESHOLDS).map(([metric, range]) => [metric, { ...range }])
+  ) as Record<VitalMetric, VitalRange>;
+  for (const entry of (value || '').split(',')) {
+    const [metric, range] = entry.split('=').map(part => part.trim());
+    const [low, high] = (range || '').split(':').map(part => (part?.trim() ? Number(part) : undefined));
+    if (metric in thresholds && range?.includes(':') && !Number.isNaN(low) && !Number.isNaN(high)) {
+      thresholds[metric as VitalMetric] = { low, high };
+    } else if (entry.trim()) {
+      console.warn(`Ignoring invalid VITALS_THRESHOLDS entry "${entry.trim()}"`);
+    }
+  }
+  return thresholds;
+}
+
+/**
+ * Parse the notification channel list, e.g. "n8n,file"
+ */
+function parseChannels(value: string | undefined): NotificationChannelName[] {
+  const channels: NotificationChannelName[] = [];
+  for (const entry of (value || '').split(',')) {
+    const name = entry.trim().toLowerCase();
+    const channel = NOTIFICATION_CHANNELS.find(known => known === name);
+    if (channel && !channels.includes(channel)) {
+      channels.push(channel);
+    } else if (name && !channel) {
+      console.warn(`Ignoring unknown NOTIFY_CHANNELS entry "${name}"`);
+    }
+  }
+  return channels;
+}
+
+/**
+ * Parse an IANA time zone name, falling back to the server's own zone
+ */
+function parseTimeZone(value: string | undefined): string {
+  const fallback = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  const name = value?.trim();
+  if (!name) return fallback;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: name });
+    return name;
+  } catch {
+    console.warn(`Ignoring unknown DEFAULT_TIMEZONE "${name}" - using ${fallback}`);
+    return fallback;
+  }
+}
+
+/**
+ * Load configuration - falls back to demo mode when API keys are missing
  */
 export function loadConfig(): Config {
   const keys = {
-    elevenLabs: process.env.ELEVENLABS_API_KEY || readKeyFile('ElevenLabs.txt'),
-    gemini:
+    elevenLabs: asKey(process.env.ELEVENLABS_API_KEY || readKeyFile('ElevenLabs.txt')),
+    gemini: asKey(
       process.env.GEMINI_API_KEY ||
       process.env.GOOGLE_GEMINI_API_KEY ||
-      readKeyFile('FeatherlessAI.txt'),
-    supabaseUrl: process.env.SUPABASE_URL || readKeyFile('supabase.txt')?.split('\n')[0],
-    supabaseKey: process.env.SUPABASE_KEY || readKeyFile('supabase.txt')?.split('\n')[1],
-    n8nWebhook: process.env.N8N_WEBHOOK_URL || readKeyFile('n8ns.txt'),
+      readKeyFile('FeatherlessAI.txt')
+    ),
+    supabaseUrl: asKey(process.env.SUPABASE_URL || readKeyFile('supabase.txt')?.split('\n')[0]),
+    supabaseKey: asKey(process.env.SUPABASE_KEY || readKeyFile('supabase.txt')?.split('\n')[1]),
+    n8nWebhook: asKey(process.env.N8N_WEBHOOK_URL || readKeyFile('n8ns.txt')),
+  };
+
+  const mode = resolveMode(keys);
+
+  const llm: Config['llm'] = {
+    provider:
+      parseProviderName(process.env.LLM_PROVIDER) ||
+      (mode === 'production' && keys.gemini ? 'gemini' : 'offline'),
+    userProviders: parseUserProviders(process.env.LLM_USER_PROVIDERS),
+    geminiModel: process.env.GEMINI_MODEL || 'gemini-2.0-flash',
+    openai: {
+      baseUrl: (process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, ''),
+      model: process.env.OPENAI_MODEL || 'llama3.1',
+      apiKey: process.env.OPENAI_API_KEY,
+    },
+  };
+
+  // Demo mode keeps everything in an in-memory SQLite database unless told otherwise
+  const storageBackend = process.env.STORAGE_BACKEND?.trim().toLowerCase();
+  const backend: StorageBackend =
+    storageBackend === 'supabase' || storageBackend === 'sqlite'
+      ? storageBackend
+      : mode === 'production' ? 'supabase' : 'sqlite';
+  const storage: Config['storage'] = {
+    backend,
+    sqlitePath:
+      process.env.SQLITE_PATH === ':memory:'
+        ? ':memory:'
+        : process.env.SQLITE_PATH
+          ? path.resolve(process.env.SQLITE_PATH)
+          : mode === 'demo' && !storageBackend
+            ? ':memory:'
+            : path.join(__dirname, '..', 'data', 'amily.db'),
+  };
+
+  const auth: Config['auth'] = {
+    provider: mode === 'production' && keys.supabaseUrl && keys.supabaseKey ? 'supabase' : 'local',
+    secret: process.env.AUTH_SECRET || randomBytes(32).toString('hex'),
+    tokenTtlSeconds: parseInt(process.env.AUTH_TOKEN_TTL_SECONDS || String(7 * 24 * 60 * 60), 10),
+  };
+  if (!process.env.AUTH_SECRET) {
+    console.warn('⚠️  AUTH_SECRET not set - local sign-in tokens will not survive a restart');
+  }
+
+  // Demo mode logs Care Circle events; production sends them to n8n
+  const requestedChannels = parseChannels(process.env.NOTIFY_CHANNELS);
+  const notifications: Config['notifications'] = {
+    channels:
+      requestedChannels.length > 0
+        ? requestedChannels
+        : mode === 'production' && keys.n8nWebhook ? ['n8n'] : ['log'],
+    webhookUrl: asKey(process.env.NOTIFY_WEBHOOK_URL),
+    filePath: path.resolve(process.env.NOTIFY_FILE || path.join(__dirname, '..', 'data', 'notifications.log')),
+    signingSecret: process.env.NOTIFY_SIGNING_SECRET || undefined,
+    maxAttempts: parseInt(process.env.NOTIFY_MAX_ATTEMPTS || '8', 10),
+    baseDelaySeconds: parseInt(process.env.NOTIFY_RETRY_BASE_SECONDS || '5', 10),
+    maxDelaySeconds: 60 * 60,
+    timeoutMs: 10_000,
+  };
+  if (!notifications.signingSecret && notifications.channels.some(channel => channel === 'n8n' || channel === 'webhook')) {
+    console.warn('⚠️  NOTIFY_SIGNING_SECRET not set - outgoing webhooks will not be signed');
+  }
+
+  const alerts: Config['alerts'] = {
+    escalationMinutes: parseEscalationMinutes(process.env.ALERT_ESCALATION_MINUTES),
+    sweepSeconds: parseInt(process.env.ALERT_SWEEP_SECONDS || '30', 10),
+  };
+
+  const vitals: Config['vitals'] = {
+    thresholds: parseVitalThresholds(process.env.VITALS_THRESHOLDS),
+    baselineDays: parseInt(process.env.VITALS_BASELINE_DAYS || '14', 10),
+    baselineMinSamples: parseInt(process.env.VITALS_BASELINE_MIN_SAMPLES || '5', 10),
+    deviationSd: parseFloat(process.env.VITALS_DEVIATION_SD || '2.5'),
+    sustainedReadings: parseInt(process.env.VITALS_SUSTAINED_READINGS || '3', 10),
+    sustainedMinutes: parseInt(process.env.VITALS_SUSTAINED_MINUTES || '60', 10),
+    sustainedDays: parseInt(process.env.VITALS_SUSTAINED_DAYS || '3', 10),
+    realertMinutes: parseInt(process.env.VITALS_REALERT_MINUTES || '240', 10),
+    importDays: parseInt(process.env.VITALS_IMPORT_DAYS || '90', 10),
+    importMaxMb: parseInt(process.env.VITALS_IMPORT_MAX_MB || '25', 10),
+  };
+
+  const falls: Config['falls'] = {
+    responseSeconds: parseInt(process.env.FALL_RESPONSE_SECONDS || '60', 10),
+    followUpMinutes: parseInt(process.env.FALL_FOLLOW_UP_MINUTES || '30', 10),
+  };
+
+  const inactivity: Config['inactivity'] = {
+    learningDays: parseInt(process.env.INACTIVITY_LEARNING_DAYS || '14', 10),
+    minDays: parseInt(process.env.INACTIVITY_MIN_DAYS || '5', 10),
+    graceMinutes: parseInt(process.env.INACTIVITY_GRACE_MINUTES || '90', 10),
+    responseMinutes: parseInt(process.env.INACTIVITY_RESPONSE_MINUTES || '60', 10),
+    sweepSeconds: parseInt(process.env.INACTIVITY_SWEEP_SECONDS || '300', 10),
+  };
+
+  const mood: Config['mood'] = {
+    declineLowDays: parseInt(process.env.MOOD_DECLINE_LOW_DAYS || '3', 10),
+    declineWindowDays: parseInt(process.env.MOOD_DECLINE_WINDOW_DAYS || '7', 10),
+  };
+
+  const exports: Config['exports'] = {
+    dir: path.resolve(process.env.EXPORT_DIR || path.join(__dirname, '..', 'data', 'exports')),
+    keepHours: parseInt(process.env.EXPORT_KEEP_HOURS || '24', 10),
+  };
+
+  // Reminders go out through the Care Circle channels in production, to the console in demo mode
+  const reminderChannel = process.env.REMINDER_CHANNEL?.trim().toLowerCase();
+  const reminders: Config['reminders'] = {
+    channel:
+      reminderChannel === 'log' || reminderChannel === 'notify'
+        ? reminderChannel
+        : mode === 'production' ? 'notify' : 'log',
+    defaultTimeZone: parseTimeZone(process.env.DEFAULT_TIMEZONE),
+    earlyMinutes: parseInt(process.env.REMINDER_EARLY_MINUTES || '30', 10),
+    windowMinutes: parseInt(process.env.REMINDER_WINDOW_MINUTES || '120', 10),
+    snoozeMinutes: parseInt(process.env.REMINDER_SNOOZE_MINUTES || '10', 10),
+    repeatMinutes: parseInt(process.env.REMINDER_REPEAT_MINUTES || '20', 10),
+    maxReminders: parseInt(process.env.REMINDER_MAX || '3', 10),
+    sweepSeconds: parseInt(process.env.REMINDER_SWEEP_SECONDS || '60', 10),
+  };
+
+  // Demo mode reads canned weather from a fixture file instead of calling out
+  const weatherProvider = process.env.WEATHER_PROVIDER?.trim().toLowerCase();
+  const weatherUnit = process.env.WEATHER_UNIT?.trim().toUpperCase();
+  const weather: Config['weather'] = {
+    provider:
+      weatherProvider === 'open-meteo' || weatherProvider === 'fixture'
+        ? weatherProvider
+        : mode === 'production' ? 'open-meteo' : 'fixture',
+    apiUrl: process.env.WEATHER_API_URL || 'https://api.open-meteo.com/v1/forecast',
+    fixturePath: path.resolve(process.env.WEATHER_FIXTURE || path.join(__dirname, '..', 'fixtures', 'weather.json')),
+    cacheMinutes: parseInt(process.env.WEATHER_CACHE_MINUTES || '30', 10),
+    defaultUnit: weatherUnit === 'C' ? 'C' : 'F',
+    timeoutMs: 5_000,
+  };
+
+  const ttsProvider = process.env.TTS_PROVIDER?.trim().toLowerCase();
+  const tts: Config['tts'] = {
+    provider:
+      ttsProvider === 'elevenlabs' || ttsProvider === 'local'
+        ? ttsProvider
+        : mode === 'production' && keys.elevenLabs ? 'elevenlabs' : 'local',
+    cacheDir: path.resolve(process.env.AUDIO_CACHE_DIR || path.join(__dirname, '..', '.audio-cache')),
+    voice: {
+      voiceId: process.env.ELEVENLABS_VOICE_ID || '21m00Tcm4TlvDq8ikWAM', // Default "Rachel" voice from ElevenLabs docs
+      stability: 0.5,
+      similarityBoost: 0.75,
+    },
   };
 
   const config: Config = {
     port: parseInt(process.env.PORT || '3000', 10),
+    mode,
     keys,
+    llm,
+    storage,
+    auth,
+    notifications,
+    alerts,
+    vitals,
+    falls,
+    inactivity,
+    mood,
+    exports,
+    reminders,
+    weather,
+    tts,
   };
 
   console.log(`🌸 Amily Companion Server`);
-  const hasKeys = Object.values(keys).some(k => k && k.length > 0);
-  if (!hasKeys) {
-    console.warn('⚠️  No API keys detected - some features may not work');
-  }
+  console.log(`   Mode: ${mode}`);
+  console.log(`   Chat provider: ${llm.provider}`);
+  console.log(`   Voice provider: ${tts.provider}`);
+  console.log(`   Storage: ${storage.backend}`);
+  console.log(`   Notifications: ${notifications.channels.join(', ')}`);
+  console.log(`   Weather: ${weather.provider}`);
 
   return config;
 }
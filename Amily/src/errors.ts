@@ -0,0 +1,15 @@
+/**
+ * Request Errors
+ *
+ * A request that can't go ahead ("that dose was already taken", "I
+ * couldn't find that memory") carries the HTTP status to answer with and
+ * a message that can be read back to the user. Each area extends it with
+ * its own class, so a route can tell which area turned it down.
+ */
+
+export class StatusError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Fall Follow-up
+ *
+ * When a fall is detected, Amily asks the user whether they're okay and
+ * holds the emergency alert for FALL_RESPONSE_SECONDS. An answer by voice,
+ * text or button decides what happens: "I'm okay" stands the alert down
+ * (and is logged on it), anything else sends it out at once, and silence
+ * lets the escalation sweep send it out when the time is up.
+ */
+
+import { config } from './config';
+import { AlertError, raiseAlert, recordUserResponse, type UserResponse } from './alerts';
+import { alertRepository, type AlertRecord } from './repositories';
+import type { SafetyAlert, VitalsData } from './safety';
+import { analyzeSafetyText, tokenize } from './safetyDetection';
+
+export type FallResponseChannel = 'voice' | 'text' | 'button';
+
+export const FALL_PROMPT =
+  "I think you may have had a fall... are you okay? Just say \"I'm okay\", or press the button. If I don't hear from you soon, I'll call for help.";
+
+export interface FallCheck {
+  alertId: string;
+  /** When the Care Circle is told if the user hasn't answered */
+  respondBy: string;
+  prompt: string;
+}
+
+export interface FallAnswer {
+  outcome: UserResponse['outcome'];
+  alert: AlertRecord;
+  /** What Amily says back */
+  reply: string;
+}
+
+/** Answers that mean the user is alright, after contractions are expanded */
+const OK_ANSWERS = [
+  /\b(i am|i feel|feeling|all|it is) (ok|okay|fine|alright|all right|good)\b/,
+  /^(yes|yeah|yep|ok|okay|fine|alright|all good)\b/,
+  /\b(no|do not) need (any )?help\b/,
+  /\bfalse alarm\b/,
+  /\bi (did not|have not) fall(en)?\b/,
+  /\bnot hurt\b/,
+];
+
+/** Answers that mean the user isn't alright, after contractions are expanded */
+const HELP_ANSWERS = [
+  /\bnot (ok|okay|fine|alright|all right|good)\b/,
+  /^(no|nope|help)\b/,
+  /\b(help|hurt|hurts|pain|fell|fallen|get up|stand up)\b/,
+];
+
+/**
+ * Whether something the user said reads as an answer to "are you okay?",
+ * rather than whatever else they came to talk about
+ */
+export function isFallAnswer(text: string): boolean {
+  if (isOkAnswer(text)) return true;
+  const words = tokenize(text).map((token) => token.word).join(' ');
+  const { level } = analyzeSafetyText(text);
+  return level === 'emergency' || level === 'urgent' || HELP_ANSWERS.some((pattern) => pattern.test(words));
+}
+
+/**
+ * Whether an answer means "I'm okay". Anything that also sounds like
+ * trouble ("I'm okay but I can't get up") counts as a call for help.
+ */
+export function isOkAnswer(text: string): boolean {
+  const words = tokenize(text).map((token) => token.word).join(' ');
+  const { level } = analyzeSafetyText(text);
+  if (level === 'emergency' || level === 'urgent') return false;
+  return OK_ANSWERS.some((pattern) => pattern.test(words));
+}
+
+/**
+ * The fall alert still waiting on the user, if any
+ */
+export async function pendingFallCheck(userId: string, now: Date = new Date()): Promise<AlertRecord | null> {
+  const recent = await alertRepository.listForUser(userId, {
+    since: new Date(now.getTime() - config.falls.followUpMinutes * 60_000).toISOString(),
+  });
+  return (
+    recent.find(
+      (alert) =>
+        alert.detected.includes('fall_detected') &&
+        alert.status !== 'resolved' &&
+        !alert.history.some((entry) => entry.action === 'user_ok' || entry.action === 'user_needs_help')
+    ) ?? null
+  );
+}
+
+/**
+ * Hold a fall alert while the user is asked whether they're okay. A second
+ * fall report while one is waiting joins the first.
+ */
+export async function startFallCheck(userId: string, alert: SafetyAlert, vitals: VitalsData, route: string): Promise<FallCheck> {
+  const existing = await pendingFallCheck(userId);
+  const held =
+    existing ??
+    (await raiseAlert({
+      userId,
+      level: 'emergency',
+      source: 'vitals',
+      event: 'emergency_alert',
+      detected: alert.detected,
+      context: 'Fall detected',
+      vitals,
+      route,
+      awaitResponseSeconds: config.falls.responseSeconds,
+    }));
+
+  console.log(`🚨 [FALL] User ${userId} - asking if they're okay (alert ${held.id}, ${held.status})`);
+  return {
+    alertId: held.id,
+    respondBy: held.escalate_at ?? held.timestamp,
+    prompt: FALL_PROMPT,
+  };
+}
+
+/**
+ * The user's answer to a fall check: a button press ("ok" or "help"), or
+ * something they said or typed
+ */
+export async function answerFallCheck(
+  userId: string,
+  answer: { alertId?: string; ok?: boolean; text?: string; channel: FallResponseChannel }
+): Promise<FallAnswer> {
+  const alertId = answer.alertId ?? (await pendingFallCheck(userId))?.id;
+  if (!alertId) {
+    throw new AlertError("There's no fall check waiting for an answer.", 404);
+  }
+
+  const ok = answer.ok ?? isOkAnswer(answer.text ?? '');
+  const wasSent = (await alertRepository.get(alertId))?.status !== 'awaiting_response';
+  const alert = await recordUserResponse(userId, alertId, {
+    outcome: ok ? 'ok' : 'help',
+    channel: answer.channel,
+    text: answer.text,
+  });
+
+  const reply = ok
+    ? "I'm so glad you're okay... take your time getting up, and sit for a moment if you feel wobbly." +
+      (wasSent ? " I've let your care circle know you're alright." : '')
+    : "I'm here with you... help is on the way. Try to stay still and keep warm. You're not alone.";
+
+  return { outcome: ok ? 'ok' : 'help', alert, reply };
+}
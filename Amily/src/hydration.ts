@@ -0,0 +1,119 @@
+/**
+ * Hydration Tracking
+ *
+ * Glasses of water come from the user's "water" wellness log entries,
+ * counted by day on their own clock, against the daily goal in their
+ * preferences.
+ */
+
+import {
+  preferencesRepository,
+  wellnessLogRepository,
+  type WellnessLogRecord,
+} from './repositories';
+import { addDays, getUserTimeZone, localDate, weekStart } from './timezone';
+import type { HydrationGoal } from './wellness';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DailyHydration {
+  date: string;
+  glasses: number;
+  goal: number;
+  metGoal: boolean;
+}
+
+export interface WeeklyHydration {
+  weekStart: string;
+  glasses: number;
+  /** Over the days of the week so far */
+  averagePerDay: number;
+  daysMetGoal: number;
+}
+
+/**
+ * A water entry is one glass unless it says how many
+ */
+function glasses(entry: WellnessLogRecord): number {
+  return typeof entry.value === 'number' && entry.value > 0 ? entry.value : 1;
+}
+
+/**
+ * Water entries since a few days before `fromDate`, keyed by local date
+ */
+async function glassesByDate(
+  userId: string,
+  timeZone: string,
+  fromDate: string,
+  now: Date
+): Promise<{ byDate: Map<string, number>; lastDrink?: string }> {
+  // Look back a day further than needed so no time zone falls outside the window
+  const days = Math.round((Date.parse(`${localDate(now, timeZone)}T00:00:00Z`) - Date.parse(`${fromDate}T00:00:00Z`)) / DAY_MS);
+  const entries = await wellnessLogRepository.listForUser(userId, {
+    type: 'water',
+    since: new Date(now.getTime() - (days + 2) * DAY_MS).toISOString(),
+  });
+
+  const byDate = new Map<string, number>();
+  for (const entry of entries) {
+    const date = localDate(new Date(entry.timestamp), timeZone);
+    if (date >= fromDate) byDate.set(date, (byDate.get(date) || 0) + glasses(entry));
+  }
+  return { byDate, lastDrink: entries[entries.length - 1]?.timestamp };
+}
+
+/**
+ * Today's glasses, the user's goal and when they last had a drink
+ */
+export async function getHydrationStatus(userId: string, now: Date = new Date()): Promise<HydrationGoal> {
+  const [timeZone, preferences] = await Promise.all([getUserTimeZone(userId), preferencesRepository.get(userId)]);
+  const today = localDate(now, timeZone);
+  const { byDate, lastDrink } = await glassesByDate(userId, timeZone, today, now);
+
+  return {
+    dailyGlasses: preferences.hydration_goal,
+    currentGlasses: byDate.get(today) || 0,
+    lastDrink,
+  };
+}
+
+/**
+ * Glasses per day for the last few days, oldest first
+ */
+export async function getDailyHydration(userId: string, days: number, now: Date = new Date()): Promise<DailyHydration[]> {
+  const [timeZone, preferences] = await Promise.all([getUserTimeZone(userId), preferencesRepository.get(userId)]);
+  const today = localDate(now, timeZone);
+  const from = addDays(today, -(days - 1));
+  const { byDate } = await glassesByDate(userId, timeZone, from, now);
+
+  const history: DailyHydration[] = [];
+  for (let date = from; date <= today; date = addDays(date, 1)) {
+    const count = byDate.get(date) || 0;
+    history.push({ date, glasses: count, goal: preferences.hydration_goal, metGoal: count >= preferences.hydration_goal });
+  }
+  return history;
+}
+
+/**
+ * Glasses per week (Monday to Sunday) for the last few weeks, oldest first
+ */
+export async function getWeeklyHydration(userId: string, weeks: number, now: Date = new Date()): Promise<WeeklyHydration[]> {
+  const timeZone = await getUserTimeZone(userId);
+  const today = localDate(now, timeZone);
+  const firstWeek = addDays(weekStart(today), -7 * (weeks - 1));
+  const days = Math.round((Date.parse(`${today}T00:00:00Z`) - Date.parse(`${firstWeek}T00:00:00Z`)) / DAY_MS) + 1;
+  const daily = await getDailyHydration(userId, days, now);
+
+  const history: WeeklyHydration[] = [];
+  for (let week = firstWeek; week <= today; week = addDays(week, 7)) {
+    const inWeek = daily.filter((day) => weekStart(day.date) === week);
+    const total = inWeek.reduce((sum, day) => sum + day.glasses, 0);
+    history.push({
+      weekStart: week,
+      glasses: total,
+      averagePerDay: Math.round((total / inWeek.length) * 10) / 10,
+      daysMetGoal: inWeek.filter((day) => day.metGoal).length,
+    });
+  }
+  return history;
+}
@@ -0,0 +1,310 @@
+/**
+ * Inactivity Watchdog
+ *
+ * Learns when each user's day usually starts from their check-ins, chats
+ * and wellness logs. If nothing has been heard from them a while after
+ * that, Amily gently prompts them; if the prompt goes unanswered, the Care
+ * Circle gets a concern alert. Hearing from the user again closes the
+ * alert with a note.
+ */
+
+import { config } from './config';
+import { raiseAlert, resolveAlert } from './alerts';
+import { getNotificationDispatcher, type NotificationDispatcher } from './notifications';
+import {
+  activityRepository,
+  inactivityCheckRepository,
+  type InactivityCheckRecord,
+} from './repositories';
+import type { SafetyAlert } from './safety';
+import { createSerialRunner } from './serial';
+import { addDays, addMinutes, fromLocalDateTime, getUserTimeZone, localDate, localDateTime } from './timezone';
+
+export interface InactivityPrompt {
+  userId: string;
+  /** Local "YYYY-MM-DDTHH:MM" the user is usually active by */
+  expectedBy: string;
+  message: string;
+  ttsMessage: string;
+  timestamp: string;
+}
+
+export interface InactivityChannel {
+  name: string;
+  deliver(prompt: InactivityPrompt): Promise<void>;
+}
+
+/**
+ * When a user's day usually starts, on their own clock
+ */
+export interface UsualActivity {
+  /** Median time of the first activity of the day, "HH:MM" */
+  usualStart: string;
+  /** Days with activity it was learned from */
+  days: number;
+}
+
+export interface InactivityStatus {
+  usual: UsualActivity | null;
+  /** Local "YYYY-MM-DDTHH:MM" today's prompt is due, if the user stays quiet */
+  expectedBy: string | null;
+  lastActivity: string | null;
+  activeToday: boolean;
+  promptedAt: string | null;
+  alertId: string | null;
+}
+
+const QUIET_ALERT: SafetyAlert & { level: 'concern' } = {
+  level: 'concern',
+  detected: ['no_activity', 'prompt_unanswered'],
+  message: "I haven't heard from you today... I'm asking your care circle to check in, just to be safe.",
+  actions: ['alert_caregiver', 'check_in'],
+  caregiverAlert: true,
+};
+
+/**
+ * Print each prompt to the console (the default in demo mode)
+ */
+export function createInactivityLogChannel(): InactivityChannel {
+  return {
+    name: 'log',
+    async deliver(prompt) {
+      console.log(`👋 [${config.mode.toUpperCase()}] Check-in prompt for ${prompt.userId}: ${prompt.message}`);
+    },
+  };
+}
+
+/**
+ * Send prompts out through the notification channels, addressed to the user
+ */
+export function createInactivityNotifyChannel(dispatcher: NotificationDispatcher = getNotificationDispatcher()): InactivityChannel {
+  return {
+    name: 'notify',
+    async deliver(prompt) {
+      const queued = await dispatcher.enqueue('inactivity_prompt', { ...prompt, recipient: null });
+      if (!queued) {
+        throw new Error('prompt could not be queued');
+      }
+    },
+  };
+}
+
+function minutesOfDay(local: string): number {
+  return Number(local.slice(11, 13)) * 60 + Number(local.slice(14, 16));
+}
+
+/**
+ * Learn when the user's day usually starts from the days before `today`
+ */
+export async function learnUsualActivity(userId: string, today: string, timeZone: string): Promise<UsualActivity | null> {
+  const times = await activityRepository.timesForUser(userId, {
+    since: fromLocalDateTime(`${addDays(today, -config.inactivity.learningDays)}T00:00`, timeZone).toISOString(),
+    until: fromLocalDateTime(`${today}T00:00`, timeZone).toISOString(),
+  });
+
+  // Times are oldest first, so the first one seen each day is that day's start
+  const firstByDay = new Map<string, number>();
+  for (const time of times) {
+    const local = localDateTime(new Date(time), timeZone);
+    if (!firstByDay.has(local.slice(0, 10))) firstByDay.set(local.slice(0, 10), minutesOfDay(local));
+  }
+  if (firstByDay.size < config.inactivity.minDays) return null;
+
+  const starts = [...firstByDay.values()].sort((a, b) => a - b);
+  const middle = Math.floor(starts.length / 2);
+  const median = starts.length % 2 ? starts[middle] : Math.round((starts[middle - 1] + starts[middle]) / 2);
+  const usualStart = `${String(Math.floor(median / 60)).padStart(2, '0')}:${String(median % 60).padStart(2, '0')}`;
+  return { usualStart, days: firstByDay.size };
+}
+
+/**
+ * The user's usual start and how today is going
+ */
+export async function getInactivityStatus(userId: string, now: Date = new Date()): Promise<InactivityStatus> {
+  const timeZone = await getUserTimeZone(userId);
+  const today = localDate(now, timeZone);
+  const [usual, check, recent] = await Promise.all([
+    learnUsualActivity(userId, today, timeZone),
+    inactivityCheckRepository.get(userId, today),
+    activityRepository.timesForUser(userId, {
+      since: fromLocalDateTime(`${addDays(today, -config.inactivity.learningDays)}T00:00`, timeZone).toISOString(),
+      until: now.toISOString(),
+    }),
+  ]);
+  const lastActivity = recent[recent.length - 1] ?? null;
+
+  return {
+    usual,
+    expectedBy: check?.expected_by ?? (usual ? addMinutes(`${today}T${usual.usualStart}`, config.inactivity.graceMinutes) : null),
+    lastActivity,
+    activeToday: lastActivity !== null && localDate(new Date(lastActivity), timeZone) === today,
+    promptedAt: check?.prompted_at ?? null,
+    alertId: check?.alert_id ?? null,
+  };
+}
+
+export interface InactivityWatchdogOptions {
+  channel: InactivityChannel;
+  /** Where "now" comes from; tests pass a fake clock */
+  clock?: () => Date;
+  graceMinutes: number;
+  responseMinutes: number;
+}
+
+export interface InactivityTickResult {
+  prompted: number;
+  alerted: number;
+  /** Users heard from again after a prompt */
+  answered: number;
+}
+
+export interface InactivityWatchdog {
+  tick(): Promise<InactivityTickResult>;
+  start(intervalMs: number): void;
+}
+
+export function createInactivityWatchdog(options: InactivityWatchdogOptions): InactivityWatchdog {
+  const clock = options.clock ?? (() => new Date());
+  // Usual starts only change once a day, so they're learned once per user per day
+  const learned = new Map<string, UsualActivity | null>();
+  const serially = createSerialRunner();
+  let timer: NodeJS.Timeout | null = null;
+
+  async function usualFor(userId: string, today: string, timeZone: string): Promise<UsualActivity | null> {
+    const key = `${userId}_${today}`;
+    if (!learned.has(key)) {
+      learned.set(key, await learnUsualActivity(userId, today, timeZone));
+    }
+    return learned.get(key)!;
+  }
+
+  /** Heard from again: close the day, and the alert if there was one */
+  async function answered(check: InactivityCheckRecord, activeAt: string): Promise<void> {
+    await inactivityCheckRepository.update(check.user_id, check.date, { active_again_at: activeAt });
+    if (!check.alert_id) return;
+    try {
+      await resolveAlert(check.user_id, check.alert_id, `Active again at ${activeAt}`);
+    } catch (error) {
+      // Someone in the Care Circle may already have resolved it
+      console.warn(`Inactivity alert ${check.alert_id} was not resolved:`, error);
+    }
+  }
+
+  async function watchUser(userId: string, now: Date): Promise<keyof InactivityTickResult | null> {
+    const timeZone = await getUserTimeZone(userId);
+    const nowLocal = localDateTime(now, timeZone);
+    const today = nowLocal.slice(0, 10);
+    const check = await inactivityCheckRepository.get(userId, today);
+    if (check?.active_again_at) return null;
+
+    const [activeAt] = await activityRepository.timesForUser(userId, {
+      since: fromLocalDateTime(`${today}T00:00`, timeZone).toISOString(),
+      until: now.toISOString(),
+    });
+    if (activeAt) {
+      if (!check) return null;
+      await answered(check, activeAt);
+      return 'answered';
+    }
+
+    if (!check) {
+      const usual = await usualFor(userId, today, timeZone);
+      if (!usual) return null;
+      const expectedBy = addMinutes(`${today}T${usual.usualStart}`, options.graceMinutes);
+      // Late risers whose grace runs past midnight are picked up the next day
+      if (nowLocal < expectedBy || !expectedBy.startsWith(today)) return null;
+
+      const prompt: InactivityPrompt = {
+        userId,
+        expectedBy,
+        message: "Good morning! I haven't heard from you yet today... how are you feeling? Just say hello when you're ready.",
+        ttsMessage: "Good morning... I haven't heard from you yet today. How are you feeling? Just say hello when you're ready.",
+        timestamp: now.toISOString(),
+      };
+      try {
+        await options.channel.deliver(prompt);
+      } catch (error) {
+        // Nothing stored, so the next tick tries again
+        console.error(`Check-in prompt for ${userId} via ${options.channel.name} failed:`, error);
+        return null;
+      }
+      await inactivityCheckRepository.add({
+        user_id: userId,
+        date: today,
+        expected_by: expectedBy,
+        prompted_at: now.toISOString(),
+        alert_id: null,
+        active_again_at: null,
+      });
+      return 'prompted';
+    }
+
+    if (check.alert_id || !check.prompted_at) return null;
+    if (now.getTime() - Date.parse(check.prompted_at) < options.responseMinutes * 60_000) return null;
+
+    const alert = await raiseAlert({
+      userId,
+      level: QUIET_ALERT.level,
+      source: 'inactivity',
+      event: 'inactivity_concern',
+      detected: QUIET_ALERT.detected,
+      context: `Not heard from by ${check.expected_by.slice(11)}, and no answer to the check-in prompt at ${localDateTime(new Date(check.prompted_at), timeZone).slice(11)}`,
+    });
+    await inactivityCheckRepository.update(userId, today, { alert_id: alert.id });
+    console.log(`🔕 ${userId} has been quiet today; Care Circle alert ${alert.id} raised`);
+    return 'alerted';
+  }
+
+  async function runTick(): Promise<InactivityTickResult> {
+    const now = clock();
+    const totals: InactivityTickResult = { prompted: 0, alerted: 0, answered: 0 };
+    const since = new Date(now.getTime() - (config.inactivity.learningDays + 1) * 24 * 60 * 60_000).toISOString();
+    for (const userId of await activityRepository.userIdsSince(since)) {
+      try {
+        const outcome = await watchUser(userId, now);
+        if (outcome) totals[outcome]++;
+      } catch (error) {
+        console.error(`Inactivity check for ${userId} failed:`, error);
+      }
+    }
+    // Yesterday's learned starts are no longer needed
+    for (const key of learned.keys()) {
+      if (key.slice(-10) < addDays(now.toISOString().slice(0, 10), -1)) learned.delete(key);
+    }
+    return totals;
+  }
+
+  const watchdog: InactivityWatchdog = {
+    tick() {
+      // One pass at a time, so nobody is prompted or alerted about twice
+      return serially(runTick);
+    },
+
+    start(intervalMs) {
+      if (timer) return;
+      timer = setInterval(() => {
+        watchdog.tick().catch((error) => console.error('Inactivity watchdog error:', error));
+      }, intervalMs);
+      timer.unref();
+    },
+  };
+
+  return watchdog;
+}
+
+let watchdog: InactivityWatchdog | null = null;
+
+/**
+ * The watchdog, prompting through the same channel as medication reminders
+ */
+export function getInactivityWatchdog(): InactivityWatchdog {
+  if (!watchdog) {
+    const { graceMinutes, responseMinutes } = config.inactivity;
+    watchdog = createInactivityWatchdog({
+      channel: config.reminders.channel === 'notify' ? createInactivityNotifyChannel() : createInactivityLogChannel(),
+      graceMinutes,
+      responseMinutes,
+    });
+  }
+  return watchdog;
+}
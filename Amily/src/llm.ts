@@ -0,0 +1,474 @@
+/**
+ * LLM Provider Layer
+ *
+ * Chat backends behind generateChatReply. Each provider maps the
+ * conversation history and Amily's system instructions into its own
+ * request format, so routes never depend on a specific vendor. Providers
+ * that can also return JSON matching a schema do so through generateJSON.
+ */
+
+import type { z } from 'zod';
+import { config, type LLMProviderName } from './config';
+import { detectEmotion, generateEmpatheticResponse } from './persona';
+
+export interface ChatTurn {
+  role: 'user' | 'amily';
+  text: string;
+}
+
+export interface ChatRequest {
+  userInput: string;
+  history: ChatTurn[];
+  isFirstTurn: boolean;
+}
+
+/**
+ * The subset of JSON Schema used to describe structured output
+ */
+export interface JSONSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: string[];
+}
+
+/**
+ * A request for a JSON object instead of a chat reply
+ */
+export interface StructuredRequest {
+  /** What the object is for and how to fill it in */
+  instruction: string;
+  prompt: string;
+  schema: JSONSchema;
+  /** The last reply and what was wrong with it, when trying again */
+  previous?: { output: string; problem: string };
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  generate(request: ChatRequest): Promise<string>;
+  /** Yield the reply in pieces as the model produces them */
+  stream(request: ChatRequest): AsyncIterable<string>;
+  /** Raw JSON text for a schema; left out by providers that can't do structured output */
+  generateJSON?(request: StructuredRequest): Promise<string>;
+}
+
+const GENERATION_SETTINGS = {
+  temperature: 0.6,
+  maxOutputTokens: 220,
+  topP: 0.9,
+};
+
+/** Structured output is steadier a little cooler, and needs more room */
+const STRUCTURED_SETTINGS = {
+  ...GENERATION_SETTINGS,
+  temperature: 0.4,
+  maxOutputTokens: 500,
+};
+
+/**
+ * Describe a zod schema as JSON Schema (objects, arrays, strings, numbers,
+ * booleans and enums, with their descriptions)
+ */
+export function toJSONSchema(schema: z.ZodTypeAny): JSONSchema {
+  const def = schema._def;
+  const described = (json: JSONSchema): JSONSchema => (schema.description ? { ...json, description: schema.description } : json);
+
+  switch (def.typeName) {
+    case 'ZodOptional':
+    case 'ZodNullable':
+    case 'ZodDefault':
+      return described(toJSONSchema(def.innerType));
+    case 'ZodObject': {
+      const shape: Record<string, z.ZodTypeAny> = def.shape();
+      const properties = Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJSONSchema(value)]));
+      const required = Object.keys(shape).filter((key) => !shape[key].isOptional());
+      return described({ type: 'object', properties, required });
+    }
+    case 'ZodArray':
+      return described({ type: 'array', items: toJSONSchema(def.type) });
+    case 'ZodEnum':
+      return described({ type: 'string', enum: [...def.values] });
+    case 'ZodNumber':
+      return described({ type: 'number' });
+    case 'ZodBoolean':
+      return described({ type: 'boolean' });
+    default:
+      return described({ type: 'string' });
+  }
+}
+
+/**
+ * System instructions for structured output
+ */
+function buildStructuredInstruction(request: StructuredRequest): string {
+  return (
+    `${buildSystemInstruction(false)}${request.instruction} ` +
+    `Reply with only a JSON object matching this JSON Schema, and nothing else: ${JSON.stringify(request.schema)}`
+  );
+}
+
+/**
+ * Asking again after a reply that couldn't be used
+ */
+function retryMessage(problem: string): string {
+  return `That reply couldn't be used (${problem}). Please reply again with only the JSON object.`;
+}
+
+/**
+ * Gemini spells JSON Schema types in capitals
+ */
+function geminiSchema(schema: JSONSchema): Record<string, unknown> {
+  return {
+    ...schema,
+    type: schema.type.toUpperCase(),
+    ...(schema.properties && {
+      properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, geminiSchema(value)])),
+    }),
+    ...(schema.items && { items: geminiSchema(schema.items) }),
+  };
+}
+
+/**
+ * Amily's system instructions, shared by every provider
+ */
+export function buildSystemInstruction(isFirstTurn: boolean): string {
+  return (
+    'You are Amily, a gentle, patient companion for elderly users. ' +
+    'You speak slowly, in short, simple sentences. ' +
+    'You avoid technical language. ' +
+    'You respond with warmth, reassurance, and clear, kind suggestions. ' +
+    (isFirstTurn
+      ? 'This is the first conversation today. Gently check if they have taken their pills, eaten, and had some water, then respond warmly.'
+      : '')
+  );
+}
+
+/**
+ * Drop empty turns before handing history to a provider
+ */
+function cleanHistory(history: ChatTurn[]): ChatTurn[] {
+  return history.filter((message) => Boolean(message?.text?.trim()));
+}
+
+/**
+ * Read a Server-Sent Events response body, yielding each `data:` payload
+ */
+async function* readEventStream(response: Response): AsyncIterable<string> {
+  if (!response.body) return;
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.search(/\r?\n\r?\n/)) !== -1) {
+      const event = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+
+      const data = event
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+      if (data) yield data;
+    }
+  }
+}
+
+/**
+ * Join the text parts of a Gemini candidate list
+ */
+function geminiCandidateText(json: any): string {
+  return (
+    json.candidates
+      ?.map((candidate: any) =>
+        candidate.content?.parts
+          ?.map((part: any) => part?.text ?? '')
+          .join('')
+      )
+      .find((text: string) => Boolean(text?.trim())) ?? ''
+  );
+}
+
+/**
+ * Gemini via the Generative Language API
+ */
+export function createGeminiProvider(apiKey: string, model: string): LLMProvider {
+  const useSystemInstruction = /gemini-2/i.test(model) || model.includes('flash');
+
+  function buildRequestBody({ userInput, history, isFirstTurn }: ChatRequest): any {
+    const systemInstruction = buildSystemInstruction(isFirstTurn);
+
+    const contents: any[] = cleanHistory(history).map((message) => ({
+      role: message.role === 'user' ? 'user' : 'model',
+      parts: [{ text: message.text }],
+    }));
+
+    if (!useSystemInstruction) {
+      contents.unshift({
+        role: 'system',
+        parts: [{ text: systemInstruction }],
+      });
+    }
+
+    contents.push({
+      role: 'user',
+      parts: [{ text: userInput }],
+    });
+
+    const requestBody: any = {
+      contents,
+      generationConfig: GENERATION_SETTINGS,
+    };
+
+    if (useSystemInstruction) {
+      requestBody.systemInstruction = {
+        role: 'system',
+        parts: [{ text: systemInstruction }],
+      };
+    }
+
+    return requestBody;
+  }
+
+  function buildStructuredBody(request: StructuredRequest): any {
+    const systemInstruction = buildStructuredInstruction(request);
+    const contents: any[] = [{ role: 'user', parts: [{ text: request.prompt }] }];
+    if (request.previous) {
+      contents.push(
+        { role: 'model', parts: [{ text: request.previous.output }] },
+        { role: 'user', parts: [{ text: retryMessage(request.previous.problem) }] }
+      );
+    }
+    if (!useSystemInstruction) {
+      contents.unshift({ role: 'system', parts: [{ text: systemInstruction }] });
+    }
+
+    return {
+      contents,
+      generationConfig: {
+        ...STRUCTURED_SETTINGS,
+        responseMimeType: 'application/json',
+        responseSchema: geminiSchema(request.schema),
+      },
+      ...(useSystemInstruction && { systemInstruction: { role: 'system', parts: [{ text: systemInstruction }] } }),
+    };
+  }
+
+  async function post(method: 'generateContent' | 'streamGenerateContent', body: unknown) {
+    const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}`;
+    const query = method === 'streamGenerateContent' ? `alt=sse&key=${apiKey}` : `key=${apiKey}`;
+
+    const response = await fetch(`${endpoint}?${query}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new Error(`Gemini API error: ${response.status} ${errorText}`);
+    }
+
+    return response;
+  }
+
+  return {
+    name: 'gemini',
+    model,
+    async generate(request) {
+      const response = await post('generateContent', buildRequestBody(request));
+      const candidateText = geminiCandidateText(await response.json()).trim();
+
+      if (!candidateText) {
+        throw new Error('Empty response from Gemini');
+      }
+
+      return candidateText;
+    },
+    async *stream(request) {
+      const response = await post('streamGenerateContent', buildRequestBody(request));
+      for await (const data of readEventStream(response)) {
+        const text = geminiCandidateText(JSON.parse(data));
+        if (text) yield text;
+      }
+    },
+    async generateJSON(request) {
+      const response = await post('generateContent', buildStructuredBody(request));
+      const candidateText = geminiCandidateText(await response.json()).trim();
+
+      if (!candidateText) {
+        throw new Error('Empty response from Gemini');
+      }
+
+      return candidateText;
+    },
+  };
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API
+ * (Ollama, llama.cpp server, vLLM, ...)
+ */
+export function createOpenAICompatibleProvider(options: {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}): LLMProvider {
+  function chatMessages({ userInput, history, isFirstTurn }: ChatRequest) {
+    return [
+      { role: 'system', content: buildSystemInstruction(isFirstTurn) },
+      ...cleanHistory(history).map((message) => ({
+        role: message.role === 'user' ? 'user' : 'assistant',
+        content: message.text,
+      })),
+      { role: 'user', content: userInput },
+    ];
+  }
+
+  function structuredMessages(request: StructuredRequest) {
+    return [
+      { role: 'system', content: buildStructuredInstruction(request) },
+      { role: 'user', content: request.prompt },
+      ...(request.previous
+        ? [
+            { role: 'assistant', content: request.previous.output },
+            { role: 'user', content: retryMessage(request.previous.problem) },
+          ]
+        : []),
+    ];
+  }
+
+  async function post(messages: { role: string; content: string }[], stream: boolean, structured: boolean = false) {
+    const settings = structured ? STRUCTURED_SETTINGS : GENERATION_SETTINGS;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.apiKey) {
+      headers.Authorization = `Bearer ${options.apiKey}`;
+    }
+
+    const response = await fetch(`${options.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: options.model,
+        messages,
+        stream,
+        temperature: settings.temperature,
+        top_p: settings.topP,
+        max_tokens: settings.maxOutputTokens,
+        ...(structured && { response_format: { type: 'json_object' } }),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new Error(`OpenAI-compatible API error: ${response.status} ${errorText}`);
+    }
+
+    return response;
+  }
+
+  return {
+    name: 'openai',
+    model: options.model,
+    async generate(request) {
+      const response = await post(chatMessages(request), false);
+      const json: any = await response.json();
+      const text = String(json.choices?.[0]?.message?.content ?? '').trim();
+
+      if (!text) {
+        throw new Error(`Empty response from ${options.model}`);
+      }
+
+      return text;
+    },
+    async *stream(request) {
+      const response = await post(chatMessages(request), true);
+      for await (const data of readEventStream(response)) {
+        if (data === '[DONE]') break;
+        const text = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+    async generateJSON(request) {
+      const response = await post(structuredMessages(request), false, true);
+      const json: any = await response.json();
+      const text = String(json.choices?.[0]?.message?.content ?? '').trim();
+
+      if (!text) {
+        throw new Error(`Empty response from ${options.model}`);
+      }
+
+      return text;
+    },
+  };
+}
+
+/**
+ * Deterministic offline responder built from the persona engine.
+ * The same input always gets the same reply, which keeps tests stable.
+ * It has no structured output, so callers use their own fallbacks.
+ */
+export function createOfflineProvider(): LLMProvider {
+  function reply({ userInput, isFirstTurn }: ChatRequest): string {
+    const response = generateEmpatheticResponse(detectEmotion(userInput), userInput);
+    if (isFirstTurn) {
+      return `${response} Before we go on… have you taken your pills, had something to eat, and a little water today?`;
+    }
+    return response;
+  }
+
+  return {
+    name: 'offline',
+    model: 'amily-offline',
+    async generate(request) {
+      return reply(request);
+    },
+    async *stream(request) {
+      // Word by word, like a real model would stream
+      for (const word of reply(request).match(/\S+\s*/g) || []) {
+        yield word;
+      }
+    },
+  };
+}
+
+const providers = new Map<LLMProviderName, LLMProvider>();
+
+/**
+ * Build a provider from configuration
+ */
+function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'gemini':
+      if (!config.keys.gemini) {
+        throw new Error('Gemini API key is required for the gemini chat provider.');
+      }
+      return createGeminiProvider(config.keys.gemini, config.llm.geminiModel);
+    case 'openai':
+      return createOpenAICompatibleProvider(config.llm.openai);
+    case 'offline':
+      return createOfflineProvider();
+  }
+}
+
+/**
+ * Get the chat provider for a user (per-user override, else the deployment default)
+ */
+export function getLLMProvider(userId?: string): LLMProvider {
+  const name = (userId && config.llm.userProviders[userId]) || config.llm.provider;
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
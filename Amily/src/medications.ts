@@ -0,0 +1,383 @@
+/**
+ * Medications & Adherence
+ *
+ * A user's medications and the doses they schedule. Each scheduled dose
+ * is stored once, at a time on the user's own clock, and recorded as
+ * taken, skipped or missed; caregivers see only the adherence numbers,
+ * never which medications they are.
+ */
+
+import { config } from './config';
+import { escalationTiers, notifyMembers } from './careCircle';
+import { StatusError } from './errors';
+import {
+  doseRepository,
+  medicationRepository,
+  preferencesRepository,
+  type DoseRecord,
+  type DoseStatus,
+  type MedicationRecord,
+} from './repositories';
+import type { MedicationRequest, MedicationUpdate } from './schemas';
+import { addDays, addMinutes, getUserTimeZone, localDateTime, minutesBetween, weekStart } from './timezone';
+import type { MedicationSchedule } from './wellness';
+
+export class MedicationError extends StatusError {}
+
+export function doseId(medicationId: string, date: string, time: string): string {
+  return `${medicationId}_${date}_${time.replace(':', '')}`;
+}
+
+/**
+ * The shape the wellness nudges work with
+ */
+export function toSchedule(medication: MedicationRecord): MedicationSchedule {
+  return {
+    id: medication.id,
+    name: medication.name,
+    dosage: medication.dosage,
+    times: medication.times,
+    withFood: medication.with_food,
+    notes: medication.notes ?? undefined,
+  };
+}
+
+export function toMedicationView(medication: MedicationRecord) {
+  return {
+    id: medication.id,
+    name: medication.name,
+    dosage: medication.dosage,
+    times: medication.times,
+    withFood: medication.with_food,
+    notes: medication.notes,
+    active: medication.active,
+    createdAt: medication.created_at,
+  };
+}
+
+export function toDoseView(dose: DoseRecord, medication?: MedicationRecord) {
+  return {
+    id: dose.id,
+    medicationId: dose.medication_id,
+    name: medication?.name,
+    dosage: medication?.dosage,
+    scheduledFor: dose.scheduled_for,
+    status: dose.status,
+    recordedAt: dose.recorded_at,
+    note: dose.note,
+    snoozedUntil: dose.snoozed_until,
+  };
+}
+
+/**
+ * Load a medication owned by this user
+ */
+export async function getOwnedMedication(userId: string, id: string): Promise<MedicationRecord> {
+  const medication = await medicationRepository.get(id);
+  if (!medication || medication.user_id !== userId) {
+    throw new MedicationError("I couldn't find that medication.", 404);
+  }
+  return medication;
+}
+
+/**
+ * Add a medication to the user's list
+ */
+export async function addMedication(userId: string, request: Omit<MedicationRequest, 'userId'>): Promise<MedicationRecord> {
+  return medicationRepository.add({
+    user_id: userId,
+    name: request.name,
+    dosage: request.dosage,
+    times: request.times,
+    with_food: request.withFood ?? false,
+    notes: request.notes ?? null,
+    active: true,
+  });
+}
+
+/**
+ * Drop upcoming pending doses that no longer match the medication's schedule
+ */
+async function pruneUpcomingDoses(medication: MedicationRecord, now: Date): Promise<void> {
+  const upcoming = await doseRepository.listForUser(medication.user_id, {
+    status: 'pending',
+    from: localDateTime(now, await getUserTimeZone(medication.user_id)),
+  });
+  for (const dose of upcoming) {
+    if (dose.medication_id !== medication.id) continue;
+    if (!medication.active || !medication.times.includes(dose.scheduled_for.slice(11))) {
+      await doseRepository.remove(dose.id);
+    }
+  }
+}
+
+/**
+ * Change a medication; past doses keep the schedule they were made with
+ */
+export async function updateMedication(
+  userId: string,
+  id: string,
+  changes: MedicationUpdate,
+  now: Date = new Date()
+): Promise<MedicationRecord> {
+  await getOwnedMedication(userId, id);
+  const updated = (await medicationRepository.update(id, {
+    name: changes.name,
+    dosage: changes.dosage,
+    times: changes.times,
+    with_food: changes.withFood,
+    notes: changes.notes,
+  }))!;
+  if (changes.times) await pruneUpcomingDoses(updated, now);
+  return updated;
+}
+
+/**
+ * Stop a medication. It stays on record, with its dose history, for adherence.
+ */
+export async function stopMedication(userId: string, id: string, now: Date = new Date()): Promise<MedicationRecord> {
+  await getOwnedMedication(userId, id);
+  const updated = (await medicationRepository.update(id, { active: false }))!;
+  await pruneUpcomingDoses(updated, now);
+  return updated;
+}
+
+/**
+ * Store a dose record for every scheduled time of the active medications
+ * between two local dates (inclusive). Safe to call repeatedly.
+ */
+export async function ensureDoses(userId: string, fromDate: string, toDate: string): Promise<void> {
+  const medications = await medicationRepository.listForUser(userId);
+  if (medications.length === 0) return;
+  const timeZone = await getUserTimeZone(userId);
+
+  const existing = new Set(
+    (await doseRepository.listForUser(userId, { from: fromDate, to: addDays(toDate, 1) })).map((dose) => dose.id)
+  );
+
+  for (const medication of medications) {
+    // No doses from before the medication was added
+    const addedAt = localDateTime(new Date(medication.created_at), timeZone);
+    for (let date = fromDate; date <= toDate; date = addDays(date, 1)) {
+      for (const time of medication.times) {
+        const scheduledFor = `${date}T${time}`;
+        const id = doseId(medication.id, date, time);
+        if (scheduledFor < addedAt || existing.has(id)) continue;
+        await doseRepository.add({
+          id,
+          user_id: userId,
+          medication_id: medication.id,
+          scheduled_for: scheduledFor,
+          status: 'pending',
+          recorded_at: null,
+          note: null,
+          wellness_log_id: null,
+          reminder_count: 0,
+          last_reminded_at: null,
+          snoozed_until: null,
+        });
+        existing.add(id);
+      }
+    }
+  }
+}
+
+/**
+ * Let the Care Circle know about missed doses, if the user has asked for that.
+ * Only members who hear about concerns are told, and never which medication.
+ */
+async function noticeMissedDoses(userId: string, missed: DoseRecord[]): Promise<void> {
+  const { missed_dose_alerts } = await preferencesRepository.get(userId);
+  if (!missed_dose_alerts) return;
+
+  const members = (await escalationTiers(userId, 'concern')).flat();
+  if (members.length === 0) return;
+
+  await notifyMembers(userId, members, 'missed_dose', {
+    missed: missed.length,
+    scheduledFor: missed.map((dose) => dose.scheduled_for),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Mark pending doses past their window as missed; returns the newly missed ones
+ */
+export async function markMissedDoses(userId: string, now: Date = new Date()): Promise<DoseRecord[]> {
+  const cutoff = addMinutes(localDateTime(now, await getUserTimeZone(userId)), -config.reminders.windowMinutes);
+  const overdue = await doseRepository.listForUser(userId, { status: 'pending', to: cutoff });
+
+  const missed: DoseRecord[] = [];
+  for (const dose of overdue) {
+    missed.push((await doseRepository.update(dose.id, { status: 'missed', recorded_at: now.toISOString() }))!);
+  }
+
+  if (missed.length > 0) {
+    noticeMissedDoses(userId, missed).catch((error) => console.error('Missed dose notice error:', error));
+  }
+  return missed;
+}
+
+/**
+ * One day's doses with their medications, bringing statuses up to date first
+ */
+export async function dosesForDay(
+  userId: string,
+  date: string,
+  now: Date = new Date()
+): Promise<{ dose: DoseRecord; medication?: MedicationRecord }[]> {
+  await ensureDoses(userId, date, date);
+  await markMissedDoses(userId, now);
+
+  const [doses, medications] = await Promise.all([
+    doseRepository.listForUser(userId, { from: date, to: addDays(date, 1) }),
+    medicationRepository.listForUser(userId, { includeInactive: true }),
+  ]);
+  const byId = new Map(medications.map((medication) => [medication.id, medication]));
+  return doses.map((dose) => ({ dose, medication: byId.get(dose.medication_id) }));
+}
+
+/**
+ * Load a dose of this user's that can be recorded now (not too far ahead of its time)
+ */
+export async function getRecordableDose(userId: string, id: string, now: Date = new Date()): Promise<DoseRecord> {
+  const dose = await doseRepository.get(id);
+  if (!dose || dose.user_id !== userId) {
+    throw new MedicationError("I couldn't find that dose.", 404);
+  }
+
+  const earliest = addMinutes(localDateTime(now, await getUserTimeZone(userId)), config.reminders.earlyMinutes);
+  if (dose.scheduled_for > earliest) {
+    throw new MedicationError("That dose isn't due yet… let's wait until it's time.", 409);
+  }
+  return dose;
+}
+
+/**
+ * Record a dose as taken or skipped (missed is set automatically)
+ */
+export async function recordDose(
+  userId: string,
+  id: string,
+  status: Exclude<DoseStatus, 'pending' | 'missed'>,
+  options: { note?: string; wellnessLogId?: string; now?: Date } = {}
+): Promise<DoseRecord> {
+  const now = options.now ?? new Date();
+  const dose = await getRecordableDose(userId, id, now);
+
+  return (await doseRepository.update(id, {
+    status,
+    recorded_at: now.toISOString(),
+    note: options.note ?? dose.note,
+    wellness_log_id: options.wellnessLogId ?? dose.wellness_log_id,
+  }))!;
+}
+
+/**
+ * The open dose closest to now, for a medication log that doesn't name one
+ */
+export async function findDoseToLink(userId: string, now: Date = new Date()): Promise<DoseRecord | null> {
+  const nowLocal = localDateTime(now, await getUserTimeZone(userId));
+  await ensureDoses(userId, addDays(nowLocal.slice(0, 10), -1), nowLocal.slice(0, 10));
+
+  const doses = await doseRepository.listForUser(userId, {
+    from: addMinutes(nowLocal, -config.reminders.windowMinutes),
+    to: addMinutes(nowLocal, config.reminders.earlyMinutes + 1),
+  });
+  const open = doses.filter((dose) => dose.status === 'pending' || dose.status === 'missed');
+
+  const distance = (dose: DoseRecord) => Math.abs(minutesBetween(dose.scheduled_for, nowLocal));
+  return open.sort((a, b) => distance(a) - distance(b))[0] || null;
+}
+
+/**
+ * Pending doses that can be taken now, within their window and not snoozed
+ */
+export async function dueDoses(
+  userId: string,
+  now: Date = new Date()
+): Promise<{ dose: DoseRecord; medication: MedicationRecord }[]> {
+  const nowLocal = localDateTime(now, await getUserTimeZone(userId));
+  const [doses, medications] = await Promise.all([
+    doseRepository.listForUser(userId, {
+      status: 'pending',
+      from: addMinutes(nowLocal, -config.reminders.windowMinutes),
+      to: addMinutes(nowLocal, config.reminders.earlyMinutes + 1),
+    }),
+    medicationRepository.listForUser(userId),
+  ]);
+
+  const byId = new Map(medications.map((medication) => [medication.id, medication]));
+  return doses
+    .filter((dose) => !dose.snoozed_until || dose.snoozed_until <= now.toISOString())
+    .flatMap((dose) => {
+      const medication = byId.get(dose.medication_id);
+      return medication ? [{ dose, medication }] : [];
+    });
+}
+
+export interface WeeklyAdherence {
+  weekStart: string;
+  scheduled: number;
+  taken: number;
+  skipped: number;
+  missed: number;
+  /** Taken as a share of doses already due, or null with none due */
+  adherencePercent: number | null;
+}
+
+/**
+ * Weekly adherence numbers for the last few weeks (Monday to Sunday).
+ * Counts only; no medication names or notes, so it can be shared with
+ * caregivers.
+ */
+export async function adherenceSummary(
+  userId: string,
+  weeks: number,
+  now: Date = new Date()
+): Promise<{ weeks: WeeklyAdherence[]; missedLast7Days: number; overallPercent: number | null }> {
+  const nowLocal = localDateTime(now, await getUserTimeZone(userId));
+  const today = nowLocal.slice(0, 10);
+  const firstWeek = addDays(weekStart(today), -7 * (weeks - 1));
+
+  await ensureDoses(userId, firstWeek, today);
+  await markMissedDoses(userId, now);
+
+  const doses = (await doseRepository.listForUser(userId, { from: firstWeek, to: addDays(today, 1) })).filter(
+    (dose) => dose.scheduled_for <= nowLocal || dose.status !== 'pending'
+  );
+
+  const summary: WeeklyAdherence[] = [];
+  for (let week = firstWeek; week <= today; week = addDays(week, 7)) {
+    const inWeek = doses.filter((dose) => weekStart(dose.scheduled_for.slice(0, 10)) === week);
+    const count = (status: DoseStatus) => inWeek.filter((dose) => dose.status === status).length;
+    const taken = count('taken');
+    const skipped = count('skipped');
+    const missed = count('missed');
+    const settled = taken + skipped + missed;
+    summary.push({
+      weekStart: week,
+      scheduled: inWeek.length,
+      taken,
+      skipped,
+      missed,
+      adherencePercent: settled > 0 ? Math.round((taken / settled) * 100) : null,
+    });
+  }
+
+  const sevenDaysAgo = addDays(today, -6);
+  const missedLast7Days = doses.filter(
+    (dose) => dose.status === 'missed' && dose.scheduled_for.slice(0, 10) >= sevenDaysAgo
+  ).length;
+
+  const totals = summary.reduce(
+    (sum, week) => ({ taken: sum.taken + week.taken, settled: sum.settled + week.taken + week.skipped + week.missed }),
+    { taken: 0, settled: 0 }
+  );
+
+  return {
+    weeks: summary,
+    missedLast7Days,
+    overallPercent: totals.settled > 0 ? Math.round((totals.taken / totals.settled) * 100) : null,
+  };
+}
@@ -0,0 +1,643 @@
+/**
+ * MemoryLane Family Book
+ *
+ * Gathers the memories a user has agreed to share into a keepsake book:
+ * one chapter per era, in timeline order, each story with its title and
+ * the line in the teller's own words. The book comes as Markdown, a
+ * standalone HTML page, an EPUB or a PDF. The EPUB and PDF are written
+ * by hand (a small zip writer and a Helvetica-only PDF writer), so no
+ * extra packages are needed. Books are made one at a time in the
+ * background and can be downloaded for `keepHours` before they're
+ * cleared away.
+ */
+
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { config } from './config';
+import { UNDATED_ERA } from './memoryExtraction';
+import { getMemoryTimeline, MemoryError } from './memoryLane';
+import { memoryExportRepository, type MemoryExportRecord } from './repositories';
+import type { MemoryBookFormat } from './schemas';
+import { createSerialRunner } from './serial';
+import { getUserTimeZone } from './timezone';
+
+export const DEFAULT_BOOK_TITLE = 'A Life in Stories';
+
+export interface BookStory {
+  title: string;
+  story: string;
+  quote?: string;
+}
+
+export interface BookChapter {
+  title: string;
+  stories: BookStory[];
+}
+
+export interface MemoryBook {
+  title: string;
+  /** The day it was put together, on the user's clock, e.g. "19 October 2026" */
+  gathered: string;
+  chapters: BookChapter[];
+  memoryCount: number;
+}
+
+interface BookFormat {
+  extension: string;
+  contentType: string;
+  render(book: MemoryBook): Buffer;
+}
+
+/**
+ * Gather the user's shareable memories into chapters by era. Memories
+ * they haven't marked shareable are left out entirely.
+ */
+export async function buildMemoryBook(userId: string, title?: string, now: Date = new Date()): Promise<MemoryBook> {
+  const timeline = await getMemoryTimeline(userId, { shareableOnly: true });
+  if (timeline.length === 0) {
+    throw new MemoryError(
+      "None of the stories have been marked for sharing yet... once they have, I can put the book together.",
+      409
+    );
+  }
+
+  const chapters = timeline.map((group) => ({
+    title: group.era === UNDATED_ERA ? 'Other Stories' : group.era,
+    stories: group.memories.map((memory) => ({
+      title: memory.title,
+      story: memory.story_3_sentences,
+      ...(memory.quote && { quote: memory.quote }),
+    })),
+  }));
+
+  const gathered = now.toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: await getUserTimeZone(userId),
+  });
+
+  return {
+    title: title || DEFAULT_BOOK_TITLE,
+    gathered,
+    chapters,
+    memoryCount: chapters.reduce((sum, chapter) => sum + chapter.stories.length, 0),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Markdown and HTML
+// ---------------------------------------------------------------------------
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|])/g, '\\$1');
+}
+
+export function renderMarkdown(book: MemoryBook): string {
+  const lines = [`# ${escapeMarkdown(book.title)}`, '', `_Stories told to Amily, gathered ${book.gathered}_`, ''];
+  for (const chapter of book.chapters) {
+    lines.push(`## ${escapeMarkdown(chapter.title)}`, '');
+    for (const story of chapter.stories) {
+      lines.push(`### ${escapeMarkdown(story.title)}`, '', escapeMarkdown(story.story), '');
+      if (story.quote) lines.push(`> “${escapeMarkdown(story.quote)}”`, '');
+    }
+  }
+  return lines.join('\n');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/** Large, calm type for reading aloud or printing at home */
+const BOOK_CSS = `
+body { font-family: Georgia, 'Times New Roman', serif; font-size: 1.25rem; line-height: 1.7; color: #2d2a26; background: #fdfaf5; margin: 0; }
+main { max-width: 40rem; margin: 0 auto; padding: 3rem 1.5rem; }
+h1 { font-size: 2.5rem; text-align: center; margin-bottom: 0.25rem; }
+.gathered { text-align: center; font-style: italic; color: #6b625a; margin-bottom: 3rem; }
+nav ol { padding-left: 1.5rem; }
+h2 { font-size: 1.9rem; border-bottom: 2px solid #e8dccb; padding-bottom: 0.25rem; margin-top: 3rem; }
+h3 { font-size: 1.4rem; margin-bottom: 0.5rem; }
+blockquote { font-style: italic; border-left: 4px solid #d9b99b; margin: 1rem 0; padding-left: 1rem; color: #5a4f45; }
+@media print { body { background: #fff; } h2 { break-before: page; } article { break-inside: avoid; } }
+`.trim();
+
+function storyHtml(story: BookStory): string {
+  return [
+    '<article>',
+    `<h3>${escapeXml(story.title)}</h3>`,
+    `<p>${escapeXml(story.story)}</p>`,
+    story.quote ? `<blockquote><p>“${escapeXml(story.quote)}”</p></blockquote>` : '',
+    '</article>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+export function renderHtml(book: MemoryBook): string {
+  const contents = book.chapters
+    .map((chapter, index) => `<li><a href="#chapter-${index + 1}">${escapeXml(chapter.title)}</a></li>`)
+    .join('\n');
+  const chapters = book.chapters
+    .map((chapter, index) =>
+      [`<section id="chapter-${index + 1}">`, `<h2>${escapeXml(chapter.title)}</h2>`, ...chapter.stories.map(storyHtml), '</section>'].join('\n')
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(book.title)}</title>
+<style>
+${BOOK_CSS}
+</style>
+</head>
+<body>
+<main>
+<header>
+<h1>${escapeXml(book.title)}</h1>
+<p class="gathered">Stories told to Amily, gathered ${escapeXml(book.gathered)}</p>
+</header>
+<nav aria-label="Contents">
+<h2>Contents</h2>
+<ol>
+${contents}
+</ol>
+</nav>
+${chapters}
+</main>
+</body>
+</html>
+`;
+}
+
+// ---------------------------------------------------------------------------
+// EPUB
+// ---------------------------------------------------------------------------
+
+interface ZipEntry {
+  name: string;
+  data: Buffer;
+  /** Stored as-is rather than deflated (the EPUB mimetype must be) */
+  store?: boolean;
+}
+
+/** CRC-32 lookup table (zlib.crc32 only arrived in Node 20.15) */
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * A zip archive, entries in the order given
+ */
+export function createZip(entries: ZipEntry[], date: Date = new Date()): Buffer {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const body = entry.store ? entry.data : zlib.deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(entry.store ? 0 : 8, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(day, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(entry.store ? 0 : 8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(day, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, body);
+    centrals.push(central, name);
+    offset += local.length + name.length + body.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+function xhtmlPage(title: string, body: string): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css" />
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * An EPUB 3 book: a title page, then one page per chapter
+ */
+export function renderEpub(book: MemoryBook, now: Date = new Date()): Buffer {
+  const chapterFiles = book.chapters.map((chapter, index) => ({ file: `chapter-${index + 1}.xhtml`, chapter }));
+  const modified = now.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  const opf = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">urn:uuid:${randomUUID()}</dc:identifier>
+<dc:title>${escapeXml(book.title)}</dc:title>
+<dc:language>en</dc:language>
+<dc:publisher>Amily</dc:publisher>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />
+<item id="style" href="style.css" media-type="text/css" />
+<item id="title" href="title.xhtml" media-type="application/xhtml+xml" />
+${chapterFiles.map(({ file }, index) => `<item id="chapter-${index + 1}" href="${file}" media-type="application/xhtml+xml" />`).join('\n')}
+</manifest>
+<spine>
+<itemref idref="title" />
+<itemref idref="nav" />
+${chapterFiles.map((_, index) => `<itemref idref="chapter-${index + 1}" />`).join('\n')}
+</spine>
+</package>
+`;
+
+  const nav = xhtmlPage(
+    'Contents',
+    `<nav epub:type="toc" id="toc">
+<h2>Contents</h2>
+<ol>
+${chapterFiles.map(({ file, chapter }) => `<li><a href="${file}">${escapeXml(chapter.title)}</a></li>`).join('\n')}
+</ol>
+</nav>`
+  );
+
+  const titlePage = xhtmlPage(
+    book.title,
+    `<h1>${escapeXml(book.title)}</h1>
+<p class="gathered">Stories told to Amily, gathered ${escapeXml(book.gathered)}</p>`
+  );
+
+  const container = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+</rootfiles>
+</container>
+`;
+
+  return createZip(
+    [
+      { name: 'mimetype', data: Buffer.from('application/epub+zip'), store: true },
+      { name: 'META-INF/container.xml', data: Buffer.from(container) },
+      { name: 'OEBPS/content.opf', data: Buffer.from(opf) },
+      { name: 'OEBPS/nav.xhtml', data: Buffer.from(nav) },
+      { name: 'OEBPS/style.css', data: Buffer.from(BOOK_CSS) },
+      { name: 'OEBPS/title.xhtml', data: Buffer.from(titlePage) },
+      ...chapterFiles.map(({ file, chapter }) => ({
+        name: `OEBPS/${file}`,
+        data: Buffer.from(
+          xhtmlPage(chapter.title, [`<h2>${escapeXml(chapter.title)}</h2>`, ...chapter.stories.map(storyHtml)].join('\n'))
+        ),
+      })),
+    ],
+    now
+  );
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+const PAGE_WIDTH = 595; // A4, in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 64;
+const LEADING = 1.45;
+
+type PdfFont = 'F1' | 'F2' | 'F3';
+const FONTS: Record<PdfFont, string> = { F1: 'Helvetica', F2: 'Helvetica-Bold', F3: 'Helvetica-Oblique' };
+
+/** Helvetica advance widths (per 1000 em) for ASCII 32 to 126 */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+/** Characters outside Latin-1 that WinAnsiEncoding has, with their codes and widths */
+const WIN_ANSI: Record<string, [number, number]> = {
+  '‘': [0x91, 222],
+  '’': [0x92, 222],
+  '“': [0x93, 333],
+  '”': [0x94, 333],
+  '–': [0x96, 556],
+  '—': [0x97, 1000],
+  '…': [0x85, 1000],
+  '€': [0x80, 556],
+};
+
+function charWidth(char: string): number {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) return HELVETICA_WIDTHS[code - 32];
+  return WIN_ANSI[char]?.[1] ?? 556;
+}
+
+function textWidth(text: string, font: PdfFont, size: number): number {
+  // Bold runs a little wider than the regular widths
+  const scale = font === 'F2' ? 1.06 : 1;
+  return ([...text].reduce((sum, char) => sum + charWidth(char), 0) * size * scale) / 1000;
+}
+
+/**
+ * A PDF string literal in WinAnsiEncoding; anything it can't show becomes "?"
+ */
+function pdfString(text: string): string {
+  let out = '';
+  for (const char of text.normalize('NFC')) {
+    const code = char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') out += `\\${char}`;
+    else if (code >= 32 && code <= 126) out += char;
+    else if (WIN_ANSI[char]) out += `\\${WIN_ANSI[char][0].toString(8)}`;
+    else if (code >= 0xa0 && code <= 0xff) out += `\\${code.toString(8)}`;
+    else out += char === '\n' || char === '\t' ? ' ' : '?';
+  }
+  return `(${out})`;
+}
+
+function wrap(text: string, font: PdfFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word;
+    if (line && textWidth(next, font, size) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * An A4 PDF: a title page, then each chapter from a new page, with page
+ * numbers at the foot
+ */
+export function renderPdf(book: MemoryBook): Buffer {
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = 0;
+
+  const newPage = () => {
+    ops = [];
+    pages.push(ops);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+  const text = (value: string, font: PdfFont, size: number, x: number) => {
+    ops.push(`BT /${font} ${size} Tf ${x.toFixed(1)} ${y.toFixed(1)} Td ${pdfString(value)} Tj ET`);
+  };
+  const paragraph = (value: string, font: PdfFont, size: number, options: { indent?: number; center?: boolean } = {}) => {
+    const indent = options.indent ?? 0;
+    for (const line of wrap(value, font, size, PAGE_WIDTH - 2 * MARGIN - indent)) {
+      if (y - size * LEADING < MARGIN) newPage();
+      y -= size * LEADING;
+      const x = options.center ? (PAGE_WIDTH - textWidth(line, font, size)) / 2 : MARGIN + indent;
+      text(line, font, size, x);
+    }
+  };
+
+  newPage();
+  y = PAGE_HEIGHT * 0.62;
+  paragraph(book.title, 'F2', 30, { center: true });
+  y -= 18;
+  paragraph(`Stories told to Amily, gathered ${book.gathered}`, 'F3', 14, { center: true });
+
+  for (const chapter of book.chapters) {
+    newPage();
+    paragraph(chapter.title, 'F2', 24);
+    y -= 16;
+    for (const story of chapter.stories) {
+      // Keep a story's title with the start of its text
+      if (y - 90 < MARGIN) newPage();
+      y -= 10;
+      paragraph(story.title, 'F2', 16);
+      y -= 4;
+      paragraph(story.story, 'F1', 13);
+      if (story.quote) {
+        y -= 6;
+        paragraph(`“${story.quote}”`, 'F3', 13, { indent: 18 });
+      }
+      y -= 10;
+    }
+  }
+
+  pages.forEach((page, index) => {
+    if (index === 0) return;
+    const label = String(index + 1);
+    page.push(`BT /F1 10 Tf ${((PAGE_WIDTH - textWidth(label, 'F1', 10)) / 2).toFixed(1)} 32 Td (${label}) Tj ET`);
+  });
+
+  // Objects: 1 catalog, 2 page tree, 3-5 fonts, 6 info, then a content stream and page for each page
+  const fontIds = Object.keys(FONTS) as PdfFont[];
+  const pageIds = pages.map((_, index) => 8 + index * 2);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    ...fontIds.map((id) => `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[id]} /Encoding /WinAnsiEncoding >>`),
+    `<< /Title ${pdfString(book.title)} /Producer (Amily) >>`,
+  ];
+  for (const [index, page] of pages.entries()) {
+    const content = page.join('\n');
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << ${fontIds.map((id, i) => `/${id} ${3 + i} 0 R`).join(' ')} >> >> /Contents ${pageIds[index] - 1} 0 R >>`
+    );
+  }
+
+  // Everything above is ASCII, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+export const BOOK_FORMATS: Record<MemoryBookFormat, BookFormat> = {
+  markdown: { extension: 'md', contentType: 'text/markdown; charset=utf-8', render: (book) => Buffer.from(renderMarkdown(book)) },
+  html: { extension: 'html', contentType: 'text/html; charset=utf-8', render: (book) => Buffer.from(renderHtml(book)) },
+  epub: { extension: 'epub', contentType: 'application/epub+zip', render: (book) => renderEpub(book) },
+  pdf: { extension: 'pdf', contentType: 'application/pdf', render: renderPdf },
+};
+
+/**
+ * A download name from the book's title, e.g. "a-life-in-stories.pdf"
+ */
+export function bookFileName(title: string, format: MemoryBookFormat): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'memories';
+  return `${slug}.${BOOK_FORMATS[format].extension}`;
+}
+
+// ---------------------------------------------------------------------------
+// Export jobs
+// ---------------------------------------------------------------------------
+
+export interface ExporterOptions {
+  dir: string;
+  keepHours: number;
+}
+
+export interface MemoryBookExporter {
+  /** Queue a book; refuses straight away if nothing is shareable */
+  request(requestedBy: string, userId: string, format: MemoryBookFormat, title?: string): Promise<MemoryExportRecord>;
+  /** Resolves once every book asked for so far is finished */
+  idle(): Promise<void>;
+  /** Remove books past keeping; returns how many */
+  clearExpired(now?: Date): Promise<number>;
+  /** Where a finished book's file is */
+  filePath(job: MemoryExportRecord): string;
+}
+
+export function createMemoryBookExporter(options: ExporterOptions): MemoryBookExporter {
+  const serially = createSerialRunner();
+  let queue: Promise<void> = Promise.resolve();
+
+  async function make(job: MemoryExportRecord): Promise<void> {
+    try {
+      const book = await buildMemoryBook(job.user_id, job.title);
+      const format = BOOK_FORMATS[job.format as MemoryBookFormat];
+      const file = `${job.id}.${format.extension}`;
+      await fs.promises.mkdir(options.dir, { recursive: true });
+      await fs.promises.writeFile(path.join(options.dir, file), format.render(book));
+
+      const completed = new Date();
+      await memoryExportRepository.update(job.id, {
+        status: 'ready',
+        memory_count: book.memoryCount,
+        file,
+        completed_at: completed.toISOString(),
+        expires_at: new Date(completed.getTime() + options.keepHours * 60 * 60 * 1000).toISOString(),
+      });
+      console.log(`📖 Family book ${job.id} (${job.format}) ready for ${job.user_id}: ${book.memoryCount} stories`);
+    } catch (error) {
+      if (!(error instanceof MemoryError)) console.error(`Family book ${job.id} failed:`, error);
+      await memoryExportRepository.update(job.id, {
+        status: 'failed',
+        completed_at: new Date().toISOString(),
+        error: error instanceof MemoryError ? error.message : "I couldn't put the book together... let's try again in a moment.",
+      });
+    }
+  }
+
+  const exporter: MemoryBookExporter = {
+    async request(requestedBy, userId, format, title) {
+      // Refuse now rather than queue a book with nothing in it
+      await buildMemoryBook(userId, title);
+
+      const job = await memoryExportRepository.add({
+        user_id: userId,
+        requested_by: requestedBy,
+        format,
+        title: title || DEFAULT_BOOK_TITLE,
+        status: 'pending',
+        memory_count: null,
+        file: null,
+        error: null,
+        completed_at: null,
+        expires_at: null,
+      });
+
+      // One book at a time, in the order asked for
+      queue = serially(async () => {
+        await exporter.clearExpired().catch((error) => console.error('Family book clean-up error:', error));
+        await make(job);
+      }).catch((error) => console.error(`Family book ${job.id} could not be recorded:`, error));
+      return job;
+    },
+
+    idle() {
+      return queue;
+    },
+
+    async clearExpired(now = new Date()) {
+      const expired = await memoryExportRepository.listExpired(now.toISOString());
+      for (const job of expired) {
+        if (job.file) await fs.promises.rm(path.join(options.dir, job.file), { force: true });
+        await memoryExportRepository.update(job.id, { status: 'expired', file: null });
+      }
+      return expired.length;
+    },
+
+    filePath(job) {
+      return path.join(options.dir, job.file!);
+    },
+  };
+
+  return exporter;
+}
+
+let exporter: MemoryBookExporter | null = null;
+
+/**
+ * The exporter writing to the configured directory
+ */
+export function getMemoryBookExporter(): MemoryBookExporter {
+  if (!exporter) {
+    exporter = createMemoryBookExporter(config.exports);
+  }
+  return exporter;
+}
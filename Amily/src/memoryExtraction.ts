@@ -0,0 +1,306 @@
+/**
+ * MemoryLane Extraction
+ *
+ * Turns a story the user tells into a MemoryJSON: a title, when it
+ * happened, the story in three sentences, tags from MEMORY_TAGS, a line in
+ * their own words and the people and places in it. The LLM does this as
+ * structured output; without one (or when its replies can't be used) the
+ * rules below read the same things from the words themselves.
+ */
+
+import { MemoryJSONSchema, MEMORY_TAGS, type MemoryJSON, type MemoryTag } from './schemas';
+import { generateStructured } from './services';
+import type { LLMProvider } from './llm';
+
+export interface ExtractedMemory {
+  memory: MemoryJSON;
+  source: 'llm' | 'fallback';
+}
+
+/** The era for a story with nothing in it to say when it happened */
+export const UNDATED_ERA = 'Undated';
+
+const MAX_TAGS = 4;
+const MAX_TITLE_WORDS = 6;
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70,
+};
+
+const DECADE_WORDS: Record<string, string> = {
+  twenties: '1920s', thirties: '1930s', forties: '1940s', fifties: '1950s',
+  sixties: '1960s', seventies: '1970s', eighties: '1980s', nineties: '1990s',
+};
+
+/** Life stages, most specific first */
+const LIFE_STAGES: [string, RegExp][] = [
+  ['Wartime', /\b(during the war|the war years|evacuated|evacuees?|air raids?|the blitz|rationing)\b/],
+  ['Childhood', /\b(as a (little )?(child|kid|boy|girl|nipper)|when i was (little|small|a child|a boy|a girl|a kid)|growing up|my childhood)\b/],
+  ['School days', /\b(at school|school days|primary school|grammar school|my teacher|the headmaster|the headmistress|the playground)\b/],
+  ['Teenage years', /\b(as a teenager|when i was a teenager|my teens|teenage years)\b/],
+  ['College years', /\b(at (college|university)|student days|graduated|graduation)\b/],
+  ['Early married life', /\b(our wedding|got married|honeymoon|newlyweds?|just married)\b/],
+  ['Raising a family', /\b((first )?(baby|son|daughter) was born|the (children|kids) were (small|little|young)|raising (the|our) (children|kids))\b/],
+  ['Retirement', /\b(retired|retirement)\b/],
+  ['Working years', /\b(my (first )?job|at work|the office|the factory|my boss|colleagues?|apprentice(ship)?)\b/],
+  ['Recent years', /\b(last (year|month|week|summer|winter|spring|autumn|christmas)|recently|a few years (ago|back)|yesterday)\b/],
+];
+
+/** Words that suggest each tag; 'personal' is for stories with none of them */
+const TAG_WORDS: Record<Exclude<MemoryTag, 'personal'>, RegExp> = {
+  family: /\b(mother|mum|mom|mam|father|dad|brothers?|sisters?|sons?|daughters?|grand\w+|gran|granny|nan|aunt|auntie|uncle|cousins?|family|husband|wife|children|kids|nephew|niece|parents)\b/g,
+  friends: /\b(friends?|pals?|mates?|neighbours?|neighbors?)\b/g,
+  love: /\b(in love|fell for|sweetheart|courting|first date|kissed|proposed|engaged)\b/g,
+  childhood: /\b(childhood|as a (little )?(child|kid|boy|girl)|when i was (little|small|young)|growing up|toys?)\b/g,
+  school: /\b(school|teachers?|classroom|lessons?|exams?|headmaster|headmistress|college|university)\b/g,
+  work: /\b(work(ed|ing)?|job|office|factory|shifts?|boss|career|apprentice\w*|colleagues?|wages)\b/g,
+  home: /\b(house|home|cottage|flat|kitchen|moved (in|into)|garden)\b/g,
+  travel: /\b(holidays?|trips?|travel(l?ed|l?ing)?|journey|abroad|seaside|train|ship|boat|flew|plane|visited|coach|pier|day out|outing)\b/g,
+  war: /\b(war|army|navy|air force|soldiers?|evacuat\w*|rationing|blitz|national service)\b/g,
+  music: /\b(music|sang|sing(ing)?|songs?|danc(e|ed|ing)|piano|band|records?|radio|choir)\b/g,
+  food: /\b(cook(ed|ing)?|bak(e|ed|ing)|bread|cakes?|dinner|tea|meals?|recipes?|picnic|sweets|ice cream)\b/g,
+  faith: /\b(church|chapel|pray(ed|er)?|god|mosque|temple|synagogue|sunday school)\b/g,
+  sport: /\b(football|cricket|tennis|swim(ming)?|swam|match|team|races?|golf|rugby|cycl(ed|ing)|fishing)\b/g,
+  nature: /\b(lake|river|sea|beach|mountains?|hills?|woods|forest|fields?|flowers?|trees?|countryside|sunset|snow)\b/g,
+  animals: /\b(dogs?|cats?|horses?|pony|ponies|pets?|cows?|sheep|chickens?|birds?|puppy|kitten)\b/g,
+  celebration: /\b(birthday|christmas|wedding|party|anniversary|celebrat\w*|dance hall|new year)\b/g,
+  loss: /\b(died|passed away|funeral|lost (my|our)|grie(f|ved)|miss (him|her|them))\b/g,
+};
+
+const RELATIONS =
+  'best friend|mother|mum|mom|mam|father|dad|brother|sister|son|daughter|grandmother|grandfather|grandma|grandpa|' +
+  'granny|grandad|gran|nan|aunt|auntie|uncle|cousin|husband|wife|fiancée?|boyfriend|girlfriend|friend|neighbour|' +
+  'neighbor|teacher|boss';
+
+/** What family call each other, used as names ("Mum called us in") */
+const FAMILY_NAMES = /\b(Mum|Mom|Mam|Dad|Gran|Granny|Nan|Nana|Grandma|Grandpa|Grandad)\b/g;
+
+/** Capitalised words that aren't a name of their own */
+const NOT_NAMES = new Set([
+  'The', 'A', 'An', 'My', 'Our', 'We', 'He', 'She', 'They', 'It', 'God',
+  'Christmas', 'Easter', 'Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday',
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December',
+  'Mum', 'Mom', 'Mam', 'Dad', 'Gran', 'Granny', 'Nan', 'Nana', 'Grandma', 'Grandpa', 'Grandad',
+  'Uncle', 'Aunt', 'Auntie', 'Mr', 'Mrs', 'Miss', 'Ms', 'Dr', 'English', 'British', 'Army', 'Navy',
+]);
+
+const PLACE_BEFORE = /\b(in|at|on|to|from|near|around|across|outside|visited|visiting)\s+(the\s+)?$/;
+const TITLED_NAME = /\b(Uncle|Aunt|Auntie|Granny|Grandma|Grandpa|Grandad|Nan|Mr|Mrs|Miss|Ms|Dr)\.? ([A-Z][a-z]+)/g;
+const PROPER_NOUN = /\b[A-Z][a-z]+(?:(?: | of | on | upon )[A-Z][a-z]+)*(?:'s)?/g;
+
+const REMEMBERED = /\b(never forget|always remember|best (day|time|years?) of|happiest|i (still )?remember|so proud)\b/i;
+
+/**
+ * Split a story into sentences, keeping their punctuation
+ */
+function sentencesOf(story: string): string[] {
+  return story
+    .replace(/\s+/g, ' ')
+    .trim()
+    .split(/(?<=[.!?]["”']?)\s+(?=["“'A-Z0-9])/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function ageStage(age: number): string {
+  return age < 13 ? 'Childhood' : age < 20 ? 'Teenage years' : age < 30 ? 'Young adulthood' : age < 65 ? 'Middle years' : 'Later years';
+}
+
+/**
+ * When a story happened: a decade if it names a year or decade, else the
+ * life stage its ages or events suggest
+ */
+export function inferEra(story: string): string {
+  const text = story.toLowerCase();
+
+  const decade = text.match(/\b(1[89]\d0|20[0-2]0)'?s\b/);
+  if (decade) return `${decade[1]}s`;
+  const year = text.match(/\b(1[89]\d\d|20[0-2]\d)\b/);
+  if (year) return `${year[1].slice(0, 3)}0s`;
+  const named = text.match(/\bthe (twenties|thirties|forties|fifties|sixties|seventies|eighties|nineties)\b/) ?? text.match(/\b'([2-9]0)s\b/);
+  if (named) return DECADE_WORDS[named[1]] ?? `19${named[1]}s`;
+
+  const age = text.match(/\b(?:when i was|i was only|i was just|at the age of|aged) (?:about |around |only |just )?(\d{1,2}|[a-z]+)\b/);
+  const years = age && (Number(age[1]) || NUMBER_WORDS[age[1]]);
+  if (years) return ageStage(years);
+
+  return LIFE_STAGES.find(([, pattern]) => pattern.test(text))?.[0] ?? UNDATED_ERA;
+}
+
+/**
+ * Tags from MEMORY_TAGS, the most mentioned first
+ */
+export function inferTags(story: string): MemoryTag[] {
+  const text = story.toLowerCase();
+  const tags: MemoryTag[] = MEMORY_TAGS.filter((tag): tag is Exclude<MemoryTag, 'personal'> => tag !== 'personal')
+    .map((tag) => ({ tag, hits: (text.match(TAG_WORDS[tag]) ?? []).length }))
+    .filter(({ hits }) => hits > 0)
+    .sort((a, b) => b.hits - a.hits)
+    .slice(0, MAX_TAGS)
+    .map(({ tag }) => tag);
+  return tags.length > 0 ? tags : ['personal'];
+}
+
+/**
+ * The people and places a story mentions: relations ("my brother"),
+ * titled names ("Uncle Bob"), other names, and names after "in", "to" and
+ * the like as places
+ */
+export function findPeopleAndPlaces(story: string): { people: string[]; places: string[] } {
+  const people: string[] = [];
+  const places: string[] = [];
+  const add = (list: string[], item: string) => {
+    if (!list.some((existing) => existing.toLowerCase() === item.toLowerCase())) list.push(item);
+  };
+
+  for (const match of story.matchAll(new RegExp(`\\b([Mm]y|[Oo]ur) (${RELATIONS})\\b(?:,? ([A-Z][a-z]+))?`, 'g'))) {
+    const relation = `${match[1].toLowerCase()} ${match[2]}`;
+    add(people, match[3] && !NOT_NAMES.has(match[3]) ? `${relation} ${match[3]}` : relation);
+  }
+  for (const match of story.matchAll(TITLED_NAME)) add(people, `${match[1]} ${match[2]}`);
+  for (const match of story.matchAll(FAMILY_NAMES)) {
+    if (!people.some((person) => person.toLowerCase().endsWith(match[1].toLowerCase()))) add(people, match[1]);
+  }
+
+  const named = (name: string) => people.some((person) => person.split(' ').includes(name));
+  for (const sentence of sentencesOf(story)) {
+    for (const match of sentence.matchAll(PROPER_NOUN)) {
+      const before = sentence.slice(0, match.index);
+      const after = sentence.slice(match.index! + match[0].length);
+      if (NOT_NAMES.has(match[0].split(' ')[0])) continue;
+      if (PLACE_BEFORE.test(before)) {
+        add(places, match[0]);
+        continue;
+      }
+      // Capitalised mid-sentence, or at the start of one and clearly someone
+      const name = match[0].replace(/'s$/, '');
+      if (named(name) || places.includes(name)) continue;
+      if (before.trim() !== '' || /^\s+(and (I|me)|said|told|was my|used to)\b/.test(after)) add(people, name);
+    }
+  }
+  return { people: people.slice(0, 8), places: places.slice(0, 8) };
+}
+
+/**
+ * A line in the teller's own words: something they quoted, or a sentence
+ * about what they'll always remember
+ */
+export function pullQuote(story: string): string | undefined {
+  const quoted = story.match(/["“]([^"”]{3,200})["”]/);
+  if (quoted) return quoted[1].trim();
+  return sentencesOf(story).find((sentence) => REMEMBERED.test(sentence) && sentence.length <= 200);
+}
+
+/**
+ * A title from what the story is about, or its opening words
+ */
+function titleFor(story: string, tags: MemoryTag[], people: string[], places: string[]): string {
+  const text = story.toLowerCase();
+  const person = people[0];
+  const place = places[0];
+  if (/\b(our|my) wedding\b|\bgot married\b/.test(text)) return 'Our wedding day';
+
+  // The more telling kinds of story first
+  const kinds: MemoryTag[] = ['travel', 'war', 'school', 'work', 'childhood', 'love', 'celebration', 'loss', 'family', 'friends'];
+  for (const tag of kinds.filter((kind) => tags.includes(kind))) {
+    switch (tag) {
+      case 'travel':
+        return place ? `A trip to ${place}` : 'A trip to remember';
+      case 'childhood':
+        return place ? `Growing up in ${place}` : 'When I was young';
+      case 'school':
+        return 'School days';
+      case 'work':
+        return place ? `Working in ${place}` : 'My working days';
+      case 'war':
+        return 'The war years';
+      case 'love':
+        return person ? `Falling for ${person}` : 'A love story';
+      case 'family':
+        return person ? `Time with ${person}` : 'Family days';
+      case 'friends':
+        return person ? `Good times with ${person}` : 'Old friends';
+      case 'celebration':
+        return /\bchristmas\b/.test(text) ? 'A Christmas to remember' : 'A day to celebrate';
+      case 'loss':
+        return person ? `Remembering ${person}` : 'Someone I miss';
+    }
+  }
+  if (place) return `Memories of ${place}`;
+  if (person) return `Remembering ${person}`;
+
+  const words = (sentencesOf(story)[0] ?? story).replace(/[.!?,;:"“”]+/g, '').split(' ').filter(Boolean);
+  const opening = words.slice(0, MAX_TITLE_WORDS).join(' ');
+  if (!opening) return 'A special memory';
+  return `${opening[0].toUpperCase()}${opening.slice(1)}${words.length > MAX_TITLE_WORDS ? '…' : ''}`;
+}
+
+/**
+ * A memory from the story without the LLM
+ */
+export function extractMemoryWithRules(story: string): MemoryJSON {
+  const sentences = sentencesOf(story);
+  const tags = inferTags(story);
+  const { people, places } = findPeopleAndPlaces(story);
+  const quote = pullQuote(story);
+
+  let threeSentences = sentences.slice(0, 3).join(' ');
+  if (threeSentences && !/[.!?]["”']?$/.test(threeSentences)) threeSentences += '.';
+
+  return {
+    title: titleFor(story, tags, people, places),
+    era: inferEra(story),
+    story_3_sentences: threeSentences || story.slice(0, 200),
+    tags,
+    ...(quote && { quote }),
+    people,
+    places,
+  };
+}
+
+function uniqueTrimmed(items: string[] | undefined): string[] {
+  const seen = new Set<string>();
+  return (items ?? [])
+    .map((item) => item.trim())
+    .filter((item) => item && !seen.has(item.toLowerCase()) && seen.add(item.toLowerCase()));
+}
+
+/**
+ * Extract a memory from the story the user told
+ */
+export async function extractMemory(story: string, options: { provider?: LLMProvider } = {}): Promise<ExtractedMemory> {
+  const generated = await generateStructured(
+    MemoryJSONSchema,
+    {
+      instruction:
+        'Turn the life story below into a memory for their MemoryLane. Give it a short, meaningful title, not the opening words. ' +
+        'For the era, use the decade if a year or decade is mentioned, otherwise the life stage the ages or events suggest ' +
+        `(such as Childhood, School days, Working years or Retirement), or "${UNDATED_ERA}" if nothing says. ` +
+        'Tell the story in three simple sentences, keeping their details. Pick one to four tags. ' +
+        'For the quote, use a line from the story in their own words, unchanged, or leave it out. ' +
+        'List the people (by name, or by relation as they say it, like "my brother") and places mentioned.',
+      prompt: story,
+    },
+    options.provider
+  );
+
+  if (!generated) {
+    return { memory: extractMemoryWithRules(story), source: 'fallback' };
+  }
+
+  const quote = generated.quote?.trim();
+  return {
+    memory: {
+      title: generated.title.trim(),
+      era: generated.era.trim(),
+      story_3_sentences: generated.story_3_sentences.trim(),
+      tags: [...new Set(generated.tags)],
+      ...(quote && { quote }),
+      people: uniqueTrimmed(generated.people),
+      places: uniqueTrimmed(generated.places),
+    },
+    source: 'llm',
+  };
+}
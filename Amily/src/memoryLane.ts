@@ -0,0 +1,233 @@
+/**
+ * MemoryLane
+ *
+ * Reading memories back: a timeline ordered by era, searching by words,
+ * tag, person or era, corrections and deletions by the user, and replays
+ * that read a story aloud again ("tell me that story about the bakery").
+ * Caregivers with the memories scope can read and replay, but only the
+ * user can change or delete.
+ */
+
+import { canAccess } from './auth';
+import { StatusError } from './errors';
+import { UNDATED_ERA } from './memoryExtraction';
+import { formatForTTS } from './persona';
+import { memoryRepository, type MemoryRecord } from './repositories';
+import type { MemorySearchQuery, MemoryUpdate } from './schemas';
+import { generateTTS } from './services';
+
+export class MemoryError extends StatusError {}
+
+/** Life stages in the order they're lived */
+const LIFE_STAGES = [
+  'childhood',
+  'school days',
+  'wartime',
+  'teenage years',
+  'college years',
+  'young adulthood',
+  'early married life',
+  'raising a family',
+  'working years',
+  'middle years',
+  'retirement',
+  'later years',
+  'recent years',
+];
+
+/** Words in a replay request that don't say which story */
+const REQUEST_WORDS = new Set([
+  'a', 'about', 'again', 'an', 'and', 'at', 'can', 'could', 'for', 'from', 'hear', 'i', 'in', 'it', 'me', 'memory',
+  'my', 'of', 'on', 'once', 'one', 'please', 'read', 'remember', 'say', 'story', 'tell', 'that', 'the', 'time',
+  'to', 'was', 'we', 'when', 'with', 'you', 'your',
+]);
+
+export type MemoryView = ReturnType<typeof toMemoryView>;
+
+export interface EraGroup {
+  era: string;
+  memories: MemoryView[];
+}
+
+export interface MemoryReplay {
+  memory: MemoryView;
+  ttsText: string;
+  audioUrl: string;
+}
+
+export function toMemoryView(record: MemoryRecord) {
+  return {
+    id: record.id,
+    ...record.memory,
+    shareable: Boolean(record.shareable),
+    recordedAt: record.timestamp,
+    updatedAt: record.updated_at ?? null,
+  };
+}
+
+/**
+ * Where an era sits on the timeline: decades in order, then life stages
+ * in the order they're lived, then anything else, then undated
+ */
+function eraRank(era: string): [number, number] {
+  const year = era.match(/\b(1[89]\d\d|20\d\d)s?\b/);
+  if (year) return [0, Number(year[1])];
+  const stage = LIFE_STAGES.indexOf(era.trim().toLowerCase());
+  if (stage >= 0) return [1, stage];
+  return era === UNDATED_ERA ? [3, 0] : [2, 0];
+}
+
+export function compareEras(a: string, b: string): number {
+  const [groupA, valueA] = eraRank(a);
+  const [groupB, valueB] = eraRank(b);
+  return groupA - groupB || valueA - valueB || a.localeCompare(b);
+}
+
+/**
+ * Everything a memory says, for matching words against
+ */
+function searchableText(record: MemoryRecord): string {
+  const { title, era, story_3_sentences, quote, tags, people, places } = record.memory;
+  return [title, era, story_3_sentences, quote, ...tags, ...(people ?? []), ...(places ?? [])]
+    .filter(Boolean)
+    .join(' ');
+}
+
+function wordsOf(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9']+/g) ?? [];
+}
+
+/**
+ * A word without its ending, so "bakery", "baker" and "baking" compare the same
+ */
+function stemOf(word: string): string {
+  const stem = word.replace(/(ies|ery|ers|ing|es|ed|er|e|s|y)$/, '');
+  return stem.length >= 3 ? stem : word;
+}
+
+/**
+ * Whether one of the words is this one, allowing for a different ending
+ * (never part of another word: "tea" isn't in "steam")
+ */
+function mentions(words: string[], word: string): boolean {
+  const stem = stemOf(word);
+  return words.some((candidate) => candidate === word || stemOf(candidate) === stem);
+}
+
+function byTimeline(a: MemoryRecord, b: MemoryRecord): number {
+  return compareEras(a.memory.era, b.memory.era) || a.timestamp.localeCompare(b.timestamp);
+}
+
+/**
+ * Load a memory the actor may see (or, for changes, that is their own)
+ */
+export async function getAccessibleMemory(actorId: string, memoryId: string, options: { write?: boolean } = {}): Promise<MemoryRecord> {
+  const memory = await memoryRepository.get(memoryId);
+  if (!memory || !(await canAccess(actorId, memory.user_id, options.write ? undefined : 'memories'))) {
+    throw new MemoryError("I couldn't find that memory.", 404);
+  }
+  return memory;
+}
+
+/**
+ * The user's memories grouped by era, oldest era first; within an era,
+ * in the order they were told. `shareableOnly` keeps just the ones the
+ * user agreed to share.
+ */
+export async function getMemoryTimeline(userId: string, options: { shareableOnly?: boolean } = {}): Promise<EraGroup[]> {
+  const memories = (await memoryRepository.listForUser(userId))
+    .filter((memory) => !options.shareableOnly || memory.shareable)
+    .sort(byTimeline);
+  const groups: EraGroup[] = [];
+  for (const memory of memories) {
+    const last = groups[groups.length - 1];
+    if (last && last.era === memory.memory.era) {
+      last.memories.push(toMemoryView(memory));
+    } else {
+      groups.push({ era: memory.memory.era, memories: [toMemoryView(memory)] });
+    }
+  }
+  return groups;
+}
+
+/**
+ * Memories matching every filter given, in timeline order. Words must all
+ * appear in the memory, whole but with any ending; a person or era
+ * matches part of a name ("Bob" finds "Uncle Bob", "1960" finds "1960s").
+ */
+export async function searchMemories(userId: string, query: Omit<MemorySearchQuery, 'userId'>): Promise<MemoryView[]> {
+  const words = query.q ? wordsOf(query.q) : [];
+  const person = query.person?.toLowerCase();
+  const era = query.era?.toLowerCase();
+
+  return (await memoryRepository.listForUser(userId))
+    .filter((record) => {
+      const { memory } = record;
+      if (query.tag && !memory.tags.includes(query.tag)) return false;
+      if (era && !memory.era.toLowerCase().includes(era)) return false;
+      if (person) {
+        const named = (memory.people ?? []).some((name) => name.toLowerCase().includes(person));
+        if (!named && !wordsOf(memory.story_3_sentences).includes(person)) return false;
+      }
+      const text = wordsOf(searchableText(record));
+      return words.every((word) => mentions(text, word));
+    })
+    .sort(byTimeline)
+    .map(toMemoryView);
+}
+
+/**
+ * Correct a memory's title, era or story, or say whether it may go in the
+ * family book; the rest is left as it was
+ */
+export async function updateMemory(userId: string, memoryId: string, changes: MemoryUpdate): Promise<MemoryView> {
+  const record = await getAccessibleMemory(userId, memoryId, { write: true });
+  const updated = await memoryRepository.update(memoryId, {
+    memory: {
+      ...record.memory,
+      ...(changes.title !== undefined && { title: changes.title }),
+      ...(changes.era !== undefined && { era: changes.era }),
+      ...(changes.story !== undefined && { story_3_sentences: changes.story }),
+    },
+    ...(changes.shareable !== undefined && { shareable: changes.shareable }),
+  });
+  return toMemoryView(updated!);
+}
+
+export async function deleteMemory(userId: string, memoryId: string): Promise<void> {
+  await getAccessibleMemory(userId, memoryId, { write: true });
+  await memoryRepository.remove(memoryId);
+}
+
+/**
+ * The memory a request like "that story about the bakery" means: the one
+ * mentioning most of its words, with words in the title counting double
+ */
+export async function findMemoryAbout(userId: string, about: string): Promise<MemoryRecord> {
+  const words = wordsOf(about).filter((word) => !REQUEST_WORDS.has(word) && word.length > 1);
+  let best: { record: MemoryRecord; score: number } | null = null;
+
+  for (const record of await memoryRepository.listForUser(userId)) {
+    const text = wordsOf(searchableText(record));
+    const title = wordsOf(record.memory.title);
+    const score = words.reduce((sum, word) => sum + (mentions(text, word) ? 1 : 0) + (mentions(title, word) ? 1 : 0), 0);
+    // Ties go to the story told most recently
+    if (score > 0 && (!best || score >= best.score)) best = { record, score };
+  }
+
+  if (!best) {
+    throw new MemoryError("I couldn't find a story about that... could you tell me a little more about it?", 404);
+  }
+  return best.record;
+}
+
+/**
+ * Read a memory aloud again
+ */
+export async function replayMemory(record: MemoryRecord): Promise<MemoryReplay> {
+  const { title, story_3_sentences, quote } = record.memory;
+  const ttsText = formatForTTS(
+    `Here's your story, "${title}". ${story_3_sentences}${quote ? ` As you said... "${quote}"` : ''}`
+  );
+  return { memory: toMemoryView(record), ttsText, audioUrl: await generateTTS(ttsText) };
+}
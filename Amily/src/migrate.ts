@@ -0,0 +1,29 @@
+/**
+ * Migration runner
+ *
+ *   npm run migrate            apply pending migrations (SQLite) or check the schema (Supabase)
+ *   npm run migrate -- --sql   print the Postgres SQL to run in the Supabase SQL editor
+ */
+
+import { MIGRATIONS, migrationSql } from './migrations';
+import { initStorage } from './storage';
+
+async function main() {
+  if (process.argv.includes('--sql')) {
+    for (const migration of MIGRATIONS) {
+      console.log(`-- ${migration.version}_${migration.name}`);
+      for (const statement of migrationSql(migration, 'postgres')) {
+        console.log(`${statement};`);
+      }
+      console.log('');
+    }
+    return;
+  }
+
+  await initStorage();
+}
+
+main().catch((error) => {
+  console.error(error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,370 @@
+/**
+ * Database Migrations
+ *
+ * The schema as an ordered list of migrations. SQLite applies them
+ * directly; for Supabase they are rendered as Postgres SQL and the
+ * live database is checked against the resulting schema at startup.
+ */
+
+export type ColumnType = 'text' | 'integer' | 'real' | 'boolean' | 'json';
+
+export type TableColumns = Record<string, ColumnType>;
+
+export interface Migration {
+  version: number;
+  name: string;
+  createTables?: Record<string, TableColumns>;
+  addColumns?: Record<string, TableColumns>;
+  /** Extra single-column indexes (user_id is always indexed) */
+  indexes?: Record<string, string[]>;
+}
+
+/**
+ * Every table also gets a text `id` primary key
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    createTables: {
+      user_preferences: {
+        user_id: 'text',
+        preferred_pace: 'text',
+        favorite_time: 'text',
+        interests: 'json',
+        routine_notes: 'text',
+      },
+      check_ins: {
+        user_id: 'text',
+        plan: 'json',
+        timestamp: 'text',
+      },
+      memories: {
+        user_id: 'text',
+        memory: 'json',
+        timestamp: 'text',
+      },
+      buddy_messages: {
+        user_id: 'text',
+        message_from: 'text',
+        summary: 'json',
+        timestamp: 'text',
+      },
+      chat_messages: {
+        user_id: 'text',
+        role: 'text',
+        text: 'text',
+        emotion: 'text',
+        timestamp: 'text',
+      },
+      wellness_log: {
+        user_id: 'text',
+        type: 'text',
+        value: 'json',
+        timestamp: 'text',
+      },
+    },
+  },
+  {
+    version: 2,
+    name: 'auth',
+    createTables: {
+      local_accounts: {
+        email: 'text',
+        password_hash: 'text',
+        salt: 'text',
+        full_name: 'text',
+        supported_person: 'text',
+        created_at: 'text',
+      },
+      caregiver_links: {
+        senior_id: 'text',
+        caregiver_id: 'text',
+        scopes: 'json',
+        created_at: 'text',
+      },
+    },
+    indexes: {
+      local_accounts: ['email'],
+      caregiver_links: ['senior_id', 'caregiver_id'],
+    },
+  },
+  {
+    version: 3,
+    name: 'care_circle',
+    createTables: {
+      care_circle_members: {
+        senior_id: 'text',
+        member_id: 'text',
+        name: 'text',
+        email: 'text',
+        phone: 'text',
+        role: 'text',
+        status: 'text',
+        consent: 'boolean',
+        scopes: 'json',
+        notify: 'json',
+        invited_by: 'text',
+        invite_code_hash: 'text',
+        created_at: 'text',
+        updated_at: 'text',
+      },
+    },
+    indexes: {
+      care_circle_members: ['senior_id', 'member_id', 'invite_code_hash'],
+    },
+  },
+  {
+    version: 4,
+    name: 'alerts',
+    createTables: {
+      alerts: {
+        user_id: 'text',
+        level: 'text',
+        status: 'text',
+        source: 'text',
+        event: 'text',
+        detected: 'json',
+        context: 'text',
+        vitals: 'json',
+        tier: 'integer',
+        notified: 'json',
+        escalate_at: 'text',
+        acknowledged_by: 'text',
+        acknowledged_at: 'text',
+        resolved_by: 'text',
+        resolved_at: 'text',
+        history: 'json',
+        timestamp: 'text',
+        updated_at: 'text',
+      },
+    },
+    indexes: {
+      alerts: ['status', 'escalate_at'],
+    },
+  },
+  {
+    version: 5,
+    name: 'notification_outbox',
+    createTables: {
+      notification_outbox: {
+        user_id: 'text',
+        event: 'text',
+        channel: 'text',
+        payload: 'json',
+        status: 'text',
+        attempts: 'integer',
+        next_attempt_at: 'text',
+        last_error: 'text',
+        created_at: 'text',
+        delivered_at: 'text',
+      },
+    },
+    indexes: {
+      notification_outbox: ['status', 'next_attempt_at'],
+    },
+  },
+  {
+    version: 6,
+    name: 'medications',
+    createTables: {
+      medications: {
+        user_id: 'text',
+        name: 'text',
+        dosage: 'text',
+        times: 'json',
+        with_food: 'boolean',
+        notes: 'text',
+        active: 'boolean',
+        created_at: 'text',
+        updated_at: 'text',
+      },
+      medication_doses: {
+        user_id: 'text',
+        medication_id: 'text',
+        scheduled_for: 'text',
+        status: 'text',
+        recorded_at: 'text',
+        note: 'text',
+        wellness_log_id: 'text',
+      },
+    },
+    addColumns: {
+      wellness_log: {
+        dose_id: 'text',
+      },
+    },
+    indexes: {
+      medication_doses: ['medication_id', 'scheduled_for'],
+    },
+  },
+  {
+    version: 7,
+    name: 'reminders',
+    addColumns: {
+      user_preferences: {
+        timezone: 'text',
+        missed_dose_alerts: 'boolean',
+      },
+      medication_doses: {
+        reminder_count: 'integer',
+        last_reminded_at: 'text',
+        snoozed_until: 'text',
+      },
+    },
+    indexes: {
+      medication_doses: ['status'],
+    },
+  },
+  {
+    version: 8,
+    name: 'hydration_goal',
+    addColumns: {
+      user_preferences: {
+        hydration_goal: 'integer',
+      },
+    },
+    indexes: {
+      wellness_log: ['type'],
+    },
+  },
+  {
+    version: 9,
+    name: 'weather_preferences',
+    addColumns: {
+      user_preferences: {
+        location: 'json',
+        temperature_unit: 'text',
+      },
+    },
+  },
+  {
+    version: 10,
+    name: 'alert_route',
+    addColumns: {
+      alerts: {
+        route: 'text',
+      },
+    },
+  },
+  {
+    version: 11,
+    name: 'vitals',
+    createTables: {
+      vital_readings: {
+        user_id: 'text',
+        metric: 'text',
+        value: 'real',
+        source: 'text',
+        timestamp: 'text',
+      },
+    },
+    indexes: {
+      vital_readings: ['metric', 'timestamp'],
+    },
+  },
+  {
+    version: 12,
+    name: 'inactivity_checks',
+    createTables: {
+      inactivity_checks: {
+        user_id: 'text',
+        date: 'text',
+        expected_by: 'text',
+        prompted_at: 'text',
+        alert_id: 'text',
+        active_again_at: 'text',
+        timestamp: 'text',
+      },
+    },
+  },
+  {
+    version: 13,
+    name: 'memory_updates',
+    addColumns: {
+      memories: {
+        updated_at: 'text',
+      },
+    },
+  },
+  {
+    version: 14,
+    name: 'memory_book',
+    addColumns: {
+      memories: {
+        shareable: 'boolean',
+      },
+    },
+    createTables: {
+      memory_exports: {
+        user_id: 'text',
+        requested_by: 'text',
+        format: 'text',
+        title: 'text',
+        status: 'text',
+        memory_count: 'integer',
+        file: 'text',
+        error: 'text',
+        completed_at: 'text',
+        expires_at: 'text',
+        timestamp: 'text',
+      },
+    },
+  },
+];
+
+/**
+ * The schema after applying migrations up to a version
+ */
+export function schemaAt(version: number = Infinity): Record<string, TableColumns> {
+  const schema: Record<string, TableColumns> = {};
+  for (const migration of MIGRATIONS) {
+    if (migration.version > version) break;
+    for (const [table, columns] of Object.entries(migration.createTables || {})) {
+      schema[table] = { id: 'text', ...columns };
+    }
+    for (const [table, columns] of Object.entries(migration.addColumns || {})) {
+      schema[table] = { ...schema[table], ...columns };
+    }
+  }
+  return schema;
+}
+
+export const SCHEMA = schemaAt();
+
+const SQL_TYPES: Record<'sqlite' | 'postgres', Record<ColumnType, string>> = {
+  sqlite: { text: 'TEXT', integer: 'INTEGER', real: 'REAL', boolean: 'INTEGER', json: 'TEXT' },
+  postgres: { text: 'text', integer: 'bigint', real: 'double precision', boolean: 'boolean', json: 'jsonb' },
+};
+
+/**
+ * Render one migration as SQL statements for a dialect
+ */
+export function migrationSql(migration: Migration, dialect: 'sqlite' | 'postgres'): string[] {
+  const types = SQL_TYPES[dialect];
+  const statements: string[] = [];
+
+  for (const [table, columns] of Object.entries(migration.createTables || {})) {
+    const columnSql = Object.entries(columns).map(([name, type]) => `  ${name} ${types[type]}`);
+    statements.push(
+      `CREATE TABLE IF NOT EXISTS ${table} (\n  id ${types.text} PRIMARY KEY,\n${columnSql.join(',\n')}\n)`
+    );
+    if (columns.user_id) {
+      statements.push(`CREATE INDEX IF NOT EXISTS ${table}_user_id_idx ON ${table} (user_id)`);
+    }
+  }
+
+  for (const [table, columns] of Object.entries(migration.addColumns || {})) {
+    for (const [name, type] of Object.entries(columns)) {
+      statements.push(`ALTER TABLE ${table} ADD COLUMN ${name} ${types[type]}`);
+    }
+  }
+
+  for (const [table, columns] of Object.entries(migration.indexes || {})) {
+    for (const column of columns) {
+      statements.push(`CREATE INDEX IF NOT EXISTS ${table}_${column}_idx ON ${table} (${column})`);
+    }
+  }
+
+  return statements;
+}
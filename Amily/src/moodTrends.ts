@@ -0,0 +1,221 @@
+/**
+ * Mood Trends
+ *
+ * Reads the moods from the user's check-in plans back as daily and weekly
+ * series on their own clock, with check-in streaks and the spread of
+ * emotions in what they've said in chat. A run of low days (by default
+ * three in a week) is a sustained decline, and the Care Circle is told
+ * about that once, rather than about every low check-in.
+ */
+
+import { config } from './config';
+import { raiseAlert } from './alerts';
+import { detectEmotion } from './persona';
+import {
+  alertRepository,
+  chatMessageRepository,
+  checkInRepository,
+  type AlertRecord,
+} from './repositories';
+import type { PlanJSON } from './schemas';
+import { addDays, fromLocalDateTime, getUserTimeZone, localDate, weekStart } from './timezone';
+
+type Mood = PlanJSON['mood'];
+export type Emotion = ReturnType<typeof detectEmotion>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MOOD_SCORES: Record<Mood, number> = { low: 0, ok: 1, good: 2 };
+
+const EMOTIONS: Emotion[] = ['calm', 'stressed', 'confused', 'lonely'];
+
+export interface DailyMood {
+  date: string;
+  checkIns: number;
+  /** The lowest mood checked in that day, or null without a check-in */
+  mood: Mood | null;
+}
+
+export interface WeeklyMood {
+  weekStart: string;
+  checkIns: number;
+  daysCheckedIn: number;
+  lowDays: number;
+  /** Over the week's check-ins, from 0 (low) to 2 (good); null without any */
+  averageScore: number | null;
+}
+
+export interface MoodStreaks {
+  /** Days in a row with a check-in, up to today (or yesterday, before today's) */
+  checkInDays: number;
+  longestCheckInDays: number;
+  /** How many of the current run were low, counting back from the latest */
+  lowDays: number;
+  /** How many of the current run weren't low, counting back from the latest */
+  brighterDays: number;
+}
+
+export interface MoodDecline {
+  declining: boolean;
+  /** Low days in the last `windowDays` days */
+  lowDays: number;
+  windowDays: number;
+  threshold: number;
+  /** The first of those low days */
+  since: string | null;
+}
+
+export interface MoodTrends {
+  daily: DailyMood[];
+  weekly: WeeklyMood[];
+  /** Within the daily period */
+  streaks: MoodStreaks;
+  /** Emotions in the user's chat messages over the daily period */
+  emotions: { total: number; counts: Record<Emotion, number> };
+  decline: MoodDecline;
+}
+
+/**
+ * Each day's check-in moods from `fromDate` to today, oldest first
+ */
+async function dailyMoods(userId: string, timeZone: string, fromDate: string, now: Date): Promise<{ date: string; moods: Mood[] }[]> {
+  const today = localDate(now, timeZone);
+  const checkIns = await checkInRepository.listForUser(userId, {
+    since: fromLocalDateTime(`${fromDate}T00:00`, timeZone).toISOString(),
+    until: now.toISOString(),
+  });
+
+  const byDate = new Map<string, Mood[]>();
+  for (const checkIn of checkIns) {
+    const date = localDate(new Date(checkIn.timestamp), timeZone);
+    byDate.set(date, [...(byDate.get(date) ?? []), checkIn.plan.mood]);
+  }
+
+  const days: { date: string; moods: Mood[] }[] = [];
+  for (let date = fromDate; date <= today; date = addDays(date, 1)) {
+    days.push({ date, moods: byDate.get(date) ?? [] });
+  }
+  return days;
+}
+
+function toDailyMood(day: { date: string; moods: Mood[] }): DailyMood {
+  const mood = day.moods.reduce<Mood | null>((low, next) => (low === null || MOOD_SCORES[next] < MOOD_SCORES[low] ? next : low), null);
+  return { date: day.date, checkIns: day.moods.length, mood };
+}
+
+function streaksOf(daily: DailyMood[]): MoodStreaks {
+  let longestCheckInDays = 0;
+  let run = 0;
+  for (const day of daily) {
+    run = day.checkIns > 0 ? run + 1 : 0;
+    longestCheckInDays = Math.max(longestCheckInDays, run);
+  }
+
+  // Today isn't over, so no check-in yet doesn't break the run
+  const latest = daily[daily.length - 1]?.checkIns ? daily : daily.slice(0, -1);
+  const current: DailyMood[] = [];
+  for (let i = latest.length - 1; i >= 0 && latest[i].checkIns > 0; i--) current.push(latest[i]);
+  const runOf = (low: boolean) => {
+    const end = current.findIndex((day) => (day.mood === 'low') !== low);
+    return end === -1 ? current.length : end;
+  };
+
+  return { checkInDays: current.length, longestCheckInDays, lowDays: runOf(true), brighterDays: runOf(false) };
+}
+
+/**
+ * Whether the last `declineWindowDays` days hold enough low days to count
+ * as a sustained decline
+ */
+export function assessMoodDecline(daily: DailyMood[]): MoodDecline {
+  const { declineLowDays, declineWindowDays } = config.mood;
+  const low = daily.slice(-declineWindowDays).filter((day) => day.mood === 'low');
+  return {
+    declining: low.length >= declineLowDays,
+    lowDays: low.length,
+    windowDays: declineWindowDays,
+    threshold: declineLowDays,
+    since: low[0]?.date ?? null,
+  };
+}
+
+/**
+ * Daily moods for the last `days` days, weekly moods for the last `weeks`
+ * weeks (Monday to Sunday), streaks, chat emotions and any decline
+ */
+export async function getMoodTrends(
+  userId: string,
+  period: { days: number; weeks: number },
+  now: Date = new Date()
+): Promise<MoodTrends> {
+  const timeZone = await getUserTimeZone(userId);
+  const today = localDate(now, timeZone);
+  const dailyFrom = addDays(today, -(period.days - 1));
+  const weeklyFrom = addDays(weekStart(today), -7 * (period.weeks - 1));
+  const from = [dailyFrom, weeklyFrom, addDays(today, -(config.mood.declineWindowDays - 1))].sort()[0];
+
+  const [days, messages] = await Promise.all([
+    dailyMoods(userId, timeZone, from, now),
+    chatMessageRepository.listForUser(userId, {
+      since: fromLocalDateTime(`${dailyFrom}T00:00`, timeZone).toISOString(),
+      until: now.toISOString(),
+    }),
+  ]);
+  const all = days.map(toDailyMood);
+
+  const weekly: WeeklyMood[] = [];
+  for (let week = weeklyFrom; week <= today; week = addDays(week, 7)) {
+    const inWeek = days.filter((day) => weekStart(day.date) === week);
+    const moods = inWeek.flatMap((day) => day.moods);
+    const score = moods.reduce((sum, mood) => sum + MOOD_SCORES[mood], 0);
+    weekly.push({
+      weekStart: week,
+      checkIns: moods.length,
+      daysCheckedIn: inWeek.filter((day) => day.moods.length > 0).length,
+      lowDays: inWeek.filter((day) => day.moods.includes('low')).length,
+      averageScore: moods.length > 0 ? Math.round((score / moods.length) * 10) / 10 : null,
+    });
+  }
+
+  const counts = Object.fromEntries(EMOTIONS.map((emotion) => [emotion, 0])) as Record<Emotion, number>;
+  const said = messages.filter((message) => message.role === 'user');
+  for (const message of said) counts[detectEmotion(message.text)]++;
+
+  const daily = all.filter((day) => day.date >= dailyFrom);
+  return {
+    daily,
+    weekly,
+    streaks: streaksOf(daily),
+    emotions: { total: said.length, counts },
+    decline: assessMoodDecline(all),
+  };
+}
+
+/**
+ * Tell the Care Circle about a sustained decline in mood, once while it
+ * lasts. Only counts go out, never what the user said.
+ */
+export async function noticeMoodDecline(userId: string, now: Date = new Date()): Promise<AlertRecord | null> {
+  const timeZone = await getUserTimeZone(userId);
+  const today = localDate(now, timeZone);
+  const days = await dailyMoods(userId, timeZone, addDays(today, -(config.mood.declineWindowDays - 1)), now);
+  const decline = assessMoodDecline(days.map(toDailyMood));
+  if (!decline.declining) return null;
+
+  // Not again until the last one is resolved, and a whole window has passed since
+  const previous = (await alertRepository.listForUser(userId)).find((alert) => alert.event === 'mood_decline');
+  if (previous && (previous.status !== 'resolved' || now.getTime() - Date.parse(previous.updated_at) < decline.windowDays * DAY_MS)) {
+    return null;
+  }
+
+  const alert = await raiseAlert({
+    userId,
+    level: 'concern',
+    source: 'checkin',
+    event: 'mood_decline',
+    detected: ['sustained_low_mood'],
+    context: `${decline.lowDays} low days in the last ${decline.windowDays}, since ${decline.since}`,
+  });
+  console.log(`🌧️  ${userId} has had ${decline.lowDays} low days in ${decline.windowDays}; Care Circle alert ${alert.id} raised`);
+  return alert;
+}
@@ -0,0 +1,296 @@
+/**
+ * Notification Dispatcher
+ *
+ * Care Circle events are written to an outbox first, then delivered to
+ * each configured channel in the background. Failed deliveries are
+ * retried with exponential backoff and end up on a dead-letter list, so
+ * a slow or broken webhook never fails the request that raised them.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHmac } from 'crypto';
+import { config, type NotificationChannelName } from './config';
+import { outboxRepository, type OutboxMessage } from './repositories';
+import { createSerialRunner } from './serial';
+
+export interface OutboundMessage {
+  id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface NotificationChannel {
+  name: string;
+  deliver(message: OutboundMessage): Promise<void>;
+}
+
+/**
+ * The JSON body sent to webhooks: the event name, the payload and a delivery id
+ */
+function messageBody(message: OutboundMessage): string {
+  return JSON.stringify({ event: message.event, deliveryId: message.id, ...message.payload });
+}
+
+/**
+ * HMAC-SHA256 over "<timestamp>.<body>", hex encoded
+ */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * POST the message as JSON, signed when a secret is configured
+ */
+export function createWebhookChannel(
+  name: string,
+  url: string,
+  options: { signingSecret?: string; timeoutMs?: number } = {}
+): NotificationChannel {
+  return {
+    name,
+    async deliver(message) {
+      const body = messageBody(message);
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'X-Amily-Event': message.event,
+        'X-Amily-Delivery': message.id,
+        'X-Amily-Timestamp': timestamp,
+      };
+      if (options.signingSecret) {
+        headers['X-Amily-Signature'] = `sha256=${signPayload(options.signingSecret, timestamp, body)}`;
+      }
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(options.timeoutMs ?? 10_000),
+      });
+      if (!response.ok) {
+        throw new Error(`${name} webhook returned ${response.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Append each message as a JSON line to a local file
+ */
+export function createFileChannel(filePath: string): NotificationChannel {
+  return {
+    name: 'file',
+    async deliver(message) {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.appendFile(
+        filePath,
+        JSON.stringify({ ...JSON.parse(messageBody(message)), createdAt: message.createdAt }) + '\n'
+      );
+    },
+  };
+}
+
+/**
+ * Print each message to the console (the default in demo mode)
+ */
+export function createLogChannel(): NotificationChannel {
+  return {
+    name: 'log',
+    async deliver(message) {
+      console.log(`🔔 [${config.mode.toUpperCase()}] Care Circle event "${message.event}":`, JSON.stringify(message.payload));
+    },
+  };
+}
+
+/**
+ * Build the channels named in config
+ */
+function createConfiguredChannel(name: NotificationChannelName): NotificationChannel | null {
+  const { signingSecret, timeoutMs } = config.notifications;
+  switch (name) {
+    case 'n8n':
+      if (!config.keys.n8nWebhook) {
+        console.warn('⚠️  n8n channel configured but N8N_WEBHOOK_URL is missing - skipping it');
+        return null;
+      }
+      return createWebhookChannel('n8n', config.keys.n8nWebhook, { signingSecret, timeoutMs });
+    case 'webhook':
+      if (!config.notifications.webhookUrl) {
+        console.warn('⚠️  webhook channel configured but NOTIFY_WEBHOOK_URL is missing - skipping it');
+        return null;
+      }
+      return createWebhookChannel('webhook', config.notifications.webhookUrl, { signingSecret, timeoutMs });
+    case 'file':
+      return createFileChannel(config.notifications.filePath);
+    case 'log':
+      return createLogChannel();
+  }
+}
+
+export interface DispatcherOptions {
+  channels: NotificationChannel[];
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** How many due messages to pick up per pass */
+  batchSize?: number;
+}
+
+export interface NotificationDispatcher {
+  /** Write an event to the outbox for every channel; never throws */
+  enqueue(event: string, payload: Record<string, unknown>): Promise<boolean>;
+  /** Deliver everything due by `now`; returns how many were attempted */
+  dispatchDue(now?: Date): Promise<number>;
+  /** Put a dead message back in the queue */
+  retry(id: string): Promise<boolean>;
+  start(intervalMs: number): void;
+}
+
+/**
+ * Delay before the next attempt: base × 2^(attempts - 1), capped
+ */
+export function backoffDelay(attempts: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.min(baseDelayMs * 2 ** Math.max(attempts - 1, 0), maxDelayMs);
+}
+
+export function createNotificationDispatcher(options: DispatcherOptions): NotificationDispatcher {
+  const channels = new Map(options.channels.map((channel) => [channel.name, channel]));
+  const serially = createSerialRunner();
+  let timer: NodeJS.Timeout | null = null;
+
+  async function attempt(message: OutboxMessage, channel: NotificationChannel, now: Date): Promise<void> {
+    const attempts = message.attempts + 1;
+    try {
+      await channel.deliver({
+        id: message.id,
+        event: message.event,
+        payload: message.payload,
+        createdAt: message.created_at,
+      });
+      await outboxRepository.update(message.id, {
+        status: 'delivered',
+        attempts,
+        next_attempt_at: null,
+        last_error: null,
+        delivered_at: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      const lastError = String(error?.message || error).slice(0, 500);
+      if (attempts >= options.maxAttempts) {
+        console.error(`💀 Notification ${message.id} ("${message.event}" via ${channel.name}) gave up after ${attempts} attempts: ${lastError}`);
+        await outboxRepository.update(message.id, {
+          status: 'dead',
+          attempts,
+          next_attempt_at: null,
+          last_error: lastError,
+        });
+      } else {
+        const delay = backoffDelay(attempts, options.baseDelayMs, options.maxDelayMs);
+        console.warn(`Notification ${message.id} via ${channel.name} failed (attempt ${attempts}), retrying in ${Math.round(delay / 1000)}s: ${lastError}`);
+        await outboxRepository.update(message.id, {
+          attempts,
+          next_attempt_at: new Date(now.getTime() + delay).toISOString(),
+          last_error: lastError,
+        });
+      }
+    }
+  }
+
+  async function runDue(now: Date): Promise<number> {
+    // The range is exclusive, so include messages due this very millisecond
+    const due = await outboxRepository.listDue(new Date(now.getTime() + 1).toISOString(), options.batchSize ?? 50);
+    let attempted = 0;
+    for (const message of due) {
+      const channel = channels.get(message.channel);
+      if (!channel) continue;
+      await attempt(message, channel, now);
+      attempted++;
+    }
+    return attempted;
+  }
+
+  const dispatcher: NotificationDispatcher = {
+    async enqueue(event, payload) {
+      if (channels.size === 0) {
+        console.warn(`⚠️  No notification channels configured - Care Circle event "${event}" was not sent`);
+        return false;
+      }
+      try {
+        const now = new Date().toISOString();
+        for (const channel of channels.keys()) {
+          await outboxRepository.add({
+            user_id: typeof payload.userId === 'string' ? payload.userId : null,
+            event,
+            channel,
+            payload,
+            status: 'pending',
+            attempts: 0,
+            next_attempt_at: now,
+            last_error: null,
+            delivered_at: null,
+          });
+        }
+      } catch (error) {
+        console.error(`Could not queue Care Circle event "${event}":`, error);
+        return false;
+      }
+
+      // Deliver straight away in the background; the caller doesn't wait
+      setImmediate(() => {
+        dispatcher.dispatchDue().catch((error) => console.error('Notification dispatch error:', error));
+      });
+      return true;
+    },
+
+    async dispatchDue(now = new Date()) {
+      // One pass at a time, so a message is never sent twice concurrently
+      return serially(() => runDue(now));
+    },
+
+    async retry(id) {
+      const message = await outboxRepository.get(id);
+      if (!message || message.status !== 'dead') return false;
+      await outboxRepository.update(id, {
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: new Date().toISOString(),
+      });
+      setImmediate(() => {
+        dispatcher.dispatchDue().catch((error) => console.error('Notification dispatch error:', error));
+      });
+      return true;
+    },
+
+    start(intervalMs) {
+      if (timer) return;
+      timer = setInterval(() => {
+        dispatcher.dispatchDue().catch((error) => console.error('Notification dispatch error:', error));
+      }, intervalMs);
+      timer.unref();
+    },
+  };
+
+  return dispatcher;
+}
+
+let dispatcher: NotificationDispatcher | null = null;
+
+/**
+ * The dispatcher for the configured channels
+ */
+export function getNotificationDispatcher(): NotificationDispatcher {
+  if (!dispatcher) {
+    const { channels, maxAttempts, baseDelaySeconds, maxDelaySeconds } = config.notifications;
+    dispatcher = createNotificationDispatcher({
+      channels: channels
+        .map(createConfiguredChannel)
+        .filter((channel): channel is NotificationChannel => channel !== null),
+      maxAttempts,
+      baseDelayMs: baseDelaySeconds * 1000,
+      maxDelayMs: maxDelaySeconds * 1000,
+    });
+  }
+  return dispatcher;
+}
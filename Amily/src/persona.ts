@@ -172,11 +172,29 @@ export function detectEmotion(userInput: string): 'stressed' | 'confused' | 'lon
   return 'calm';
 }
 
+/**
+ * Pick an option at random, or stably from a seed string when one is given
+ */
+function pickOption<T>(options: T[], seed?: string): T {
+  if (seed === undefined) {
+    return options[Math.floor(Math.random() * options.length)];
+  }
+  let hash = 0;
+  for (const char of seed) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return options[hash % options.length];
+}
+
 /**
  * Generate empathetic response based on detected emotion
- * (with multiple options per emotion so replies don't feel identical)
+ * (with multiple options per emotion so replies don't feel identical).
+ * Passing a seed makes the choice repeatable for the same input.
  */
-export function generateEmpatheticResponse(emotion: 'stressed' | 'confused' | 'lonely' | 'calm'): string {
+export function generateEmpatheticResponse(
+  emotion: 'stressed' | 'confused' | 'lonely' | 'calm',
+  seed?: string
+): string {
   const responseOptions: Record<typeof emotion, string[]> = {
     stressed: [
       "It's okay to feel this way… let's breathe together and go slowly.",
@@ -200,7 +218,5 @@ export function generateEmpatheticResponse(emotion: 'stressed' | 'confused' | 'l
     ],
   };
 
-  const options = responseOptions[emotion];
-  const choice = options[Math.floor(Math.random() * options.length)];
-  return formatForTTS(choice);
+  return formatForTTS(pickOption(responseOptions[emotion], seed));
 }
@@ -0,0 +1,213 @@
+/**
+ * Medication Reminder Scheduler
+ *
+ * Checks each user's doses on their own clock and reminds them when one
+ * is due, again every few minutes while it stays open (or when a snooze
+ * runs out), and marks it missed once its window has passed. Reminders
+ * are handed to a pluggable channel.
+ */
+
+import { config } from './config';
+import { getNotificationDispatcher, type NotificationDispatcher } from './notifications';
+import { doseRepository, medicationRepository, type DoseRecord } from './repositories';
+import {
+  MedicationError,
+  dueDoses,
+  ensureDoses,
+  markMissedDoses,
+  toSchedule,
+} from './medications';
+import { createSerialRunner } from './serial';
+import { addDays, getUserTimeZone, localDateTime } from './timezone';
+import { getMedicationReminder } from './wellness';
+
+export interface MedicationReminder {
+  userId: string;
+  /** The first reminder for these doses, or a repeat */
+  kind: 'due' | 'repeat';
+  doses: {
+    doseId: string;
+    medicationId: string;
+    name: string;
+    dosage: string;
+    scheduledFor: string;
+    withFood: boolean;
+  }[];
+  message: string;
+  ttsMessage: string;
+  timestamp: string;
+}
+
+export interface ReminderChannel {
+  name: string;
+  deliver(reminder: MedicationReminder): Promise<void>;
+}
+
+/**
+ * Print each reminder to the console (the default in demo mode)
+ */
+export function createReminderLogChannel(): ReminderChannel {
+  return {
+    name: 'log',
+    async deliver(reminder) {
+      console.log(`💊 [${config.mode.toUpperCase()}] Reminder for ${reminder.userId}: ${reminder.message}`);
+    },
+  };
+}
+
+/**
+ * Send reminders out through the notification channels, addressed to the user
+ */
+export function createReminderNotifyChannel(dispatcher: NotificationDispatcher = getNotificationDispatcher()): ReminderChannel {
+  return {
+    name: 'notify',
+    async deliver(reminder) {
+      const queued = await dispatcher.enqueue('medication_reminder', { ...reminder, recipient: null });
+      if (!queued) {
+        throw new Error('reminder could not be queued');
+      }
+    },
+  };
+}
+
+export interface ReminderSchedulerOptions {
+  channel: ReminderChannel;
+  /** Where "now" comes from; tests pass a fake clock */
+  clock?: () => Date;
+  snoozeMinutes: number;
+  repeatMinutes: number;
+  maxReminders: number;
+}
+
+export interface ReminderScheduler {
+  /** Send due reminders and mark missed doses; returns what was done */
+  tick(): Promise<{ reminded: number; missed: number }>;
+  /** Hold off reminders for one dose */
+  snooze(userId: string, doseId: string, minutes?: number): Promise<DoseRecord>;
+  start(intervalMs: number): void;
+}
+
+export function createReminderScheduler(options: ReminderSchedulerOptions): ReminderScheduler {
+  const clock = options.clock ?? (() => new Date());
+  const serially = createSerialRunner();
+  let timer: NodeJS.Timeout | null = null;
+
+  function needsReminder(dose: DoseRecord, now: Date): boolean {
+    if (dose.snoozed_until) return dose.snoozed_until <= now.toISOString();
+    const count = dose.reminder_count ?? 0;
+    if (count === 0) return true;
+    if (count >= options.maxReminders || !dose.last_reminded_at) return false;
+    return now.getTime() - Date.parse(dose.last_reminded_at) >= options.repeatMinutes * 60_000;
+  }
+
+  async function remindUser(userId: string, now: Date): Promise<{ reminded: number; missed: number }> {
+    const nowLocal = localDateTime(now, await getUserTimeZone(userId));
+    const today = nowLocal.slice(0, 10);
+    // Yesterday too, for late-evening doses whose window runs past midnight
+    await ensureDoses(userId, addDays(today, -1), today);
+    const missed = await markMissedDoses(userId, now);
+
+    // Reminders go out at the dose's time, not in the early window
+    const due = (await dueDoses(userId, now)).filter(
+      ({ dose }) => dose.scheduled_for <= nowLocal && needsReminder(dose, now)
+    );
+    if (due.length === 0) return { reminded: 0, missed: missed.length };
+
+    const nudges = due.map(({ medication }) => getMedicationReminder(toSchedule(medication)));
+    const repeat = due.every(({ dose }) => (dose.reminder_count ?? 0) > 0 && !dose.snoozed_until);
+    const reminder: MedicationReminder = {
+      userId,
+      kind: repeat ? 'repeat' : 'due',
+      doses: due.map(({ dose, medication }) => ({
+        doseId: dose.id,
+        medicationId: medication.id,
+        name: medication.name,
+        dosage: medication.dosage,
+        scheduledFor: dose.scheduled_for,
+        withFood: medication.with_food,
+      })),
+      message: (repeat ? 'Just a gentle reminder. ' : '') + nudges.map((nudge) => nudge.message).join(' '),
+      ttsMessage: (repeat ? 'Just a gentle reminder... ' : '') + nudges.map((nudge) => nudge.ttsMessage).join(' '),
+      timestamp: now.toISOString(),
+    };
+
+    try {
+      await options.channel.deliver(reminder);
+    } catch (error) {
+      // Left as it was, so the next tick tries again
+      console.error(`Reminder for ${userId} via ${options.channel.name} failed:`, error);
+      return { reminded: 0, missed: missed.length };
+    }
+
+    for (const { dose } of due) {
+      await doseRepository.update(dose.id, {
+        reminder_count: (dose.reminder_count ?? 0) + 1,
+        last_reminded_at: now.toISOString(),
+        snoozed_until: null,
+      });
+    }
+    return { reminded: due.length, missed: missed.length };
+  }
+
+  async function runTick(): Promise<{ reminded: number; missed: number }> {
+    const now = clock();
+    const totals = { reminded: 0, missed: 0 };
+    for (const userId of await medicationRepository.listUserIds()) {
+      try {
+        const result = await remindUser(userId, now);
+        totals.reminded += result.reminded;
+        totals.missed += result.missed;
+      } catch (error) {
+        console.error(`Reminder check for ${userId} failed:`, error);
+      }
+    }
+    return totals;
+  }
+
+  const scheduler: ReminderScheduler = {
+    tick() {
+      // One pass at a time, so a reminder is never sent twice
+      return serially(runTick);
+    },
+
+    async snooze(userId, doseId, minutes = options.snoozeMinutes) {
+      const dose = await doseRepository.get(doseId);
+      if (!dose || dose.user_id !== userId) {
+        throw new MedicationError("I couldn't find that dose.", 404);
+      }
+      if (dose.status !== 'pending') {
+        throw new MedicationError(`That dose is already marked ${dose.status}.`, 409);
+      }
+      const until = new Date(clock().getTime() + minutes * 60_000).toISOString();
+      return (await doseRepository.update(doseId, { snoozed_until: until }))!;
+    },
+
+    start(intervalMs) {
+      if (timer) return;
+      timer = setInterval(() => {
+        scheduler.tick().catch((error) => console.error('Reminder scheduler error:', error));
+      }, intervalMs);
+      timer.unref();
+    },
+  };
+
+  return scheduler;
+}
+
+let scheduler: ReminderScheduler | null = null;
+
+/**
+ * The scheduler for the configured reminder channel
+ */
+export function getReminderScheduler(): ReminderScheduler {
+  if (!scheduler) {
+    const { channel, snoozeMinutes, repeatMinutes, maxReminders } = config.reminders;
+    scheduler = createReminderScheduler({
+      channel: channel === 'notify' ? createReminderNotifyChannel() : createReminderLogChannel(),
+      snoozeMinutes,
+      repeatMinutes,
+      maxReminders,
+    });
+  }
+  return scheduler;
+}
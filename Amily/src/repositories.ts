@@ -0,0 +1,814 @@
+/**
+ * Repositories
+ *
+ * Typed access to each domain entity. Routes and services use these
+ * instead of table names and untyped rows; the backend behind them is
+ * chosen in storage.ts.
+ */
+
+import { randomUUID } from 'crypto';
+import { getStorage, type Row, type Scalar } from './storage';
+import type { VitalMetric } from './config';
+import type {
+  PlanJSON,
+  MemoryJSON,
+  SummaryJSON,
+  CaregiverScope,
+  CareCircleRole,
+  NotifyPreferences,
+  AlertLevel,
+} from './schemas';
+
+export interface SavedLocation {
+  lat: number;
+  lng: number;
+  /** Town or city, for the user's own reference */
+  name?: string;
+}
+
+export interface UserPreferences {
+  user_id: string;
+  preferred_pace: string;
+  favorite_time: string;
+  interests: string[];
+  routine_notes: string | null;
+  /** IANA time zone, e.g. "Europe/London"; the server default when null */
+  timezone: string | null;
+  /** Tell the Care Circle when a medication dose is missed */
+  missed_dose_alerts: boolean;
+  /** Glasses of water a day */
+  hydration_goal: number;
+  /** Where the user lives, for the weather */
+  location: SavedLocation | null;
+  /** C or F; the deployment default when null */
+  temperature_unit: 'C' | 'F' | null;
+}
+
+export interface CheckInRecord {
+  id: string;
+  user_id: string;
+  plan: PlanJSON;
+  timestamp: string;
+}
+
+export interface MemoryRecord {
+  id: string;
+  user_id: string;
+  memory: MemoryJSON;
+  timestamp: string;
+  /** When the user last corrected it, if they have */
+  updated_at: string | null;
+  /** Whether the user has agreed to it going in the family book */
+  shareable: boolean | null;
+}
+
+export type MemoryExportStatus = 'pending' | 'ready' | 'failed' | 'expired';
+
+export interface MemoryExportRecord {
+  id: string;
+  user_id: string;
+  requested_by: string;
+  format: string;
+  title: string;
+  status: MemoryExportStatus;
+  /** Memories in the book, once it's made */
+  memory_count: number | null;
+  /** File name in the export directory */
+  file: string | null;
+  error: string | null;
+  completed_at: string | null;
+  expires_at: string | null;
+  timestamp: string;
+}
+
+export interface BuddyMessageRecord {
+  id: string;
+  user_id: string;
+  message_from: string | null;
+  summary: SummaryJSON;
+  timestamp: string;
+}
+
+export interface ChatMessageRecord {
+  id: string;
+  user_id: string;
+  role: 'user' | 'amily';
+  text: string;
+  emotion: string | null;
+  timestamp: string;
+}
+
+export interface WellnessLogRecord {
+  id: string;
+  user_id: string;
+  type: string;
+  value: unknown;
+  /** The medication dose this entry records, for type "medication" */
+  dose_id: string | null;
+  timestamp: string;
+}
+
+export interface LocalAccount {
+  id: string;
+  email: string;
+  password_hash: string;
+  salt: string;
+  full_name: string | null;
+  supported_person: string | null;
+  created_at: string;
+}
+
+export type { CaregiverScope };
+
+export interface CaregiverLink {
+  id: string;
+  senior_id: string;
+  caregiver_id: string;
+  scopes: CaregiverScope[];
+  created_at: string;
+}
+
+/**
+ * invited → active once the invitee accepts (or declined). A member is
+ * only contacted when active and the senior has consented.
+ */
+export type CareCircleStatus = 'invited' | 'active' | 'declined';
+
+export interface CareCircleMember {
+  id: string;
+  senior_id: string;
+  /** The member's user id, known once they accept */
+  member_id: string | null;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  role: CareCircleRole;
+  status: CareCircleStatus;
+  consent: boolean;
+  scopes: CaregiverScope[];
+  notify: NotifyPreferences;
+  invited_by: string;
+  invite_code_hash: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * open → notified → acknowledged → resolved, or awaiting_response first
+ * while the user has a chance to say they're alright
+ */
+export type AlertStatus = 'awaiting_response' | 'open' | 'notified' | 'acknowledged' | 'resolved';
+
+export interface AlertHistoryEntry {
+  at: string;
+  action:
+    | 'raised'
+    | 'notified'
+    | 'escalated'
+    | 'delivery_failed'
+    | 'exhausted'
+    | 'acknowledged'
+    | 'resolved'
+    | 'no_response'
+    | 'user_ok'
+    | 'user_needs_help';
+  by?: string;
+  tier?: number;
+  recipients?: string[];
+  /** How the user answered: by voice, text or a button */
+  channel?: string;
+  note?: string;
+}
+
+export interface AlertRecord {
+  id: string;
+  user_id: string;
+  level: AlertLevel;
+  status: AlertStatus;
+  /** What raised it, e.g. "vitals", "checkin", "manual" */
+  source: string;
+  /** The API route the triggering request came in on, if any */
+  route: string | null;
+  /** Care Circle event name sent to members */
+  event: string;
+  detected: string[];
+  context: string | null;
+  vitals: unknown;
+  /** Index of the Care Circle tier last contacted */
+  tier: number;
+  /** Care Circle member ids told about this alert */
+  notified: string[];
+  /** When to contact the next tier if nobody has acknowledged */
+  escalate_at: string | null;
+  acknowledged_by: string | null;
+  acknowledged_at: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  history: AlertHistoryEntry[];
+  timestamp: string;
+  updated_at: string;
+}
+
+/**
+ * pending → delivered, or dead once retries run out
+ */
+export type OutboxStatus = 'pending' | 'delivered' | 'dead';
+
+export interface OutboxMessage {
+  id: string;
+  /** The senior the event is about, when there is one */
+  user_id: string | null;
+  event: string;
+  channel: string;
+  payload: Record<string, unknown>;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export interface MedicationRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  dosage: string;
+  /** Local times of day, "HH:MM" */
+  times: string[];
+  with_food: boolean;
+  notes: string | null;
+  /** Inactive medications keep their dose history but get no new doses */
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type DoseStatus = 'pending' | 'taken' | 'skipped' | 'missed';
+
+export interface DoseRecord {
+  /** "<medication id>_<YYYY-MM-DD>_<HHMM>", so each dose exists once */
+  id: string;
+  user_id: string;
+  medication_id: string;
+  /** Local wall-clock time, "YYYY-MM-DDTHH:MM" */
+  scheduled_for: string;
+  status: DoseStatus;
+  recorded_at: string | null;
+  note: string | null;
+  wellness_log_id: string | null;
+  /** Reminders sent so far for this dose */
+  reminder_count: number;
+  last_reminded_at: string | null;
+  /** ISO timestamp; no reminders until then */
+  snoozed_until: string | null;
+}
+
+export interface VitalReadingRecord {
+  /** "<user id>_<metric>_<ISO time>", so a reading sent twice is stored once */
+  id: string;
+  user_id: string;
+  metric: VitalMetric;
+  value: number;
+  /** Where it came from, e.g. "api" or "apple_health" */
+  source: string;
+  /** When it was measured */
+  timestamp: string;
+}
+
+/**
+ * One day of the inactivity watchdog for one user
+ */
+export interface InactivityCheckRecord {
+  /** "<user>_<YYYY-MM-DD>" */
+  id: string;
+  user_id: string;
+  /** The user's local date */
+  date: string;
+  /** Local "YYYY-MM-DDTHH:MM" the user was expected to be active by */
+  expected_by: string;
+  prompted_at: string | null;
+  /** The Care Circle concern raised when the prompt went unanswered */
+  alert_id: string | null;
+  active_again_at: string | null;
+  timestamp: string;
+}
+
+export interface TimeWindow {
+  /** ISO timestamp, inclusive */
+  since?: string;
+  /** ISO timestamp, exclusive */
+  until?: string;
+  limit?: number;
+}
+
+/**
+ * Default preferences for a new user
+ */
+export const DEFAULT_PREFERENCES: Omit<UserPreferences, 'user_id'> = {
+  preferred_pace: 'slow',
+  favorite_time: 'morning',
+  interests: [],
+  routine_notes: null,
+  timezone: null,
+  missed_dose_alerts: false,
+  hydration_goal: 8,
+  location: null,
+  temperature_unit: null,
+};
+
+/**
+ * Insert a row with a fresh id and timestamp, returning it
+ */
+async function insertRecord<T>(table: string, fields: Row): Promise<T> {
+  const record = {
+    ...fields,
+    id: (fields.id as string | undefined) || randomUUID(),
+    timestamp: (fields.timestamp as string | undefined) || new Date().toISOString(),
+  };
+  await getStorage().insert(table, record);
+  return record as T;
+}
+
+/**
+ * A user's rows in a time window, oldest first
+ */
+async function listForUser<T>(
+  table: string,
+  userId: string,
+  window: TimeWindow = {},
+  where: Record<string, Scalar> = {}
+): Promise<T[]> {
+  const rows = await getStorage().select(table, {
+    where: { user_id: userId, ...where },
+    range: { column: 'timestamp', from: window.since, to: window.until },
+    orderBy: { column: 'timestamp', ascending: true },
+    limit: window.limit,
+  });
+  return rows as unknown as T[];
+}
+
+export const preferencesRepository = {
+  async get(userId: string): Promise<UserPreferences> {
+    const [row] = await getStorage().select('user_preferences', { where: { user_id: userId }, limit: 1 });
+    // Rows written before a column was added hold null there; those take the default
+    const stored = Object.fromEntries(Object.entries(row ?? {}).filter(([, value]) => value !== null && value !== undefined));
+    return { user_id: userId, ...DEFAULT_PREFERENCES, ...(stored as Partial<UserPreferences>) };
+  },
+
+  async save(userId: string, changes: Partial<Omit<UserPreferences, 'user_id'>>): Promise<UserPreferences> {
+    // Nothing to change would update no rows, which looks just like there being no row yet
+    if (Object.values(changes).every((value) => value === undefined)) {
+      return this.get(userId);
+    }
+    const storage = getStorage();
+    const updated = await storage.update('user_preferences', { user_id: userId }, changes);
+    if (updated === 0) {
+      await storage.insert('user_preferences', {
+        id: randomUUID(),
+        user_id: userId,
+        ...DEFAULT_PREFERENCES,
+        ...changes,
+      });
+    }
+    return this.get(userId);
+  },
+};
+
+export const checkInRepository = {
+  add(userId: string, plan: PlanJSON, timestamp?: string): Promise<CheckInRecord> {
+    return insertRecord('check_ins', { user_id: userId, plan, timestamp });
+  },
+
+  listForUser(userId: string, window?: TimeWindow): Promise<CheckInRecord[]> {
+    return listForUser('check_ins', userId, window);
+  },
+};
+
+export const memoryRepository = {
+  add(userId: string, memory: MemoryJSON, shareable: boolean = false): Promise<MemoryRecord> {
+    return insertRecord('memories', { user_id: userId, memory, updated_at: null, shareable });
+  },
+
+  async get(id: string): Promise<MemoryRecord | null> {
+    const [row] = await getStorage().select('memories', { where: { id }, limit: 1 });
+    return (row as unknown as MemoryRecord) || null;
+  },
+
+  listForUser(userId: string, window?: TimeWindow): Promise<MemoryRecord[]> {
+    return listForUser('memories', userId, window);
+  },
+
+  async update(id: string, changes: Partial<Pick<MemoryRecord, 'memory' | 'shareable'>>): Promise<MemoryRecord | null> {
+    await getStorage().update('memories', { id }, { ...changes, updated_at: new Date().toISOString() });
+    return this.get(id);
+  },
+
+  async remove(id: string): Promise<boolean> {
+    return (await getStorage().remove('memories', { id })) > 0;
+  },
+};
+
+export const memoryExportRepository = {
+  add(exportJob: Omit<MemoryExportRecord, 'id' | 'timestamp'>): Promise<MemoryExportRecord> {
+    return insertRecord('memory_exports', exportJob);
+  },
+
+  async get(id: string): Promise<MemoryExportRecord | null> {
+    const [row] = await getStorage().select('memory_exports', { where: { id }, limit: 1 });
+    return (row as unknown as MemoryExportRecord) || null;
+  },
+
+  async update(id: string, changes: Partial<Omit<MemoryExportRecord, 'id' | 'user_id' | 'timestamp'>>): Promise<MemoryExportRecord | null> {
+    await getStorage().update('memory_exports', { id }, changes);
+    return this.get(id);
+  },
+
+  /** Finished exports whose files are past keeping */
+  async listExpired(now: string): Promise<MemoryExportRecord[]> {
+    const rows = await getStorage().select('memory_exports', {
+      where: { status: 'ready' },
+      range: { column: 'expires_at', to: now },
+    });
+    return rows as unknown as MemoryExportRecord[];
+  },
+};
+
+export const buddyMessageRepository = {
+  add(userId: string, messageFrom: string | null, summary: SummaryJSON): Promise<BuddyMessageRecord> {
+    return insertRecord('buddy_messages', { user_id: userId, message_from: messageFrom, summary });
+  },
+};
+
+export const chatMessageRepository = {
+  add(message: Omit<ChatMessageRecord, 'timestamp' | 'id'> & { id?: string; timestamp?: string }): Promise<ChatMessageRecord> {
+    return insertRecord('chat_messages', message);
+  },
+
+  /** The most recent messages, returned oldest first */
+  async recent(userId: string, limit: number): Promise<ChatMessageRecord[]> {
+    const rows = await getStorage().select('chat_messages', {
+      where: { user_id: userId },
+      orderBy: { column: 'timestamp', ascending: false },
+      limit,
+    });
+    return (rows as unknown as ChatMessageRecord[]).reverse();
+  },
+
+  listForUser(userId: string, window?: TimeWindow): Promise<ChatMessageRecord[]> {
+    return listForUser('chat_messages', userId, window);
+  },
+};
+
+export const wellnessLogRepository = {
+  add(userId: string, type: string, value: unknown, doseId: string | null = null): Promise<WellnessLogRecord> {
+    return insertRecord('wellness_log', { user_id: userId, type, value, dose_id: doseId });
+  },
+
+  listForUser(userId: string, window?: TimeWindow & { type?: string }): Promise<WellnessLogRecord[]> {
+    return listForUser('wellness_log', userId, window, window?.type ? { type: window.type } : {});
+  },
+};
+
+/** What counts as the user being active: their check-ins, chat messages and wellness logs */
+const ACTIVITY_SOURCES: { table: string; where: Record<string, Scalar> }[] = [
+  { table: 'check_ins', where: {} },
+  { table: 'chat_messages', where: { role: 'user' } },
+  { table: 'wellness_log', where: {} },
+];
+
+export const activityRepository = {
+  /** Everyone active since a time */
+  async userIdsSince(since: string): Promise<string[]> {
+    const ids = new Set<string>();
+    for (const { table, where } of ACTIVITY_SOURCES) {
+      const rows = await getStorage().select(table, { where, range: { column: 'timestamp', from: since } });
+      rows.forEach((row) => ids.add(row.user_id as string));
+    }
+    return [...ids];
+  },
+
+  /** When the user was active in a window, oldest first */
+  async timesForUser(userId: string, window: TimeWindow = {}): Promise<string[]> {
+    const times: string[] = [];
+    for (const { table, where } of ACTIVITY_SOURCES) {
+      const rows = await listForUser<{ timestamp: string }>(table, userId, window, where);
+      times.push(...rows.map((row) => row.timestamp));
+    }
+    return times.sort();
+  },
+};
+
+export const inactivityCheckRepository = {
+  async get(userId: string, date: string): Promise<InactivityCheckRecord | null> {
+    const [row] = await getStorage().select('inactivity_checks', { where: { id: `${userId}_${date}` }, limit: 1 });
+    return (row as unknown as InactivityCheckRecord) || null;
+  },
+
+  add(check: Omit<InactivityCheckRecord, 'id' | 'timestamp'>): Promise<InactivityCheckRecord> {
+    return insertRecord('inactivity_checks', { ...check, id: `${check.user_id}_${check.date}` });
+  },
+
+  async update(
+    userId: string,
+    date: string,
+    changes: Partial<Pick<InactivityCheckRecord, 'prompted_at' | 'alert_id' | 'active_again_at'>>
+  ): Promise<InactivityCheckRecord | null> {
+    await getStorage().update('inactivity_checks', { id: `${userId}_${date}` }, changes);
+    return this.get(userId, date);
+  },
+};
+
+export const vitalsRepository = {
+  /** Store readings, skipping any already stored; returns the new ones */
+  async addMany(
+    userId: string,
+    readings: { metric: VitalMetric; value: number; timestamp: string }[],
+    source: string
+  ): Promise<VitalReadingRecord[]> {
+    const added: VitalReadingRecord[] = [];
+    const seen = new Set<string>();
+    for (const reading of readings) {
+      const timestamp = new Date(reading.timestamp).toISOString();
+      const id = `${userId}_${reading.metric}_${timestamp}`;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      const [existing] = await getStorage().select('vital_readings', { where: { id }, limit: 1 });
+      if (existing) continue;
+      added.push(
+        await insertRecord<VitalReadingRecord>('vital_readings', {
+          id,
+          user_id: userId,
+          metric: reading.metric,
+          value: reading.value,
+          source,
+          timestamp,
+        })
+      );
+    }
+    return added;
+  },
+
+  listForUser(userId: string, window?: TimeWindow & { metric?: VitalMetric }): Promise<VitalReadingRecord[]> {
+    return listForUser('vital_readings', userId, window, window?.metric ? { metric: window.metric } : {});
+  },
+};
+
+export const localAccountRepository = {
+  async findByEmail(email: string): Promise<LocalAccount | null> {
+    const [row] = await getStorage().select('local_accounts', { where: { email }, limit: 1 });
+    return (row as unknown as LocalAccount) || null;
+  },
+
+  async add(account: Omit<LocalAccount, 'created_at'>): Promise<LocalAccount> {
+    const record = { ...account, created_at: new Date().toISOString() };
+    await getStorage().insert('local_accounts', record);
+    return record;
+  },
+};
+
+export const caregiverLinkRepository = {
+  async find(seniorId: string, caregiverId: string): Promise<CaregiverLink | null> {
+    const [row] = await getStorage().select('caregiver_links', {
+      where: { senior_id: seniorId, caregiver_id: caregiverId },
+      limit: 1,
+    });
+    return (row as unknown as CaregiverLink) || null;
+  },
+
+  async listForSenior(seniorId: string): Promise<CaregiverLink[]> {
+    const rows = await getStorage().select('caregiver_links', { where: { senior_id: seniorId } });
+    return rows as unknown as CaregiverLink[];
+  },
+
+  async listForCaregiver(caregiverId: string): Promise<CaregiverLink[]> {
+    const rows = await getStorage().select('caregiver_links', { where: { caregiver_id: caregiverId } });
+    return rows as unknown as CaregiverLink[];
+  },
+
+  /** Create the link, or replace its scopes if it already exists */
+  async save(seniorId: string, caregiverId: string, scopes: CaregiverScope[]): Promise<CaregiverLink> {
+    const existing = await this.find(seniorId, caregiverId);
+    if (existing) {
+      await getStorage().update('caregiver_links', { id: existing.id }, { scopes });
+      return { ...existing, scopes };
+    }
+    const link: CaregiverLink = {
+      id: randomUUID(),
+      senior_id: seniorId,
+      caregiver_id: caregiverId,
+      scopes,
+      created_at: new Date().toISOString(),
+    };
+    await getStorage().insert('caregiver_links', { ...link });
+    return link;
+  },
+
+  async remove(seniorId: string, caregiverId: string): Promise<boolean> {
+    const removed = await getStorage().remove('caregiver_links', { senior_id: seniorId, caregiver_id: caregiverId });
+    return removed > 0;
+  },
+};
+
+export const careCircleRepository = {
+  async get(id: string): Promise<CareCircleMember | null> {
+    const [row] = await getStorage().select('care_circle_members', { where: { id }, limit: 1 });
+    return (row as unknown as CareCircleMember) || null;
+  },
+
+  async findByInviteCodeHash(hash: string): Promise<CareCircleMember | null> {
+    const [row] = await getStorage().select('care_circle_members', { where: { invite_code_hash: hash }, limit: 1 });
+    return (row as unknown as CareCircleMember) || null;
+  },
+
+  async findMember(seniorId: string, memberId: string): Promise<CareCircleMember | null> {
+    const [row] = await getStorage().select('care_circle_members', {
+      where: { senior_id: seniorId, member_id: memberId },
+      limit: 1,
+    });
+    return (row as unknown as CareCircleMember) || null;
+  },
+
+  async listForSenior(seniorId: string): Promise<CareCircleMember[]> {
+    const rows = await getStorage().select('care_circle_members', {
+      where: { senior_id: seniorId },
+      orderBy: { column: 'created_at', ascending: true },
+    });
+    return rows as unknown as CareCircleMember[];
+  },
+
+  async listForMember(memberId: string): Promise<CareCircleMember[]> {
+    const rows = await getStorage().select('care_circle_members', { where: { member_id: memberId } });
+    return rows as unknown as CareCircleMember[];
+  },
+
+  async add(member: Omit<CareCircleMember, 'id' | 'created_at' | 'updated_at'>): Promise<CareCircleMember> {
+    const now = new Date().toISOString();
+    const record: CareCircleMember = { ...member, id: randomUUID(), created_at: now, updated_at: now };
+    await getStorage().insert('care_circle_members', { ...record });
+    return record;
+  },
+
+  async update(
+    id: string,
+    changes: Partial<Omit<CareCircleMember, 'id' | 'senior_id' | 'created_at' | 'updated_at'>>
+  ): Promise<CareCircleMember | null> {
+    await getStorage().update('care_circle_members', { id }, { ...changes, updated_at: new Date().toISOString() });
+    return this.get(id);
+  },
+
+  async remove(id: string): Promise<boolean> {
+    return (await getStorage().remove('care_circle_members', { id })) > 0;
+  },
+};
+
+export const alertRepository = {
+  async add(alert: Omit<AlertRecord, 'id' | 'timestamp' | 'updated_at'>): Promise<AlertRecord> {
+    const now = new Date().toISOString();
+    const record: AlertRecord = { ...alert, id: randomUUID(), timestamp: now, updated_at: now };
+    await getStorage().insert('alerts', { ...record });
+    return record;
+  },
+
+  async get(id: string): Promise<AlertRecord | null> {
+    const [row] = await getStorage().select('alerts', { where: { id }, limit: 1 });
+    return (row as unknown as AlertRecord) || null;
+  },
+
+  async update(
+    id: string,
+    changes: Partial<Omit<AlertRecord, 'id' | 'user_id' | 'timestamp' | 'updated_at'>>
+  ): Promise<AlertRecord | null> {
+    await getStorage().update('alerts', { id }, { ...changes, updated_at: new Date().toISOString() });
+    return this.get(id);
+  },
+
+  /** A user's alerts, newest first */
+  async listForUser(userId: string, window: TimeWindow & { status?: AlertStatus } = {}): Promise<AlertRecord[]> {
+    const rows = await getStorage().select('alerts', {
+      where: window.status ? { user_id: userId, status: window.status } : { user_id: userId },
+      range: { column: 'timestamp', from: window.since, to: window.until },
+      orderBy: { column: 'timestamp', ascending: false },
+      limit: window.limit,
+    });
+    return rows as unknown as AlertRecord[];
+  },
+
+  /** Alerts in a status whose escalation time has passed */
+  async listDue(status: AlertStatus, now: string): Promise<AlertRecord[]> {
+    const rows = await getStorage().select('alerts', {
+      where: { status },
+      range: { column: 'escalate_at', to: now },
+      orderBy: { column: 'escalate_at', ascending: true },
+    });
+    return rows as unknown as AlertRecord[];
+  },
+};
+
+export const outboxRepository = {
+  async add(message: Omit<OutboxMessage, 'id' | 'created_at'>): Promise<OutboxMessage> {
+    const record: OutboxMessage = { ...message, id: randomUUID(), created_at: new Date().toISOString() };
+    await getStorage().insert('notification_outbox', { ...record });
+    return record;
+  },
+
+  async get(id: string): Promise<OutboxMessage | null> {
+    const [row] = await getStorage().select('notification_outbox', { where: { id }, limit: 1 });
+    return (row as unknown as OutboxMessage) || null;
+  },
+
+  async update(id: string, changes: Partial<Omit<OutboxMessage, 'id' | 'created_at'>>): Promise<void> {
+    await getStorage().update('notification_outbox', { id }, changes);
+  },
+
+  /** Pending messages due by `now`, oldest first */
+  async listDue(now: string, limit: number): Promise<OutboxMessage[]> {
+    const rows = await getStorage().select('notification_outbox', {
+      where: { status: 'pending' },
+      range: { column: 'next_attempt_at', to: now },
+      orderBy: { column: 'next_attempt_at', ascending: true },
+      limit,
+    });
+    return rows as unknown as OutboxMessage[];
+  },
+
+  /** Messages that ran out of retries, newest first */
+  async listDead(userId: string, limit: number = 50): Promise<OutboxMessage[]> {
+    const rows = await getStorage().select('notification_outbox', {
+      where: { user_id: userId, status: 'dead' },
+      orderBy: { column: 'created_at', ascending: false },
+      limit,
+    });
+    return rows as unknown as OutboxMessage[];
+  },
+};
+
+export const medicationRepository = {
+  async add(medication: Omit<MedicationRecord, 'id' | 'created_at' | 'updated_at'>): Promise<MedicationRecord> {
+    const now = new Date().toISOString();
+    const record: MedicationRecord = { ...medication, id: randomUUID(), created_at: now, updated_at: now };
+    await getStorage().insert('medications', { ...record });
+    return record;
+  },
+
+  async get(id: string): Promise<MedicationRecord | null> {
+    const [row] = await getStorage().select('medications', { where: { id }, limit: 1 });
+    return (row as unknown as MedicationRecord) || null;
+  },
+
+  /** Everyone with at least one active medication */
+  async listUserIds(): Promise<string[]> {
+    const rows = await getStorage().select('medications', { where: { active: true } });
+    return [...new Set(rows.map((row) => row.user_id as string))];
+  },
+
+  async listForUser(userId: string, options: { includeInactive?: boolean } = {}): Promise<MedicationRecord[]> {
+    const rows = await getStorage().select('medications', {
+      where: options.includeInactive ? { user_id: userId } : { user_id: userId, active: true },
+      orderBy: { column: 'created_at', ascending: true },
+    });
+    return rows as unknown as MedicationRecord[];
+  },
+
+  async update(
+    id: string,
+    changes: Partial<Omit<MedicationRecord, 'id' | 'user_id' | 'created_at' | 'updated_at'>>
+  ): Promise<MedicationRecord | null> {
+    await getStorage().update('medications', { id }, { ...changes, updated_at: new Date().toISOString() });
+    return this.get(id);
+  },
+};
+
+export const doseRepository = {
+  async add(dose: DoseRecord): Promise<DoseRecord> {
+    await getStorage().insert('medication_doses', { ...dose });
+    return dose;
+  },
+
+  async get(id: string): Promise<DoseRecord | null> {
+    const [row] = await getStorage().select('medication_doses', { where: { id }, limit: 1 });
+    return (row as unknown as DoseRecord) || null;
+  },
+
+  /** A user's doses scheduled in [from, to), local wall-clock strings, in time order */
+  async listForUser(
+    userId: string,
+    window: { from?: string; to?: string; status?: DoseStatus } = {}
+  ): Promise<DoseRecord[]> {
+    const rows = await getStorage().select('medication_doses', {
+      where: window.status ? { user_id: userId, status: window.status } : { user_id: userId },
+      range: { column: 'scheduled_for', from: window.from, to: window.to },
+      orderBy: { column: 'scheduled_for', ascending: true },
+    });
+    return rows as unknown as DoseRecord[];
+  },
+
+  async update(id: string, changes: Partial<Omit<DoseRecord, 'id' | 'user_id' | 'medication_id'>>): Promise<DoseRecord | null> {
+    await getStorage().update('medication_doses', { id }, changes);
+    return this.get(id);
+  },
+
+  async remove(id: string): Promise<boolean> {
+    return (await getStorage().remove('medication_doses', { id })) > 0;
+  },
+};
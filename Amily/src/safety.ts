@@ -4,50 +4,9 @@
  * Detects emergency situations from voice input, vitals, and Apple Watch data
  */
 
-import { triggerN8NWorkflow } from './services';
-
-// Emergency trigger phrases
-const EMERGENCY_PHRASES = [
-  // Direct help requests
-  'i need help',
-  'help me',
-  'call for help',
-  'get help',
-  
-  // Safety concerns
-  "i don't feel safe",
-  'i feel unsafe',
-  'not safe',
-  'scared',
-  'afraid',
-  
-  // Medical emergencies
-  'i feel dizzy',
-  'i feel weak',
-  'i fell',
-  'i fell down',
-  'chest pain',
-  'cant breathe',
-  "can't breathe",
-  'trouble breathing',
-  'heart racing',
-  
-  // Urgent situations
-  'emergency',
-  '911',
-  'ambulance',
-];
-
-// Wellness concern phrases (non-emergency)
-const CONCERN_PHRASES = [
-  'not feeling well',
-  'feeling tired',
-  'feeling confused',
-  'forgot to take',
-  'missed my medication',
-  'feel lonely',
-  'feel sad',
-];
+import { raiseAlert } from './alerts';
+import { analyzeSafetyText } from './safetyDetection';
+import { deviationCode, type VitalDeviation } from './vitals';
 
 export interface SafetyAlert {
   level: 'emergency' | 'urgent' | 'concern' | 'normal';
@@ -55,10 +14,24 @@ export interface SafetyAlert {
   message: string;
   actions: string[];
   caregiverAlert: boolean;
+  /** How sure phrase detection is of the level, 0–1 */
+  confidence?: number;
 }
 
 export interface VitalsData {
   heartRate?: number;
+  /** Blood oxygen, % */
+  spo2?: number;
+  bloodPressure?: {
+    systolic: number;
+    diastolic: number;
+  };
+  /** Body temperature, °C */
+  temperature?: number;
+  /** Steps since the last sample */
+  steps?: number;
+  /** Hours slept, sent once the user wakes */
+  sleepHours?: number;
   fallDetected?: boolean;
   location?: {
     lat: number;
@@ -71,40 +44,39 @@ export interface VitalsData {
  * Analyze text for safety concerns
  */
 export function detectSafetyConcerns(text: string): SafetyAlert {
-  const lowerText = text.toLowerCase();
-  const detected: string[] = [];
+  const { level, confidence, matches } = analyzeSafetyText(text);
+  const detected = matches.map((match) => match.id);
   
-  // Check for emergency phrases
-  for (const phrase of EMERGENCY_PHRASES) {
-    if (lowerText.includes(phrase)) {
-      detected.push(phrase);
-    }
-  }
-  
-  if (detected.length > 0) {
+  if (level === 'emergency') {
     return {
-      level: 'emergency',
+      level,
       detected,
       message: "I hear you need help... I'm contacting your care circle right now. Stay calm, help is on the way.",
       actions: ['alert_caregiver', 'emergency_protocol', 'location_share'],
       caregiverAlert: true,
+      confidence,
     };
   }
   
-  // Check for wellness concerns
-  for (const phrase of CONCERN_PHRASES) {
-    if (lowerText.includes(phrase)) {
-      detected.push(phrase);
-    }
+  if (level === 'urgent') {
+    return {
+      level,
+      detected,
+      message: "That sounds worrying... let's sit down and take it slowly. I'm letting your care circle know, just to be safe.",
+      actions: ['alert_caregiver', 'suggest_rest', 'check_in_again'],
+      caregiverAlert: true,
+      confidence,
+    };
   }
   
-  if (detected.length > 0) {
+  if (level === 'concern') {
     return {
-      level: 'concern',
+      level,
       detected,
       message: "I understand you're not feeling your best... let's talk about it. Would you like me to let someone know?",
       actions: ['offer_support', 'suggest_contact'],
       caregiverAlert: false,
+      confidence,
     };
   }
   
@@ -114,46 +86,53 @@ export function detectSafetyConcerns(text: string): SafetyAlert {
     message: '',
     actions: [],
     caregiverAlert: false,
+    confidence,
   };
 }
 
 /**
- * Analyze vitals data for safety concerns
+ * Analyze vitals data for safety concerns. A fall is acted on at once;
+ * everything else only once it's a sustained deviation (see vitals.ts).
  */
-export function analyzeVitals(vitals: VitalsData): SafetyAlert {
-  const concerns: string[] = [];
+export function analyzeVitals(vitals: VitalsData, deviations: VitalDeviation[] = []): SafetyAlert {
   
   // Fall detection
   if (vitals.fallDetected) {
     return {
       level: 'emergency',
       detected: ['fall_detected'],
-      message: "I detected a fall... I'm getting help right now. Can you hear me? Help is coming.",
+      message: "I think you may have had a fall... can you hear me? Tell me if you're okay. If I don't hear from you, I'll get help.",
       actions: ['emergency_protocol', 'alert_caregiver', 'location_share', 'check_responsive'],
       caregiverAlert: true,
     };
   }
   
-  // Heart rate concerns
-  if (vitals.heartRate) {
-    if (vitals.heartRate > 120) {
-      concerns.push('elevated_heart_rate');
-    }
-    if (vitals.heartRate < 50) {
-      concerns.push('low_heart_rate');
-    }
-  }
+  // Out of range for a while: heart rate, oxygen, blood pressure or temperature
+  const outOfRange = deviations.filter(
+    (deviation) => deviation.kind === 'threshold' && deviation.metric !== 'steps' && deviation.metric !== 'sleep_hours'
+  );
   
-  if (concerns.length > 0) {
+  if (outOfRange.length > 0) {
     return {
       level: 'urgent',
-      detected: concerns,
+      detected: deviations.map(deviationCode),
       message: "I'm noticing some unusual vitals... let's take a moment to rest. I'm letting your care circle know, just to be safe.",
       actions: ['alert_caregiver', 'suggest_rest', 'monitor_vitals'],
       caregiverAlert: true,
     };
   }
   
+  // Unusual for this person, or days of poor sleep or little walking
+  if (deviations.length > 0) {
+    return {
+      level: 'concern',
+      detected: deviations.map(deviationCode),
+      message: "Your readings have been a little different from usual lately... how are you feeling? I'll let your care circle know, so they can check in.",
+      actions: ['alert_caregiver', 'check_in', 'monitor_vitals'],
+      caregiverAlert: true,
+    };
+  }
+  
   return {
     level: 'normal',
     detected: [],
@@ -170,28 +149,34 @@ export async function handleEmergency(
   userId: string,
   alert: SafetyAlert,
   vitals?: VitalsData,
-  context?: string
-): Promise<{ success: boolean; alertId: string }> {
+  context?: string,
+  source: string = 'safety',
+  route?: string
+): Promise<{ success: boolean; alertId: string; notified: number }> {
   
-  // Trigger n8n emergency workflow
-  const success = await triggerN8NWorkflow('emergency_alert', {
+  // Store the alert and tell the first Care Circle tier
+  const stored = await raiseAlert({
     userId,
-    level: alert.level,
+    level: alert.level === 'normal' ? 'concern' : alert.level,
+    source,
+    event: 'emergency_alert',
     detected: alert.detected,
-    vitals,
     context,
-    location: vitals?.location,
-    timestamp: new Date().toISOString(),
+    vitals,
+    route,
   });
+  const notified = stored.notified.length;
   
   // Log the emergency
   console.log(`🚨 [EMERGENCY] User ${userId} - Level: ${alert.level}`);
-  console.log(`   Detected: ${alert.detected.join(', ')}`);
+  console.log(`   Detected: ${alert.detected.join(', ')}${route ? ` (via ${route})` : ''}`);
   console.log(`   Actions: ${alert.actions.join(', ')}`);
+  console.log(`   Care Circle members notified: ${notified}`);
   
   return {
-    success,
-    alertId: `alert_${Date.now()}`,
+    success: stored.status === 'notified',
+    alertId: stored.id,
+    notified,
   };
 }
 
@@ -0,0 +1,450 @@
+/**
+ * Safety Phrase Detection
+ *
+ * Finds signs of danger or distress in what the user says. Text is split
+ * into clauses and words (with contractions expanded), then matched
+ * against weighted phrases, allowing a word or two in between and common
+ * misspellings. Negated phrases ("I'm not scared"), figures of speech
+ * ("I fell asleep") and phrases about something else ("the 911 episode")
+ * don't count. The weights add up to a score per level, and the highest
+ * level whose score passes its threshold wins.
+ */
+
+export type SafetyLevel = 'emergency' | 'urgent' | 'concern';
+
+interface SafetyPattern {
+  id: string;
+  level: SafetyLevel;
+  /** How strongly one match suggests this level, 0–1 */
+  weight: number;
+  variants: string[];
+  /** Doesn't count when one of these follows straight after */
+  unlessFollowedBy?: string[];
+  /** Doesn't count as the start of one of these set phrases ("I'm afraid so") */
+  unlessPartOf?: string[];
+  /** Doesn't count when one of these words is within a few words either side */
+  unlessNear?: string[];
+  /** Only counts when it's the whole clause ("Help!") */
+  wholeClause?: boolean;
+}
+
+export interface PhraseMatch {
+  id: string;
+  level: SafetyLevel;
+  /** The words that matched */
+  text: string;
+  /** After adjustments for misspelling and reassurance */
+  weight: number;
+  fuzzy: boolean;
+}
+
+export interface SafetyAnalysis {
+  level: SafetyLevel | 'normal';
+  /** Score for the chosen level, 0–1 (0 when normal) */
+  confidence: number;
+  matches: PhraseMatch[];
+  /** Phrases that were found but negated, kept for debugging */
+  negated: PhraseMatch[];
+}
+
+/** Score a level needs before it's chosen */
+export const LEVEL_THRESHOLDS: Record<SafetyLevel, number> = {
+  emergency: 0.6,
+  urgent: 0.5,
+  concern: 0.35,
+};
+
+const LEVEL_ORDER: SafetyLevel[] = ['emergency', 'urgent', 'concern'];
+
+const PATTERNS: SafetyPattern[] = [
+  // Emergency
+  {
+    id: 'help_request',
+    level: 'emergency',
+    weight: 0.8,
+    variants: ['i need help', 'need help', 'help me', 'please help', 'call for help', 'get help', 'send help', 'somebody help', 'someone help', 'help help'],
+    unlessFollowedBy: ['with', 'to', 'find', 'remember', 'understand', 'write', 'choose', 'pick', 'decide', 'figure', 'learn', 'set', 'read', 'spell', 'plan', 'make', 'cook', 'think', 'out with', 'a bit with'],
+  },
+  {
+    id: 'cry_for_help',
+    level: 'emergency',
+    weight: 0.8,
+    variants: ['help', 'help please'],
+    wholeClause: true,
+  },
+  {
+    id: 'fall',
+    level: 'emergency',
+    weight: 0.75,
+    variants: ['i fell', 'i have fallen', 'i had a fall', 'i have had a fall', 'i slipped and fell', 'i tripped and fell', 'i have taken a fall', 'fallen down'],
+    unlessFollowedBy: ['asleep', 'in love', 'behind', 'for it', 'for that', 'for him', 'for her', 'apart', 'short', 'silent', 'quiet', 'into a routine', 'out with'],
+  },
+  {
+    id: 'cannot_get_up',
+    level: 'emergency',
+    weight: 0.85,
+    variants: ['can not get up', 'can not stand up', 'can not get off the floor', 'stuck on the floor', 'can not move my legs', 'can not move'],
+  },
+  {
+    id: 'breathing_difficulty',
+    level: 'emergency',
+    weight: 0.9,
+    variants: ['can not breathe', 'trouble breathing', 'difficulty breathing', 'hard to breathe', 'struggling to breathe', 'short of breath', 'can not catch my breath', 'gasping for air'],
+  },
+  {
+    id: 'chest_pain',
+    level: 'emergency',
+    weight: 0.9,
+    variants: ['chest pain', 'chest pains', 'pain in my chest', 'my chest hurts', 'chest is tight', 'tightness in my chest', 'pressure in my chest'],
+  },
+  {
+    id: 'stroke_signs',
+    level: 'emergency',
+    weight: 0.85,
+    variants: ['face is drooping', 'face feels droopy', 'can not feel my arm', 'can not feel my leg', 'can not lift my arm', 'slurring my words', 'numb on one side', 'can not speak properly'],
+  },
+  {
+    id: 'emergency_services',
+    level: 'emergency',
+    weight: 0.7,
+    // Only the user's own emergency, not an emergency meeting or exit
+    variants: [
+      'this is an emergency', 'it is an emergency', 'i have an emergency', 'having an emergency', 'medical emergency',
+      'call 911', '911', 'call 999', '999', 'ambulance', 'call an ambulance',
+    ],
+    unlessNear: [
+      'episode', 'episodes', 'show', 'series', 'movie', 'film', 'tv', 'television', 'programme', 'program', 'watching', 'watched',
+      'book', 'novel', 'song', 'contact', 'contacts', 'drill', 'kit', 'plan', 'number', 'exit', 'brake', 'room',
+      // Someone's work, or somewhere else's emergency
+      'department', 'hospital', 'ward', 'nurse', 'nurses', 'doctor', 'doctors', 'shift', 'job', 'works', 'worked', 'volunteer', 'volunteers', 'volunteered',
+    ],
+  },
+  {
+    id: 'unsafe',
+    level: 'emergency',
+    weight: 0.75,
+    variants: ['do not feel safe', 'feel unsafe', 'i am not safe', 'someone is in my house', 'somebody is in my house', 'someone broke in', 'someone is trying to get in', 'intruder'],
+  },
+  {
+    id: 'bleeding',
+    level: 'emergency',
+    weight: 0.8,
+    variants: ['bleeding a lot', 'bleeding badly', 'will not stop bleeding', 'lot of blood'],
+  },
+  {
+    id: 'fainted',
+    level: 'emergency',
+    weight: 0.7,
+    variants: ['i fainted', 'i passed out', 'i blacked out', 'i collapsed'],
+  },
+  {
+    id: 'self_harm',
+    level: 'emergency',
+    weight: 0.9,
+    variants: ['want to die', 'want to end it', 'end it all', 'kill myself', 'hurt myself', 'no reason to live', 'better off without me'],
+  },
+
+  // Urgent
+  {
+    id: 'fear',
+    level: 'urgent',
+    weight: 0.6,
+    variants: ['scared', 'afraid', 'frightened', 'terrified', 'panicking'],
+    // Polite ways of saying sorry rather than fear
+    unlessPartOf: [
+      'afraid so', 'afraid not', 'afraid that', 'afraid i can not', 'afraid i will not', 'afraid i could not',
+      'afraid i do not', 'afraid i did not', 'afraid i forgot', 'afraid i have to', 'afraid i must', 'afraid we can not', 'afraid we will not',
+    ],
+  },
+  {
+    id: 'dizziness',
+    level: 'urgent',
+    weight: 0.6,
+    variants: ['dizzy', 'lightheaded', 'light headed', 'room is spinning', 'feel faint', 'going to faint'],
+  },
+  {
+    id: 'weakness',
+    level: 'urgent',
+    weight: 0.55,
+    variants: ['i feel weak', 'feel very weak', 'feel so weak', 'too weak'],
+  },
+  {
+    id: 'heart_racing',
+    level: 'urgent',
+    weight: 0.6,
+    variants: ['heart racing', 'heart is racing', 'heart is pounding', 'palpitations', 'heart is beating fast', 'heart is fluttering'],
+  },
+  {
+    id: 'severe_pain',
+    level: 'urgent',
+    weight: 0.6,
+    variants: ['terrible pain', 'severe pain', 'so much pain', 'really bad pain', 'hurts so much', 'unbearable pain'],
+  },
+  {
+    id: 'disoriented',
+    level: 'urgent',
+    weight: 0.6,
+    variants: ['do not know where i am', 'where am i', 'i am lost', 'can not find my way home'],
+  },
+  {
+    id: 'head_injury',
+    level: 'urgent',
+    weight: 0.65,
+    variants: ['hit my head', 'bumped my head', 'banged my head'],
+  },
+
+  // Concern
+  {
+    id: 'unwell',
+    level: 'concern',
+    weight: 0.5,
+    variants: ['not feeling well', 'not feeling good', 'feel unwell', 'feeling unwell', 'feel sick', 'feeling sick', 'feel poorly', 'under the weather', 'i am not okay', 'i am not ok', 'i am not alright'],
+  },
+  {
+    id: 'tired',
+    level: 'concern',
+    weight: 0.4,
+    variants: ['feeling tired', 'so tired', 'very tired', 'exhausted', 'worn out'],
+  },
+  {
+    id: 'confused',
+    level: 'concern',
+    weight: 0.4,
+    variants: ['feeling confused', 'feel confused', 'so confused', 'muddled', 'foggy'],
+  },
+  {
+    id: 'missed_medication',
+    level: 'concern',
+    weight: 0.45,
+    variants: ['forgot to take', 'missed my medication', 'missed my pills', 'forgot my pills', 'forgot my medication', 'did not take my pills', 'did not take my medication'],
+  },
+  {
+    id: 'lonely',
+    level: 'concern',
+    weight: 0.45,
+    variants: ['feel lonely', 'feeling lonely', 'so lonely', 'very lonely', 'all alone', 'no one to talk to', 'nobody to talk to'],
+  },
+  {
+    id: 'low_mood',
+    level: 'concern',
+    weight: 0.45,
+    variants: ['feel sad', 'feeling sad', 'so sad', 'feeling down', 'feel down', 'depressed', 'hopeless'],
+  },
+];
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'without', 'hardly', 'nobody', 'none', 'nor', 'neither']);
+
+/** Words before a phrase that a negation can reach across */
+const NEGATION_WINDOW = 3;
+
+/** Words allowed between the words of a phrase */
+const MAX_GAP = 2;
+
+/**
+ * Misspellings that still count for a phrase word ("ambulence", "breath").
+ * Only these: one letter off a phrase word is often another word entirely
+ * ("lovely" and "lonely", "emergence" and "emergency").
+ */
+const MISSPELLINGS: Record<string, string[]> = {
+  ambulance: ['ambulence', 'ambulanse', 'amblance', 'ambalance'],
+  breathe: ['breath', 'breth', 'brethe'],
+  breathing: ['breathin', 'breething', 'breatheing'],
+  emergency: ['emergancy', 'emergancey', 'emergencey', 'emergeny', 'emergecy'],
+  bleeding: ['bleedin', 'bleding'],
+  scared: ['scard', 'skared', 'scaired'],
+  frightened: ['frightend', 'fritened', 'frightned'],
+  terrified: ['terified', 'terrifed'],
+  dizzy: ['dizy', 'dizzey', 'dizzie'],
+  lightheaded: ['lighheaded', 'lightheded', 'litheaded'],
+  palpitations: ['palpatations', 'palpitation', 'palpitaions'],
+  unwell: ['unwel'],
+  exhausted: ['exausted', 'exhasted', 'exhaused'],
+  lonely: ['lonley', 'lonly', 'lonelly'],
+  depressed: ['depresed', 'depressd'],
+  medication: ['medecation', 'medacation', 'medicaton'],
+};
+
+/** Reassurance later on halves the weight of what came before */
+const REASSURANCES = ['i am fine', 'i am okay', 'i am ok', 'i am alright', 'i am all right', 'no need to worry', 'nothing to worry about', 'do not worry'];
+
+const CONTRACTIONS: [RegExp, string][] = [
+  [/\bcan['’]?t\b/g, 'can not'],
+  [/\bcannot\b/g, 'can not'],
+  [/\bwon['’]t\b/g, 'will not'],
+  [/\bain['’]t\b/g, 'am not'],
+  [/\b(\w+)n['’]t\b/g, '$1 not'],
+  [/\b(do|does|did|is|was|are|were|could|would|should|has|have|had)nt\b/g, '$1 not'],
+  [/\bi['’]?m\b/g, 'i am'],
+  [/\b(i|you|we|they)['’]ve\b/g, '$1 have'],
+  [/\b(i|you|we|they|he|she)['’]ll\b/g, '$1 will'],
+  [/\b(i|you|we|they|he|she)['’]d\b/g, '$1 would'],
+  [/\b(it|that|there|he|she|what|where)['’]s\b/g, '$1 is'],
+  [/\b(you|we|they)['’]re\b/g, '$1 are'],
+];
+
+interface Token {
+  word: string;
+  clause: number;
+}
+
+/**
+ * Lower-case words with contractions expanded, numbered by clause
+ */
+export function tokenize(text: string): Token[] {
+  let normalized = text.toLowerCase();
+  for (const [pattern, replacement] of CONTRACTIONS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+
+  const tokens: Token[] = [];
+  normalized.split(/[.!?;,:\n]+|\s+-\s+|\bbut\b|\bthough\b|\bhowever\b/).forEach((clause, index) => {
+    for (const word of clause.replace(/[^a-z0-9\s]/g, ' ').split(/\s+/)) {
+      if (word) tokens.push({ word, clause: index });
+    }
+  });
+  return tokens;
+}
+
+/**
+ * Exact, or one of the phrase word's known misspellings
+ */
+function wordMatches(word: string, expected: string): 'exact' | 'fuzzy' | null {
+  if (word === expected) return 'exact';
+  if (MISSPELLINGS[expected]?.includes(word)) return 'fuzzy';
+  return null;
+}
+
+/**
+ * Find a phrase starting at `start`, with small gaps (never across a clause or
+ * over a negation). Returns the index after the last matched word.
+ */
+function matchAt(tokens: Token[], start: number, words: string[]): { end: number; fuzzy: boolean } | null {
+  let fuzzy = false;
+  let position = start;
+  for (let w = 0; w < words.length; w++) {
+    let found = -1;
+    const limit = w === 0 ? start : Math.min(tokens.length - 1, position + MAX_GAP);
+    for (let t = position; t <= limit; t++) {
+      if (tokens[t].clause !== tokens[start].clause) break;
+      const result = wordMatches(tokens[t].word, words[w]);
+      if (result) {
+        found = t;
+        fuzzy = fuzzy || result === 'fuzzy';
+        break;
+      }
+      if (NEGATIONS.has(tokens[t].word)) break;
+    }
+    if (found < 0) return null;
+    position = found + 1;
+  }
+  return { end: position, fuzzy };
+}
+
+function followedBy(tokens: Token[], end: number, phrases: string[]): boolean {
+  return phrases.some((phrase) =>
+    phrase.split(' ').every((word, offset) => tokens[end + offset]?.word === word && tokens[end + offset].clause === tokens[end - 1].clause)
+  );
+}
+
+function startsPhrase(tokens: Token[], start: number, phrases: string[]): boolean {
+  return phrases.some((phrase) =>
+    phrase.split(' ').every((word, offset) => tokens[start + offset]?.word === word && tokens[start + offset].clause === tokens[start].clause)
+  );
+}
+
+function isWholeClause(tokens: Token[], start: number, end: number): boolean {
+  const clause = tokens[start].clause;
+  return tokens[start - 1]?.clause !== clause && tokens[end]?.clause !== clause;
+}
+
+function isNegated(tokens: Token[], start: number): boolean {
+  for (let t = start - 1; t >= Math.max(0, start - NEGATION_WINDOW); t--) {
+    if (tokens[t].clause !== tokens[start].clause) return false;
+    if (NEGATIONS.has(tokens[t].word)) return true;
+  }
+  // "no longer scared"
+  return tokens[start - 1]?.word === 'longer' && tokens[start - 2]?.word === 'no';
+}
+
+function phraseClauses(tokens: Token[], phrases: string[]): number[] {
+  const clauses: number[] = [];
+  for (let start = 0; start < tokens.length; start++) {
+    for (const phrase of phrases) {
+      const words = phrase.split(' ');
+      if (words.every((word, offset) => tokens[start + offset]?.word === word) && !isNegated(tokens, start)) {
+        clauses.push(tokens[start].clause);
+      }
+    }
+  }
+  return clauses;
+}
+
+/**
+ * Combine independent signals: 1 - (1 - w1)(1 - w2)…
+ */
+function combine(weights: number[]): number {
+  return 1 - weights.reduce((remaining, weight) => remaining * (1 - weight), 1);
+}
+
+/**
+ * Score a piece of text for safety concerns
+ */
+export function analyzeSafetyText(text: string): SafetyAnalysis {
+  const tokens = tokenize(text);
+  const reassuredIn = phraseClauses(tokens, REASSURANCES);
+  const matches: PhraseMatch[] = [];
+  const negated: PhraseMatch[] = [];
+
+  for (const pattern of PATTERNS) {
+    let best: { match: PhraseMatch; negated: boolean } | null = null;
+
+    for (const variant of pattern.variants) {
+      const words = variant.split(' ');
+      for (let start = 0; start < tokens.length; start++) {
+        const found = matchAt(tokens, start, words);
+        if (!found) continue;
+        if (pattern.wholeClause && !isWholeClause(tokens, start, found.end)) continue;
+        if (pattern.unlessFollowedBy && followedBy(tokens, found.end, pattern.unlessFollowedBy)) continue;
+        if (pattern.unlessPartOf && startsPhrase(tokens, start, pattern.unlessPartOf)) continue;
+        if (pattern.unlessNear) {
+          const clause = tokens[start].clause;
+          const nearby = tokens
+            .slice(Math.max(0, start - 3), found.end + 3)
+            .filter((token) => token.clause === clause)
+            .map((token) => token.word);
+          if (pattern.unlessNear.some((word) => nearby.includes(word))) continue;
+        }
+
+        let weight = found.fuzzy ? pattern.weight * 0.85 : pattern.weight;
+        // "I fell earlier, but I'm fine now"
+        if (reassuredIn.some((clause) => clause > tokens[start].clause)) weight *= 0.5;
+
+        const match: PhraseMatch = {
+          id: pattern.id,
+          level: pattern.level,
+          text: tokens.slice(start, found.end).map((token) => token.word).join(' '),
+          weight: Math.round(weight * 100) / 100,
+          fuzzy: found.fuzzy,
+        };
+        const isNegatedMatch = isNegated(tokens, start);
+        // A plain match beats a negated one; otherwise keep the strongest
+        if (!best || (best.negated && !isNegatedMatch) || (best.negated === isNegatedMatch && match.weight > best.match.weight)) {
+          best = { match, negated: isNegatedMatch };
+        }
+      }
+    }
+
+    if (best) (best.negated ? negated : matches).push(best.match);
+  }
+
+  // Stronger signals also count towards the levels below them
+  for (const level of LEVEL_ORDER) {
+    const reach = LEVEL_ORDER.slice(0, LEVEL_ORDER.indexOf(level) + 1);
+    const score = combine(matches.filter((match) => reach.includes(match.level)).map((match) => match.weight));
+    if (score >= LEVEL_THRESHOLDS[level]) {
+      return { level, confidence: Math.round(score * 100) / 100, matches, negated };
+    }
+  }
+
+  return { level: 'normal', confidence: 0, matches, negated };
+}
@@ -0,0 +1,165 @@
+/**
+ * Safety Screening
+ *
+ * Middleware for every route where the user talks to Amily. What they said
+ * goes through safety detection before the route answers. An emergency or
+ * urgent concern stops the route there: the Care Circle is alerted, with
+ * the route recorded on the alert, and Amily replies with calm reassurance
+ * instead. Milder concerns are left on res.locals for the route to use.
+ * While a fall check is waiting, anything that reads as an answer to it
+ * ("I'm okay", "I can't get up") is taken as one; anything else goes on
+ * to the route as usual.
+ */
+
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import {
+  detectSafetyConcerns,
+  getEmergencyReassurance,
+  handleEmergency,
+  type SafetyAlert,
+} from './safety';
+import { answerFallCheck, isFallAnswer, pendingFallCheck } from './fallFollowUp';
+import { generateTTS } from './services';
+
+export interface SafetyScreenOptions {
+  /** Where validate() left the user's words */
+  from: 'body' | 'query';
+  /** The field holding them */
+  field: string;
+  /** Answer as a Server-Sent Event instead of JSON */
+  stream?: boolean;
+}
+
+export interface ScreenedEmergency {
+  alert: SafetyAlert;
+  alertId: string | null;
+  ttsText: string;
+  audioUrl: string | null;
+  timestamp: string;
+}
+
+/**
+ * Alert the Care Circle and prepare what Amily says back. Reassurance goes
+ * out even when the alert couldn't be stored, so nobody is left waiting.
+ */
+async function respondToEmergency(userId: string, alert: SafetyAlert, text: string, route: string): Promise<ScreenedEmergency> {
+  let alertId: string | null = null;
+  try {
+    ({ alertId } = await handleEmergency(userId, alert, undefined, text, 'conversation', route));
+  } catch (error) {
+    console.error(`Safety alert from ${route} could not be raised:`, error);
+  }
+
+  const ttsText = getEmergencyReassurance(alert);
+  const audioUrl = await generateTTS(ttsText).catch((error) => {
+    console.warn('Reassurance TTS failed (continuing without audio):', error);
+    return null;
+  });
+
+  return { alert, alertId, ttsText, audioUrl, timestamp: new Date().toISOString() };
+}
+
+/**
+ * Answer as a single Server-Sent Event
+ */
+function sendEvent(res: Response, event: string, data: unknown): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.end(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Take what the user said as their answer to a waiting fall check
+ */
+async function respondToFallCheck(req: Request, res: Response, options: SafetyScreenOptions, userId: string, text: string): Promise<void> {
+  const answer = await answerFallCheck(userId, { text, channel: 'text' });
+  const audioUrl = await generateTTS(answer.reply).catch((error) => {
+    console.warn('Fall check TTS failed (continuing without audio):', error);
+    return null;
+  });
+  const result = {
+    fallCheck: { alertId: answer.alert.id, outcome: answer.outcome, status: answer.alert.status },
+    ttsText: answer.reply,
+    audioUrl,
+    timestamp: new Date().toISOString(),
+  };
+  console.log(`🩹 Fall check for ${userId} answered on ${req.path}: ${answer.outcome}`);
+
+  if (options.stream) {
+    sendEvent(res, 'fall_check', result);
+    return;
+  }
+
+  res.json({
+    success: true,
+    emergency: answer.outcome === 'help',
+    ...result,
+    data: {
+      emotion: answer.outcome === 'help' ? 'emergency' : 'calm',
+      response: answer.reply,
+    },
+  });
+}
+
+/**
+ * Screen what the user said before the route handles it
+ */
+export function screenSafety(options: SafetyScreenOptions): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const source = options.from === 'body' ? req.body : req.query;
+    const text = source?.[options.field];
+    if (typeof text !== 'string' || !text.trim()) return next();
+
+    try {
+      if (isFallAnswer(text) && (await pendingFallCheck(source.userId))) {
+        return await respondToFallCheck(req, res, options, source.userId, text);
+      }
+
+      const alert = detectSafetyConcerns(text);
+      if (alert.level !== 'emergency' && alert.level !== 'urgent') {
+        res.locals.safetyAlert = alert;
+        return next();
+      }
+
+      const result = await respondToEmergency(source.userId, alert, text, req.path);
+
+      if (options.stream) {
+        sendEvent(res, 'emergency', result);
+        return;
+      }
+
+      res.json({
+        success: true,
+        emergency: true,
+        alert: result.alert,
+        alertId: result.alertId,
+        data: {
+          emotion: 'emergency',
+          response: result.ttsText,
+        },
+        ttsText: result.ttsText,
+        audioUrl: result.audioUrl,
+        timestamp: result.timestamp,
+      });
+    } catch (error) {
+      console.error(`Safety screening on ${req.path} failed:`, error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          error: "I'm here... let's take a breath together.",
+        });
+      }
+    }
+  };
+}
+
+/**
+ * The milder concern screening found, if any
+ */
+export function screenedConcern(res: Response): SafetyAlert | null {
+  const alert: SafetyAlert | undefined = res.locals.safetyAlert;
+  return alert?.level === 'concern' ? alert : null;
+}
@@ -12,15 +12,45 @@ export const PlanJSONSchema = z.object({
 
 export type PlanJSON = z.infer<typeof PlanJSONSchema>;
 
+/**
+ * The tags a memory can have, so MemoryLane can be browsed by them
+ */
+export const MEMORY_TAGS = [
+  'family',
+  'friends',
+  'love',
+  'childhood',
+  'school',
+  'work',
+  'home',
+  'travel',
+  'war',
+  'music',
+  'food',
+  'faith',
+  'sport',
+  'nature',
+  'animals',
+  'celebration',
+  'loss',
+  'personal',
+] as const;
+
+export const MemoryTagSchema = z.enum(MEMORY_TAGS);
+
+export type MemoryTag = z.infer<typeof MemoryTagSchema>;
+
 /**
  * MemoryJSON: Captured life story or memory for MemoryLane
  */
 export const MemoryJSONSchema = z.object({
-  title: z.string().describe('Brief title for the memory'),
-  era: z.string().describe('Time period or era (e.g., "1960s", "College years")'),
-  story_3_sentences: z.string().describe('The memory told in 3 simple sentences'),
-  tags: z.array(z.string()).describe('Categories like travel, family, work'),
-  quote: z.string().optional().describe('A memorable quote from the story'),
+  title: z.string().min(1).describe('Short, meaningful title for the memory, e.g. "Summers at the lake"'),
+  era: z.string().min(1).describe('When it happened: a decade ("1960s") or a life stage ("Childhood", "Working years")'),
+  story_3_sentences: z.string().min(1).describe('The memory told in 3 simple sentences'),
+  tags: z.array(MemoryTagSchema).min(1).max(4).describe('One to four categories for the memory'),
+  quote: z.string().optional().describe("A memorable line from the story, in the teller's own words"),
+  people: z.array(z.string()).optional().describe('People mentioned, by name or relation (e.g. "Bob", "my brother")'),
+  places: z.array(z.string()).optional().describe('Places mentioned'),
 });
 
 export type MemoryJSON = z.infer<typeof MemoryJSONSchema>;
@@ -43,8 +73,533 @@ export const ResponseSchema = z.object({
   success: z.boolean(),
   data: z.union([PlanJSONSchema, MemoryJSONSchema, SummaryJSONSchema, z.any()]),
   ttsText: z.string().optional().describe('Text formatted for ElevenLabs TTS'),
-  audioUrl: z.string().optional().describe('Audio URL (base64 data URL)'),
+  audioUrl: z.string().optional().describe('Audio URL served from /api/audio/:id'),
   timestamp: z.string(),
 });
 
 export type Response = z.infer<typeof ResponseSchema>;
+
+/**
+ * Request schemas
+ *
+ * Inputs for each API route. Messages are written for the person using
+ * Amily, since they are read back to them.
+ */
+
+const SIGN_IN_AGAIN = 'I need to know who you are… please sign in again.';
+
+const UserIdSchema = z.string({ required_error: SIGN_IN_AGAIN }).trim().min(1, SIGN_IN_AGAIN).max(128);
+
+const TimeOfDaySchema = z.enum(['morning', 'afternoon', 'evening']);
+
+const MoodSchema = z.enum(['low', 'ok', 'good']);
+
+const LocationSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+export const UserIdParamsSchema = z.object({
+  userId: UserIdSchema,
+});
+
+export type UserIdParams = z.infer<typeof UserIdParamsSchema>;
+
+export const UserIdQuerySchema = z.object({
+  userId: UserIdSchema,
+});
+
+export type UserIdQuery = z.infer<typeof UserIdQuerySchema>;
+
+const TimeZoneSchema = z
+  .string()
+  .trim()
+  .max(64)
+  .refine((name) => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: name });
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'Please give a time zone like Europe/London or America/New_York.');
+
+export const PreferencesUpdateSchema = z
+  .object({
+    timezone: TimeZoneSchema.optional(),
+    /** Tell the Care Circle when a medication dose is missed */
+    missedDoseAlerts: z.boolean().optional(),
+    /** Glasses of water a day */
+    hydrationGoal: z.number().int().min(1, 'A goal of at least one glass, please.').max(20).optional(),
+    /** Where the user lives, for the weather; null forgets it */
+    location: LocationSchema.extend({ name: z.string().trim().max(100).optional() }).nullable().optional(),
+    temperatureUnit: z.enum(['C', 'F']).optional(),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: 'Which setting would you like to change?',
+    path: ['timezone'],
+  });
+
+export type PreferencesUpdate = z.infer<typeof PreferencesUpdateSchema>;
+
+export const AudioParamsSchema = z.object({
+  id: z.string().regex(/^[a-f0-9]{40}$/, "I couldn't find that recording."),
+});
+
+export const CheckInRequestSchema = z.object({
+  userId: UserIdSchema,
+  userInput: z.string().trim().max(2000).optional(),
+  mood: MoodSchema.optional(),
+});
+
+export type CheckInRequest = z.infer<typeof CheckInRequestSchema>;
+
+export const SignUpRequestSchema = z.object({
+  email: z.string({ required_error: 'Email and password are required.' }).trim().email('That email address doesn\'t look quite right… could you check it?'),
+  password: z.string({ required_error: 'Email and password are required.' }).min(6, 'Please choose a password with at least 6 characters.'),
+  fullName: z.string().trim().max(200).optional(),
+  supportedPerson: z.string().trim().max(200).optional(),
+});
+
+export type SignUpRequest = z.infer<typeof SignUpRequestSchema>;
+
+export const LoginRequestSchema = z.object({
+  email: z.string({ required_error: 'Email and password are required.' }).trim().min(1, 'Email and password are required.'),
+  password: z.string({ required_error: 'Email and password are required.' }).min(1, 'Email and password are required.'),
+});
+
+export type LoginRequest = z.infer<typeof LoginRequestSchema>;
+
+export const ChatboxRequestSchema = z.object({
+  userId: UserIdSchema,
+  input: z
+    .string({ required_error: 'Please share a little about how you are feeling.' })
+    .trim()
+    .min(1, 'Please share a little about how you are feeling.')
+    .max(2000, "That's a lot to take in at once… could you tell me a little at a time?"),
+});
+
+export type ChatboxRequest = z.infer<typeof ChatboxRequestSchema>;
+
+export const MemoryRequestSchema = z.object({
+  userId: UserIdSchema,
+  storyInput: z
+    .string({ required_error: 'Please share a memory with me.' })
+    .trim()
+    .min(1, 'Please share a memory with me.')
+    .max(10000),
+  /** May it go in the family book? */
+  shareable: z.boolean().optional(),
+});
+
+export type MemoryRequest = z.infer<typeof MemoryRequestSchema>;
+
+export const MemoryParamsSchema = z.object({
+  memoryId: z.string().trim().min(1).max(128),
+});
+
+export type MemoryParams = z.infer<typeof MemoryParamsSchema>;
+
+export const MemoriesQuerySchema = z.object({
+  userId: UserIdSchema,
+});
+
+export type MemoriesQuery = z.infer<typeof MemoriesQuerySchema>;
+
+export const MemorySearchQuerySchema = z
+  .object({
+    userId: UserIdSchema,
+    /** Words anywhere in the memory */
+    q: z.string().trim().min(1).max(200).optional(),
+    tag: MemoryTagSchema.optional(),
+    person: z.string().trim().min(1).max(100).optional(),
+    era: z.string().trim().min(1).max(100).optional(),
+  })
+  .refine((query) => query.q || query.tag || query.person || query.era, {
+    message: 'What should I look for? A word, a tag, a person or a time will do.',
+    path: ['q'],
+  });
+
+export type MemorySearchQuery = z.infer<typeof MemorySearchQuerySchema>;
+
+/**
+ * What the user can correct (the title, the era, or the story itself), and
+ * whether the memory may go in the family book
+ */
+export const MemoryUpdateSchema = z
+  .object({
+    title: z.string().trim().min(1, 'What should the story be called?').max(200).optional(),
+    era: z.string().trim().min(1, 'When did it happen?').max(100).optional(),
+    story: z.string().trim().min(1, 'Please tell me the story.').max(10000).optional(),
+    shareable: z.boolean().optional(),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: 'What would you like to change... the title, when it happened, or the story?',
+    path: ['title'],
+  });
+
+export type MemoryUpdate = z.infer<typeof MemoryUpdateSchema>;
+
+export const MemoryReplayRequestSchema = z
+  .object({
+    userId: UserIdSchema,
+    memoryId: z.string().trim().min(1).max(128).optional(),
+    /** What the user asked for, e.g. "that story about the bakery" */
+    about: z.string().trim().min(1).max(500).optional(),
+  })
+  .refine((body) => body.memoryId !== undefined || body.about !== undefined, {
+    message: 'Which story would you like to hear again?',
+    path: ['about'],
+  });
+
+export type MemoryReplayRequest = z.infer<typeof MemoryReplayRequestSchema>;
+
+export const MemoryBookFormatSchema = z.enum(['markdown', 'html', 'epub', 'pdf']);
+
+export type MemoryBookFormat = z.infer<typeof MemoryBookFormatSchema>;
+
+export const MemoryBookRequestSchema = z.object({
+  userId: UserIdSchema,
+  format: MemoryBookFormatSchema.default('pdf'),
+  title: z.string().trim().min(1).max(200).optional(),
+});
+
+export type MemoryBookRequest = z.infer<typeof MemoryBookRequestSchema>;
+
+export const MemoryExportParamsSchema = z.object({
+  exportId: z.string().trim().min(1).max(128),
+});
+
+export type MemoryExportParams = z.infer<typeof MemoryExportParamsSchema>;
+
+export const BuddyRequestSchema = z.object({
+  userId: UserIdSchema,
+  messageFrom: z.string().trim().max(200).optional(),
+  messageText: z.string().trim().max(5000).optional(),
+});
+
+export type BuddyRequest = z.infer<typeof BuddyRequestSchema>;
+
+// The web client sends `input`; older clients send `userInput`
+export const EmpathyRequestSchema = z
+  .object({
+    userId: UserIdSchema.optional(),
+    userInput: z.string().trim().max(2000).optional(),
+    input: z.string().trim().max(2000).optional(),
+  })
+  .refine((body) => Boolean(body.userInput || body.input), {
+    message: "I'm listening… tell me how you're feeling.",
+    path: ['userInput'],
+  })
+  .transform(({ userId, userInput, input }) => ({
+    userId,
+    userInput: (userInput || input) as string,
+  }));
+
+export type EmpathyRequest = z.infer<typeof EmpathyRequestSchema>;
+
+export const VitalsDataSchema = z.object({
+  heartRate: z.number().positive().max(300).optional(),
+  spo2: z.number().min(50).max(100).optional(),
+  bloodPressure: z
+    .object({
+      systolic: z.number().min(40).max(300),
+      diastolic: z.number().min(20).max(200),
+    })
+    .optional(),
+  /** °C */
+  temperature: z.number().min(25).max(45).optional(),
+  steps: z.number().int().min(0).max(100_000).optional(),
+  sleepHours: z.number().min(0).max(24).optional(),
+  fallDetected: z.boolean().optional(),
+  location: LocationSchema.optional(),
+  timestamp: z.string().datetime({ offset: true }).default(() => new Date().toISOString()),
+});
+
+export const VitalsRequestSchema = z.object({
+  userId: UserIdSchema,
+  vitals: VitalsDataSchema,
+});
+
+export type VitalsRequest = z.infer<typeof VitalsRequestSchema>;
+
+export const VitalsSummaryQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(7),
+});
+
+export type VitalsSummaryQuery = z.infer<typeof VitalsSummaryQuerySchema>;
+
+export const MoodTrendsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(14),
+  weeks: z.coerce.number().int().min(1).max(12).default(4),
+});
+
+export type MoodTrendsQuery = z.infer<typeof MoodTrendsQuerySchema>;
+
+export const VitalsImportQuerySchema = z.object({
+  userId: UserIdSchema,
+  format: z.enum(['apple-health', 'google-fit', 'fitbit', 'csv']).optional(),
+});
+
+export type VitalsImportQuery = z.infer<typeof VitalsImportQuerySchema>;
+
+export const FallResponseRequestSchema = z
+  .object({
+    userId: UserIdSchema,
+    /** The waiting fall check, when there could be more than one */
+    alertId: z.string().trim().min(1).max(128).optional(),
+    /** A button press */
+    response: z.enum(['ok', 'help']).optional(),
+    /** What the user said or typed */
+    text: z.string().trim().min(1).max(1000).optional(),
+    channel: z.enum(['voice', 'text', 'button']).optional(),
+  })
+  .refine((body) => body.response !== undefined || body.text !== undefined, {
+    message: 'Just let me know how you are... press a button, or tell me in a few words.',
+    path: ['response'],
+  });
+
+export type FallResponseRequest = z.infer<typeof FallResponseRequestSchema>;
+
+export const EmergencyRequestSchema = z.object({
+  userId: UserIdSchema,
+  type: z.string().trim().max(100).optional(),
+  location: LocationSchema.optional(),
+});
+
+export type EmergencyRequest = z.infer<typeof EmergencyRequestSchema>;
+
+export const NudgesQuerySchema = z.object({
+  userId: UserIdSchema,
+  timeOfDay: TimeOfDaySchema.default('morning'),
+  mood: MoodSchema.default('ok'),
+});
+
+export type NudgesQuery = z.infer<typeof NudgesQuerySchema>;
+
+export const WellnessLogRequestSchema = z.object({
+  userId: UserIdSchema,
+  type: z.enum(['water', 'medication', 'activity']),
+  value: z.union([z.number(), z.string().max(500), z.boolean()]).optional(),
+  /** For medication entries: the dose taken (otherwise the nearest one due) */
+  doseId: z.string().trim().min(1).max(200).optional(),
+});
+
+export type WellnessLogRequest = z.infer<typeof WellnessLogRequestSchema>;
+
+export const HydrationHistoryQuerySchema = z.object({
+  userId: UserIdSchema,
+  period: z.enum(['daily', 'weekly']).default('daily'),
+  /** Days (daily) or weeks (weekly) to include */
+  count: z.coerce.number().int().min(1).max(90).optional(),
+});
+
+export type HydrationHistoryQuery = z.infer<typeof HydrationHistoryQuerySchema>;
+
+/**
+ * What a linked caregiver may read: preferences, wellness nudges and
+ * logs, safety alerts, or memories
+ */
+export const CaregiverScopeSchema = z.enum(['preferences', 'wellness', 'safety', 'memories']);
+
+export type CaregiverScope = z.infer<typeof CaregiverScopeSchema>;
+
+export const CaregiverParamsSchema = z.object({
+  caregiverId: z.string().trim().min(1).max(128),
+});
+
+export type CaregiverParams = z.infer<typeof CaregiverParamsSchema>;
+
+export const CaregiverLinkRequestSchema = z.object({
+  scopes: z
+    .array(CaregiverScopeSchema)
+    .min(1, 'Please choose at least one thing they can see.')
+    .transform((scopes) => [...new Set(scopes)]),
+});
+
+export type CaregiverLinkRequest = z.infer<typeof CaregiverLinkRequestSchema>;
+
+/**
+ * Care Circle
+ */
+export const CareCircleRoleSchema = z.enum(['primary', 'secondary', 'observer']);
+
+export type CareCircleRole = z.infer<typeof CareCircleRoleSchema>;
+
+export const AlertLevelSchema = z.enum(['emergency', 'urgent', 'concern']);
+
+export type AlertLevel = z.infer<typeof AlertLevelSchema>;
+
+/** Which alert levels a member wants to hear about */
+export const NotifyPreferencesSchema = z.object({
+  emergency: z.boolean(),
+  urgent: z.boolean(),
+  concern: z.boolean(),
+});
+
+export type NotifyPreferences = z.infer<typeof NotifyPreferencesSchema>;
+
+const ScopeListSchema = z
+  .array(CaregiverScopeSchema)
+  .transform((scopes) => [...new Set(scopes)]);
+
+export const CareCircleInviteRequestSchema = z.object({
+  /** Whose circle; defaults to the signed-in user */
+  seniorId: UserIdSchema.optional(),
+  name: z
+    .string({ required_error: 'Who would you like to invite? Please share their name.' })
+    .trim()
+    .min(1, 'Who would you like to invite? Please share their name.')
+    .max(200),
+  email: z.string().trim().email('That email address doesn\'t look quite right… could you check it?').optional(),
+  phone: z.string().trim().max(40).optional(),
+  role: CareCircleRoleSchema.default('secondary'),
+  scopes: ScopeListSchema.optional(),
+  notify: NotifyPreferencesSchema.partial().optional(),
+});
+
+export type CareCircleInviteRequest = z.infer<typeof CareCircleInviteRequestSchema>;
+
+export const InvitationParamsSchema = z.object({
+  code: z.string().trim().regex(/^[A-Za-z0-9_-]{16,64}$/, "That invitation doesn't look quite right… could you check the link?"),
+});
+
+export type InvitationParams = z.infer<typeof InvitationParamsSchema>;
+
+export const CareCircleMemberParamsSchema = z.object({
+  memberId: z.string().trim().min(1).max(128),
+});
+
+export type CareCircleMemberParams = z.infer<typeof CareCircleMemberParamsSchema>;
+
+export const CareCircleConsentRequestSchema = z.object({
+  consent: z.boolean({ required_error: 'Please let me know if you are happy to share with them.' }),
+});
+
+export type CareCircleConsentRequest = z.infer<typeof CareCircleConsentRequestSchema>;
+
+export const CareCircleMemberUpdateSchema = z.object({
+  role: CareCircleRoleSchema.optional(),
+  scopes: ScopeListSchema.optional(),
+  notify: NotifyPreferencesSchema.partial().optional(),
+});
+
+export type CareCircleMemberUpdate = z.infer<typeof CareCircleMemberUpdateSchema>;
+
+/**
+ * Alerts
+ */
+export const AlertStatusSchema = z.enum(['awaiting_response', 'open', 'notified', 'acknowledged', 'resolved']);
+
+export const AlertsQuerySchema = z.object({
+  userId: UserIdSchema,
+  status: AlertStatusSchema.optional(),
+  since: z.string().datetime({ offset: true }).optional(),
+  until: z.string().datetime({ offset: true }).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type AlertsQuery = z.infer<typeof AlertsQuerySchema>;
+
+export const AlertParamsSchema = z.object({
+  alertId: z.string().trim().min(1).max(128),
+});
+
+export type AlertParams = z.infer<typeof AlertParamsSchema>;
+
+export const AlertActionRequestSchema = z.object({
+  note: z.string().trim().max(1000).optional(),
+});
+
+export type AlertActionRequest = z.infer<typeof AlertActionRequestSchema>;
+
+/**
+ * Notifications
+ */
+export const DeadLettersQuerySchema = z.object({
+  userId: UserIdSchema,
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type DeadLettersQuery = z.infer<typeof DeadLettersQuerySchema>;
+
+export const NotificationParamsSchema = z.object({
+  notificationId: z.string().trim().min(1).max(128),
+});
+
+export type NotificationParams = z.infer<typeof NotificationParamsSchema>;
+
+/**
+ * Medications
+ */
+const ClockTimeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Please give times like 08:00 or 20:30.');
+
+const MedicationFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'What is the medication called?').max(200),
+  dosage: z.string().trim().min(1, 'How much should be taken each time?').max(200),
+  times: z
+    .array(ClockTimeSchema)
+    .min(1, 'When should it be taken?')
+    .max(12)
+    .transform((times) => [...new Set(times)].sort()),
+  withFood: z.boolean().optional(),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+export const MedicationRequestSchema = MedicationFieldsSchema.extend({
+  userId: UserIdSchema,
+});
+
+export type MedicationRequest = z.infer<typeof MedicationRequestSchema>;
+
+export const MedicationUpdateSchema = MedicationFieldsSchema.partial();
+
+export type MedicationUpdate = z.infer<typeof MedicationUpdateSchema>;
+
+export const MedicationParamsSchema = z.object({
+  medicationId: z.string().trim().min(1).max(128),
+});
+
+export type MedicationParams = z.infer<typeof MedicationParamsSchema>;
+
+export const MedicationsQuerySchema = z.object({
+  userId: UserIdSchema,
+  includeInactive: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+});
+
+export type MedicationsQuery = z.infer<typeof MedicationsQuerySchema>;
+
+export const DosesQuerySchema = z.object({
+  userId: UserIdSchema,
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Please give the date as YYYY-MM-DD.').optional(),
+});
+
+export type DosesQuery = z.infer<typeof DosesQuerySchema>;
+
+export const DoseParamsSchema = z.object({
+  doseId: z.string().trim().min(1).max(200),
+});
+
+export type DoseParams = z.infer<typeof DoseParamsSchema>;
+
+export const DoseRecordRequestSchema = z.object({
+  status: z.enum(['taken', 'skipped']).default('taken'),
+  note: z.string().trim().max(500).optional(),
+});
+
+export type DoseRecordRequest = z.infer<typeof DoseRecordRequestSchema>;
+
+export const DoseSnoozeRequestSchema = z.object({
+  minutes: z.number().int().min(1).max(240).optional(),
+});
+
+export type DoseSnoozeRequest = z.infer<typeof DoseSnoozeRequestSchema>;
+
+export const AdherenceQuerySchema = z.object({
+  userId: UserIdSchema,
+  weeks: z.coerce.number().int().min(1).max(12).default(4),
+});
+
+export type AdherenceQuery = z.infer<typeof AdherenceQuerySchema>;
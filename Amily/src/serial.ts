@@ -0,0 +1,18 @@
+/**
+ * Serial Passes
+ *
+ * Background workers run a pass on a timer and on demand. Two passes at
+ * once could send the same reminder or alert twice, so each one waits
+ * for the one before it, whether that succeeded or failed.
+ */
+
+export type SerialRunner = <T>(pass: () => Promise<T>) => Promise<T>;
+
+export function createSerialRunner(): SerialRunner {
+  let previous: Promise<unknown> = Promise.resolve();
+  return (pass) => {
+    const next = previous.catch(() => undefined).then(pass);
+    previous = next;
+    return next;
+  };
+}
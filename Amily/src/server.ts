@@ -1,15 +1,169 @@
 import express, { Request, Response } from 'express';
 import cors from 'cors';
 import path from 'path';
+import { randomUUID } from 'crypto';
 import { config } from './config';
 import { 
   PlanJSONSchema, 
   MemoryJSONSchema, 
   SummaryJSONSchema,
-  type PlanJSON,
-  type MemoryJSON,
+  UserIdParamsSchema,
+  UserIdQuerySchema,
+  AudioParamsSchema,
+  CheckInRequestSchema,
+  SignUpRequestSchema,
+  LoginRequestSchema,
+  ChatboxRequestSchema,
+  MemoryRequestSchema,
+  BuddyRequestSchema,
+  EmpathyRequestSchema,
+  VitalsRequestSchema,
+  VitalsSummaryQuerySchema,
+  MoodTrendsQuerySchema,
+  MemoryParamsSchema,
+  MemoriesQuerySchema,
+  MemorySearchQuerySchema,
+  MemoryUpdateSchema,
+  MemoryReplayRequestSchema,
+  MemoryBookRequestSchema,
+  MemoryExportParamsSchema,
+  VitalsImportQuerySchema,
+  FallResponseRequestSchema,
+  EmergencyRequestSchema,
+  NudgesQuerySchema,
+  WellnessLogRequestSchema,
+  CaregiverParamsSchema,
+  CaregiverLinkRequestSchema,
+  CareCircleInviteRequestSchema,
+  InvitationParamsSchema,
+  CareCircleMemberParamsSchema,
+  CareCircleConsentRequestSchema,
+  CareCircleMemberUpdateSchema,
+  AlertsQuerySchema,
+  AlertParamsSchema,
+  AlertActionRequestSchema,
+  DeadLettersQuerySchema,
+  NotificationParamsSchema,
+  MedicationRequestSchema,
+  MedicationUpdateSchema,
+  MedicationParamsSchema,
+  MedicationsQuerySchema,
+  DosesQuerySchema,
+  DoseParamsSchema,
+  DoseRecordRequestSchema,
+  DoseSnoozeRequestSchema,
+  AdherenceQuerySchema,
+  PreferencesUpdateSchema,
+  HydrationHistoryQuerySchema,
   type SummaryJSON,
+  type UserIdParams,
+  type UserIdQuery,
+  type CheckInRequest,
+  type SignUpRequest,
+  type LoginRequest,
+  type ChatboxRequest,
+  type MemoryRequest,
+  type BuddyRequest,
+  type EmpathyRequest,
+  type VitalsRequest,
+  type VitalsSummaryQuery,
+  type MoodTrendsQuery,
+  type MemoryParams,
+  type MemoriesQuery,
+  type MemorySearchQuery,
+  type MemoryUpdate,
+  type MemoryReplayRequest,
+  type MemoryBookRequest,
+  type MemoryExportParams,
+  type MemoryBookFormat,
+  type VitalsImportQuery,
+  type FallResponseRequest,
+  type EmergencyRequest,
+  type NudgesQuery,
+  type WellnessLogRequest,
+  type CaregiverParams,
+  type CaregiverLinkRequest,
+  type CareCircleInviteRequest,
+  type InvitationParams,
+  type CareCircleMemberParams,
+  type CareCircleConsentRequest,
+  type CareCircleMemberUpdate,
+  type AlertsQuery,
+  type AlertParams,
+  type AlertActionRequest,
+  type DeadLettersQuery,
+  type NotificationParams,
+  type MedicationRequest,
+  type MedicationUpdate,
+  type MedicationParams,
+  type MedicationsQuery,
+  type DosesQuery,
+  type DoseParams,
+  type DoseRecordRequest,
+  type DoseSnoozeRequest,
+  type AdherenceQuery,
+  type PreferencesUpdate,
+  type HydrationHistoryQuery,
 } from './schemas';
+import { validate, type ValidatedRequest } from './validation';
+import { requireAuth, authorizeUser, canAccess } from './auth';
+import { getNotificationDispatcher } from './notifications';
+import {
+  CareCircleError,
+  inviteMember,
+  acceptInvitation,
+  declineInvitation,
+  setConsent,
+  updateMember,
+  removeMember,
+  toMemberView,
+} from './careCircle';
+import {
+  AlertError,
+  raiseAlert,
+  acknowledgeAlert,
+  resolveAlert,
+  startAlertEscalation,
+} from './alerts';
+import {
+  MedicationError,
+  addMedication,
+  updateMedication,
+  stopMedication,
+  dosesForDay,
+  recordDose,
+  getRecordableDose,
+  findDoseToLink,
+  dueDoses,
+  adherenceSummary,
+  toSchedule,
+  toMedicationView,
+  toDoseView,
+} from './medications';
+import { getReminderScheduler } from './reminders';
+import { getInactivityStatus, getInactivityWatchdog } from './inactivity';
+import { answerFallCheck, startFallCheck } from './fallFollowUp';
+import { generateCheckInPlan } from './checkinPlan';
+import { getMoodTrends, noticeMoodDecline } from './moodTrends';
+import { extractMemory } from './memoryExtraction';
+import {
+  MemoryError,
+  deleteMemory,
+  findMemoryAbout,
+  getAccessibleMemory,
+  getMemoryTimeline,
+  replayMemory,
+  searchMemories,
+  toMemoryView,
+  updateMemory,
+} from './memoryLane';
+import { BOOK_FORMATS, bookFileName, getMemoryBookExporter } from './memoryBook';
+import { getHydrationStatus, getDailyHydration, getWeeklyHydration } from './hydration';
+import { getUserWeather } from './weather';
+import { screenSafety, screenedConcern } from './safetyScreen';
+import { findDeviations, getVitalsSummary, readingsFromSample, recordVitals, withoutRecentAlerts, type VitalDeviation } from './vitals';
+import { importVitals, ImportError } from './wearableImport';
+import { getUserTimeZone, localDate } from './timezone';
 import {
   generateCheckInMessage,
   generateMemoryPrompt,
@@ -20,22 +174,36 @@ import {
 } from './persona';
 import {
   generateTTS,
-  saveToSupabase,
-  triggerN8NWorkflow,
-  getUserPreferences,
   signUpUser,
   signInUser,
-  getChatHistory,
   generateChatReply,
-  GEMINI_CHAT_MODEL,
-  ELEVENLABS_TTS_MODEL,
+  streamChatReply,
 } from './services';
+import { getLLMProvider } from './llm';
+import { getTTSProvider, findCachedAudio, takeSentences } from './tts';
+import { initStorage } from './storage';
+import {
+  preferencesRepository,
+  checkInRepository,
+  memoryRepository,
+  buddyMessageRepository,
+  chatMessageRepository,
+  wellnessLogRepository,
+  caregiverLinkRepository,
+  careCircleRepository,
+  alertRepository,
+  outboxRepository,
+  medicationRepository,
+  memoryExportRepository,
+  type AlertRecord,
+  type MemoryExportRecord,
+} from './repositories';
 import {
-  detectSafetyConcerns,
   analyzeVitals,
   handleEmergency,
   getEmergencyReassurance,
   getSafetyCheckInQuestions,
+  type SafetyAlert,
   type VitalsData,
 } from './safety';
 import {
@@ -43,9 +211,8 @@ import {
   getMedicationReminder,
   getHydrationNudge,
   getActivityGuidance,
-  type MedicationSchedule,
-  type HydrationGoal,
-  type WeatherData,
+  getWeatherPrompt,
+  toUnit,
 } from './wellness';
 
 // Lightweight in-memory chat "memory" per user for the ChatBox
@@ -56,11 +223,63 @@ type ChatMemory = {
 
 const chatMemory = new Map<string, ChatMemory>();
 
+/**
+ * Mark the user's first turn of the session and load recent history for AI context
+ */
+async function startChatTurn(userId: string) {
+  const startedAt = Date.now();
+  const memory = chatMemory.get(userId) || {};
+  const firstTurn = !memory.reminderAsked;
+
+  memory.reminderAsked = true;
+  chatMemory.set(userId, memory);
+
+  const historyRows = await chatMessageRepository.recent(userId, 20);
+  const history = historyRows.map((row) => ({ role: row.role, text: row.text }));
+
+  return { firstTurn, history, startedAt };
+}
+
+/**
+ * Persist both user and Amily messages (non-blocking, fails gracefully)
+ * and return their IDs. The reply is always stamped after the input so
+ * history reads back in order.
+ */
+function saveChatTurn(userId: string, input: string, reply: string, startedAt: number) {
+  const messageIds = { user: randomUUID(), amily: randomUUID() };
+
+  chatMessageRepository.add({
+    id: messageIds.user,
+    user_id: userId,
+    role: 'user',
+    text: input,
+    emotion: null,
+    timestamp: new Date(startedAt).toISOString(),
+  }).catch((err) => {
+    console.warn('Failed to save user message (non-critical):', err);
+  });
+
+  chatMessageRepository.add({
+    id: messageIds.amily,
+    user_id: userId,
+    role: 'amily',
+    text: reply,
+    emotion: null,
+    timestamp: new Date(Math.max(Date.now(), startedAt + 1)).toISOString(),
+  }).catch((err) => {
+    console.warn('Failed to save Amily message (non-critical):', err);
+  });
+
+  return messageIds;
+}
+
 const app = express();
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Wearable exports are read by their own route, once the caller is known
+const parseJson = express.json();
+app.use((req, res, next) => (req.path === '/api/vitals/import' ? next() : parseJson(req, res, next)));
 app.use(express.static(path.join(__dirname, '..', 'public')));
 
 // Request logging
@@ -69,56 +288,47 @@ app.use((req, _res, next) => {
   next();
 });
 
+// Report the active mode ('demo' | 'production') on every JSON response
+app.use((_req, res, next) => {
+  const sendJson = res.json.bind(res);
+  res.json = (body?: any) =>
+    sendJson(body && typeof body === 'object' && !Array.isArray(body)
+      ? { ...body, mode: config.mode }
+      : body);
+  next();
+});
+
 /**
  * POST /api/checkin
  * Daily check-in with mood assessment and plan generation
  */
-app.post('/api/checkin', async (req: Request, res: Response) => {
+app.post('/api/checkin', requireAuth, authorizeUser('body'), validate({ body: CheckInRequestSchema }), screenSafety({ from: 'body', field: 'userInput' }), async (req: ValidatedRequest<CheckInRequest>, res: Response) => {
   try {
     const { userId, userInput, mood } = req.body;
     
-    // Detect emotion if user provided input
-    const detectedEmotion = userInput ? detectEmotion(userInput) : 'calm';
-    
-    // Map emotion to mood for plan
-    const planMood: 'low' | 'ok' | 'good' = 
-      detectedEmotion === 'stressed' || detectedEmotion === 'lonely' ? 'low' :
-      detectedEmotion === 'confused' ? 'ok' : 'good';
-    
-    // Generate simple plan based on emotion (no AI model)
-    const validatedPlan: PlanJSON = {
-      summary: "Let's take the day slowly… a little movement, some rest, and maybe a chat.",
-      next_step: "How about a short walk after breakfast?",
-      mood: planMood,
-      tags: ['routine', 'mobility'],
-    };
+    // Plan from their mood, preferences, medication and the time of day
+    const { plan: validatedPlan, source: planSource } = await generateCheckInPlan(userId, { mood, userInput });
     
     // Generate warm TTS text
     const checkInMsg = generateCheckInMessage(validatedPlan.mood);
-    const ttsText = `${checkInMsg} ${validatedPlan.summary}`;
+    const ttsText = `${checkInMsg} ${validatedPlan.summary} ${validatedPlan.next_step}`;
     
     // Generate audio URL using ElevenLabs
     const audioUrl = await generateTTS(ttsText);
     
     // Save to database
-    await saveToSupabase('check_ins', {
-      user_id: userId,
-      plan: validatedPlan,
-      timestamp: new Date().toISOString(),
-    });
+    await checkInRepository.add(userId, validatedPlan);
     
-    // Notify care circle if mood is low
+    // Tell the care circle if this makes a run of low days
     if (validatedPlan.mood === 'low') {
-      await triggerN8NWorkflow('mood_alert', {
-        userId,
-        mood: 'low',
-        timestamp: new Date().toISOString(),
-      });
+      // The check-in itself shouldn't fail because the alert couldn't be stored
+      await noticeMoodDecline(userId).catch((error) => console.error('Mood decline alert error:', error));
     }
     
     res.json({
       success: true,
       data: validatedPlan,
+      planSource,
       ttsText,
       audioUrl,
       timestamp: new Date().toISOString(),
@@ -135,17 +345,10 @@ app.post('/api/checkin', async (req: Request, res: Response) => {
 /**
  * Auth: Sign up
  */
-app.post('/api/auth/signup', async (req: Request, res: Response) => {
+app.post('/api/auth/signup', validate({ body: SignUpRequestSchema }), async (req: ValidatedRequest<SignUpRequest>, res: Response) => {
   try {
     const { email, password, fullName, supportedPerson } = req.body;
 
-    if (!email || !password) {
-      return res.status(400).json({
-        success: false,
-        error: 'Email and password are required.',
-      });
-    }
-
     const result = await signUpUser({ email, password, fullName, supportedPerson });
 
     if (!result.success) {
@@ -158,7 +361,11 @@ app.post('/api/auth/signup', async (req: Request, res: Response) => {
     res.json({
       success: true,
       userId: result.userId,
-      message: 'Account created. Please check your email to confirm if required.',
+      accessToken: result.session?.accessToken,
+      expiresAt: result.session?.expiresAt,
+      message: result.session
+        ? 'Account created.'
+        : 'Account created. Please check your email to confirm if required.',
     });
   } catch (error) {
     console.error('Signup error:', error);
@@ -172,17 +379,10 @@ app.post('/api/auth/signup', async (req: Request, res: Response) => {
 /**
  * Auth: Log in
  */
-app.post('/api/auth/login', async (req: Request, res: Response) => {
+app.post('/api/auth/login', validate({ body: LoginRequestSchema }), async (req: ValidatedRequest<LoginRequest>, res: Response) => {
   try {
     const { email, password } = req.body;
 
-    if (!email || !password) {
-      return res.status(400).json({
-        success: false,
-        error: 'Email and password are required.',
-      });
-    }
-
     const result = await signInUser({ email, password });
 
     if (!result.success) {
@@ -195,6 +395,8 @@ app.post('/api/auth/login', async (req: Request, res: Response) => {
     res.json({
       success: true,
       userId: result.userId,
+      accessToken: result.session?.accessToken,
+      expiresAt: result.session?.expiresAt,
       message: 'Logged in successfully.',
     });
   } catch (error) {
@@ -206,16 +408,230 @@ app.post('/api/auth/login', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Auth: Who am I
+ */
+app.get('/api/auth/me', requireAuth, (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    userId: req.auth!.userId,
+    provider: req.auth!.provider,
+  });
+});
+
+/**
+ * GET /api/caregivers
+ * The caregivers this user has linked, and the seniors who linked them
+ */
+app.get('/api/caregivers', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.auth!.userId;
+    const [caregivers, seniors] = await Promise.all([
+      caregiverLinkRepository.listForSenior(userId),
+      caregiverLinkRepository.listForCaregiver(userId),
+    ]);
+
+    res.json({
+      success: true,
+      caregivers: caregivers.map((link) => ({ caregiverId: link.caregiver_id, scopes: link.scopes, since: link.created_at })),
+      seniors: seniors.map((link) => ({ seniorId: link.senior_id, scopes: link.scopes, since: link.created_at })),
+    });
+  } catch (error) {
+    console.error('Caregiver list error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Could not load your caregivers right now.',
+    });
+  }
+});
+
+/**
+ * PUT /api/caregivers/:caregiverId
+ * Let a caregiver see some of this user's data (replaces any earlier grant)
+ */
+app.put('/api/caregivers/:caregiverId', requireAuth, validate({ params: CaregiverParamsSchema, body: CaregiverLinkRequestSchema }), async (req: ValidatedRequest<CaregiverLinkRequest, unknown, CaregiverParams>, res: Response) => {
+  try {
+    const seniorId = req.auth!.userId;
+    const { caregiverId } = req.params;
+
+    if (caregiverId === seniorId) {
+      return res.status(400).json({
+        success: false,
+        error: 'You can always see your own things… no need to add yourself.',
+      });
+    }
+
+    const link = await caregiverLinkRepository.save(seniorId, caregiverId, req.body.scopes);
+
+    res.json({
+      success: true,
+      caregiverId: link.caregiver_id,
+      scopes: link.scopes,
+    });
+  } catch (error) {
+    console.error('Caregiver link error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Could not save that caregiver right now.',
+    });
+  }
+});
+
+/**
+ * DELETE /api/caregivers/:caregiverId
+ * Revoke a caregiver's access
+ */
+app.delete('/api/caregivers/:caregiverId', requireAuth, validate({ params: CaregiverParamsSchema }), async (req: ValidatedRequest<unknown, unknown, CaregiverParams>, res: Response) => {
+  try {
+    const removed = await caregiverLinkRepository.remove(req.auth!.userId, req.params.caregiverId);
+
+    if (!removed) {
+      return res.status(404).json({
+        success: false,
+        error: "I couldn't find that caregiver in your circle.",
+      });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Caregiver unlink error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Could not remove that caregiver right now.',
+    });
+  }
+});
+
+/**
+ * Reply to a failed Care Circle request
+ */
+function careCircleFailure(res: Response, error: unknown, context: string) {
+  if (error instanceof CareCircleError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${context} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: "I couldn't update the care circle just now… let's try again in a moment.",
+  });
+}
+
+/**
+ * GET /api/care-circle
+ * The signed-in user's own circle, and the circles they belong to
+ */
+app.get('/api/care-circle', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.auth!.userId;
+    const [members, memberships] = await Promise.all([
+      careCircleRepository.listForSenior(userId),
+      careCircleRepository.listForMember(userId),
+    ]);
+
+    res.json({
+      success: true,
+      members: members.map(toMemberView),
+      memberships: memberships.map(toMemberView),
+    });
+  } catch (error) {
+    careCircleFailure(res, error, 'Care Circle list');
+  }
+});
+
+/**
+ * POST /api/care-circle/invitations
+ * Invite someone into a circle; the invite code is only returned here
+ */
+app.post('/api/care-circle/invitations', requireAuth, validate({ body: CareCircleInviteRequestSchema }), async (req: ValidatedRequest<CareCircleInviteRequest>, res: Response) => {
+  try {
+    const { member, inviteCode } = await inviteMember(req.auth!.userId, req.body);
+
+    res.json({
+      success: true,
+      member: toMemberView(member),
+      inviteCode,
+      message: member.consent
+        ? `I've made an invitation for ${member.name}.`
+        : `I've made an invitation for ${member.name}. They'll be told about alerts once it's been agreed.`,
+    });
+  } catch (error) {
+    careCircleFailure(res, error, 'Care Circle invite');
+  }
+});
+
+/**
+ * POST /api/care-circle/invitations/:code/accept
+ */
+app.post('/api/care-circle/invitations/:code/accept', requireAuth, validate({ params: InvitationParamsSchema }), async (req: ValidatedRequest<unknown, unknown, InvitationParams>, res: Response) => {
+  try {
+    const member = await acceptInvitation(req.auth!.userId, req.params.code);
+    res.json({ success: true, member: toMemberView(member) });
+  } catch (error) {
+    careCircleFailure(res, error, 'Care Circle accept');
+  }
+});
+
+/**
+ * POST /api/care-circle/invitations/:code/decline
+ */
+app.post('/api/care-circle/invitations/:code/decline', requireAuth, validate({ params: InvitationParamsSchema }), async (req: ValidatedRequest<unknown, unknown, InvitationParams>, res: Response) => {
+  try {
+    const member = await declineInvitation(req.auth!.userId, req.params.code);
+    res.json({ success: true, member: toMemberView(member) });
+  } catch (error) {
+    careCircleFailure(res, error, 'Care Circle decline');
+  }
+});
+
+/**
+ * PUT /api/care-circle/members/:memberId/consent
+ * The senior agrees (or stops agreeing) to share with a member
+ */
+app.put('/api/care-circle/members/:memberId/consent', requireAuth, validate({ params: CareCircleMemberParamsSchema, body: CareCircleConsentRequestSchema }), async (req: ValidatedRequest<CareCircleConsentRequest, unknown, CareCircleMemberParams>, res: Response) => {
+  try {
+    const member = await setConsent(req.auth!.userId, req.params.memberId, req.body.consent);
+    res.json({ success: true, member: toMemberView(member) });
+  } catch (error) {
+    careCircleFailure(res, error, 'Care Circle consent');
+  }
+});
+
+/**
+ * PATCH /api/care-circle/members/:memberId
+ * Change a member's role, access or notification preferences
+ */
+app.patch('/api/care-circle/members/:memberId', requireAuth, validate({ params: CareCircleMemberParamsSchema, body: CareCircleMemberUpdateSchema }), async (req: ValidatedRequest<CareCircleMemberUpdate, unknown, CareCircleMemberParams>, res: Response) => {
+  try {
+    const member = await updateMember(req.auth!.userId, req.params.memberId, req.body);
+    res.json({ success: true, member: toMemberView(member) });
+  } catch (error) {
+    careCircleFailure(res, error, 'Care Circle update');
+  }
+});
+
+/**
+ * DELETE /api/care-circle/members/:memberId
+ * Remove a member, or leave a circle
+ */
+app.delete('/api/care-circle/members/:memberId', requireAuth, validate({ params: CareCircleMemberParamsSchema }), async (req: ValidatedRequest<unknown, unknown, CareCircleMemberParams>, res: Response) => {
+  try {
+    await removeMember(req.auth!.userId, req.params.memberId);
+    res.json({ success: true });
+  } catch (error) {
+    careCircleFailure(res, error, 'Care Circle remove');
+  }
+});
+
 /**
  * GET /api/chatbox/history/:userId
  * Return recent chat messages for a user
  */
-app.get('/api/chatbox/history/:userId', async (req: Request, res: Response) => {
+app.get('/api/chatbox/history/:userId', requireAuth, authorizeUser('params'), validate({ params: UserIdParamsSchema }), async (req: ValidatedRequest<unknown, unknown, UserIdParams>, res: Response) => {
   try {
     const { userId } = req.params;
-    const history = await getChatHistory(userId, 50);
+    const history = await chatMessageRepository.recent(userId, 50);
 
-    const messages = history.map((row: any) => ({
+    const messages = history.map((row) => ({
       type: row.role === 'user' ? 'user' : 'amily',
       text: row.text,
       emotion: row.emotion || null,
@@ -227,7 +643,7 @@ app.get('/api/chatbox/history/:userId', async (req: Request, res: Response) => {
       data: messages,
     });
   } catch (error) {
-    // If history fetch fails (e.g., table doesn't exist), return empty array
+    // If history fetch fails, return empty array
     console.warn('ChatBox history error (returning empty):', error);
     res.json({
       success: true,
@@ -238,68 +654,29 @@ app.get('/api/chatbox/history/:userId', async (req: Request, res: Response) => {
 
 /**
  * POST /api/chatbox
- * Chat endpoint using AI-powered responses (ElevenLabs) + ElevenLabs TTS
+ * Chat endpoint using AI-powered responses (configured LLM provider) + ElevenLabs TTS
  */
-app.post('/api/chatbox', async (req: Request, res: Response) => {
+app.post('/api/chatbox', requireAuth, authorizeUser('body'), validate({ body: ChatboxRequestSchema }), screenSafety({ from: 'body', field: 'input' }), async (req: ValidatedRequest<ChatboxRequest>, res: Response) => {
   try {
-    const { userId = 'anonymous', input } = req.body as { userId?: string; input?: string };
-
-    if (!input || !input.trim()) {
-      return res.status(400).json({
-        success: false,
-        error: 'Please share a little about how you are feeling.',
-      });
-    }
-
-    const trimmedUserId = String(userId || 'anonymous');
-    const memory = chatMemory.get(trimmedUserId) || {};
-    const firstTurn = !memory.reminderAsked;
-
-    memory.reminderAsked = true;
-    chatMemory.set(trimmedUserId, memory);
-
-    // Load recent chat history for AI context
-    const historyRows = await getChatHistory(trimmedUserId, 20);
-    const historyForAI =
-      historyRows?.map((row: any) => ({
-        role: row.role === 'user' ? ('user' as const) : ('amily' as const),
-        text: row.text as string,
-      })) ?? [];
+    const { userId, input } = req.body;
+    const { firstTurn, history, startedAt } = await startChatTurn(userId);
 
     // Generate AI-powered reply with conversation context
-    const replyText = await generateChatReply(input, historyForAI, firstTurn);
+    const replyText = await generateChatReply(input, history, firstTurn, userId);
     const ttsText = formatForTTS(replyText, { includeReassurance: false });
     
     // Generate audio using ElevenLabs TTS
     const audioUrl = await generateTTS(ttsText);
 
-    // Persist both user and Amily messages to Supabase (non-blocking, fails gracefully)
-    saveToSupabase('chat_messages', {
-      user_id: trimmedUserId,
-      role: 'user',
-      text: input,
-      emotion: null,
-      timestamp: new Date().toISOString(),
-    }).catch((err) => {
-      console.warn('Failed to save user message (non-critical):', err);
-    });
-
-    saveToSupabase('chat_messages', {
-      user_id: trimmedUserId,
-      role: 'amily',
-      text: ttsText,
-      emotion: null,
-      timestamp: new Date().toISOString(),
-    }).catch((err) => {
-      console.warn('Failed to save Amily message (non-critical):', err);
-    });
+    const messageIds = saveChatTurn(userId, input, ttsText, startedAt);
 
     res.json({
       success: true,
       data: {
         firstTurn,
-        reasoningModel: GEMINI_CHAT_MODEL,
-        voiceModel: ELEVENLABS_TTS_MODEL,
+        messageIds,
+        reasoningModel: getLLMProvider(userId).model,
+        voiceModel: getTTSProvider().model,
       },
       ttsText,
       audioUrl,
@@ -314,31 +691,112 @@ app.post('/api/chatbox', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET|POST /api/chatbox/stream
+ * Streaming chat over Server-Sent Events:
+ *   token - reply text as it arrives
+ *   audio - a voice clip for each finished sentence
+ *   done  - the full reply and the persisted message IDs
+ *   error - something went wrong mid-stream
+ * Safety screening answers emergencies with a single `emergency` event instead.
+ */
+async function streamChatbox(req: ValidatedRequest<ChatboxRequest, ChatboxRequest>, res: Response) {
+  const { userId, input } = req.method === 'GET' ? req.query : req.body;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  const send = (event: string, data: unknown) => {
+    if (!closed) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  // Sentences are voiced as soon as they finish, but audio events go out in order
+  let audioChain: Promise<void> = Promise.resolve();
+  let sentenceIndex = 0;
+  const voiceSentence = (sentence: string) => {
+    const index = sentenceIndex++;
+    const ttsText = formatForTTS(sentence, { includeReassurance: false });
+    const clip = generateTTS(ttsText).catch((error) => {
+      console.warn('Sentence TTS failed (continuing without audio):', error);
+      return null;
+    });
+    audioChain = audioChain.then(async () => {
+      const audioUrl = await clip;
+      if (audioUrl) send('audio', { index, text: ttsText, audioUrl });
+    });
+  };
+
+  try {
+    const { firstTurn, history, startedAt } = await startChatTurn(userId);
+
+    let replyText = '';
+    let pendingText = '';
+    for await (const token of streamChatReply(input, history, firstTurn, userId)) {
+      if (closed) break;
+      replyText += token;
+      send('token', { text: token });
+
+      const { sentences, rest } = takeSentences(pendingText + token);
+      pendingText = rest;
+      sentences.forEach(voiceSentence);
+    }
+    if (pendingText.trim()) {
+      voiceSentence(pendingText.trim());
+    }
+
+    await audioChain;
+
+    if (!replyText.trim()) {
+      throw new Error('Empty streamed reply');
+    }
+
+    const ttsText = formatForTTS(replyText.trim(), { includeReassurance: false });
+    const messageIds = closed ? null : saveChatTurn(userId, input, ttsText, startedAt);
+
+    send('done', {
+      firstTurn,
+      messageIds,
+      ttsText,
+      reasoningModel: getLLMProvider(userId).model,
+      voiceModel: getTTSProvider().model,
+      mode: config.mode,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('ChatBox stream error:', error);
+    send('error', {
+      error: "I had trouble answering just now… can we try again in a moment?",
+    });
+  } finally {
+    res.end();
+  }
+}
+
+app.get('/api/chatbox/stream', requireAuth, authorizeUser('query'), validate({ query: ChatboxRequestSchema }), screenSafety({ from: 'query', field: 'input', stream: true }), streamChatbox);
+app.post('/api/chatbox/stream', requireAuth, authorizeUser('body'), validate({ body: ChatboxRequestSchema }), screenSafety({ from: 'body', field: 'input', stream: true }), streamChatbox);
+
 /**
  * POST /api/memory
  * Record a memory for MemoryLane
  */
-app.post('/api/memory', async (req: Request, res: Response) => {
+app.post('/api/memory', requireAuth, authorizeUser('body'), validate({ body: MemoryRequestSchema }), screenSafety({ from: 'body', field: 'storyInput' }), async (req: ValidatedRequest<MemoryRequest>, res: Response) => {
   try {
-    const { userId, storyInput } = req.body;
+    const { userId, storyInput, shareable } = req.body;
     
-    if (!storyInput || storyInput.trim().length === 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'Please share a memory with me.',
-      });
-    }
-    
-    // Extract simple memory structure from story (no AI model)
-    const sentences = storyInput.split(/[.!?]+/).filter((s: string) => s.trim().length > 0).slice(0, 3);
-    const story3Sentences = sentences.join('. ') + (sentences.length > 0 ? '.' : '');
-    
-    const validatedMemory: MemoryJSON = {
-      title: storyInput.substring(0, 50).trim() || "A Special Memory",
-      era: "Recent years",
-      story_3_sentences: story3Sentences || storyInput.substring(0, 200),
-      tags: ['personal'],
-    };
+    // Title, era, tags, people and places from the story
+    const { memory: validatedMemory, source: memorySource } = await extractMemory(storyInput);
     
     // Generate encouraging TTS response
     const prompt = generateMemoryPrompt();
@@ -348,15 +806,12 @@ app.post('/api/memory', async (req: Request, res: Response) => {
     const audioUrl = await generateTTS(ttsText);
     
     // Save memory to database
-    await saveToSupabase('memories', {
-      user_id: userId,
-      memory: validatedMemory,
-      timestamp: new Date().toISOString(),
-    });
+    await memoryRepository.add(userId, validatedMemory, shareable);
     
     res.json({
       success: true,
       data: validatedMemory,
+      memorySource,
       ttsText,
       audioUrl,
       timestamp: new Date().toISOString(),
@@ -370,67 +825,294 @@ app.post('/api/memory', async (req: Request, res: Response) => {
   }
 });
 
+function memoryFailure(res: Response, error: unknown, context: string) {
+  if (error instanceof MemoryError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${context} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: "I couldn't reach your memories just now… let's try again in a moment.",
+  });
+}
+
 /**
- * POST /api/buddy
- * Process buddy messages with sentiment analysis
+ * GET /api/memories
+ * The user's memories on a timeline, grouped by era; caregivers with the memories scope may read them
  */
-app.post('/api/buddy', async (req: Request, res: Response) => {
+app.get('/api/memories', requireAuth, authorizeUser('query', { scope: 'memories' }), validate({ query: MemoriesQuerySchema }), async (req: ValidatedRequest<unknown, MemoriesQuery>, res: Response) => {
   try {
-    const { userId, messageFrom, messageText } = req.body;
-    
-    // Generate simple summary (no AI model)
-    const validatedSummary: SummaryJSON = {
-      summary: `Your friend ${messageFrom || 'someone'} sent a warm hello… they're thinking of you today.`,
-      tone: 'warm' as const,
-      suggestion: "Maybe send a little message back when you're ready?",
-    };
-    
-    // Generate social encouragement
-    const encouragement = generateSocialEncouragement();
-    const ttsText = formatForTTS(`${validatedSummary.summary} ${encouragement}`);
-    
-    // Generate audio using ElevenLabs
-    const audioUrl = await generateTTS(ttsText);
-    
-    // Save interaction
-    await saveToSupabase('buddy_messages', {
-      user_id: userId,
-      message_from: messageFrom,
-      summary: validatedSummary,
-      timestamp: new Date().toISOString(),
-    });
-    
+    const timeline = await getMemoryTimeline(req.query.userId);
     res.json({
       success: true,
-      data: validatedSummary,
-      ttsText,
-      audioUrl,
-      timestamp: new Date().toISOString(),
+      data: {
+        total: timeline.reduce((sum, group) => sum + group.memories.length, 0),
+        timeline,
+      },
     });
   } catch (error) {
-    console.error('Buddy message error:', error);
-    res.status(500).json({
-      success: false,
-      error: "I couldn't read that message... let's check again.",
-    });
+    memoryFailure(res, error, 'Memory timeline');
   }
 });
 
 /**
- * GET /api - JSON API info
+ * GET /api/memories/search
+ * Memories matching words, a tag, a person or an era
  */
-app.get('/api', (_req: Request, res: Response) => {
-  res.json({
-    service: 'Amily Companion',
-    version: '1.0.0',
-    message: "Hello... I'm Amily. I'm here to help you feel calm, safe, and understood.",
-    endpoints: {
-      health: 'GET /api/health',
-      checkin: 'POST /api/checkin',
-      memory: 'POST /api/memory',
-      buddy: 'POST /api/buddy',
+app.get('/api/memories/search', requireAuth, authorizeUser('query', { scope: 'memories' }), validate({ query: MemorySearchQuerySchema }), async (req: ValidatedRequest<unknown, MemorySearchQuery>, res: Response) => {
+  try {
+    const { userId, ...query } = req.query;
+    const memories = await searchMemories(userId, query);
+    res.json({ success: true, data: { total: memories.length, memories } });
+  } catch (error) {
+    memoryFailure(res, error, 'Memory search');
+  }
+});
+
+/**
+ * POST /api/memories/replay
+ * Read a memory aloud again, by id or from what the user asked for
+ */
+app.post('/api/memories/replay', requireAuth, authorizeUser('body', { scope: 'memories' }), validate({ body: MemoryReplayRequestSchema }), async (req: ValidatedRequest<MemoryReplayRequest>, res: Response) => {
+  try {
+    const { userId, memoryId, about } = req.body;
+    const memory = memoryId ? await getAccessibleMemory(req.auth!.userId, memoryId) : await findMemoryAbout(userId, about!);
+    if (memory.user_id !== userId) {
+      throw new MemoryError("I couldn't find that memory.", 404);
+    }
+    const replay = await replayMemory(memory);
+    res.json({
+      success: true,
+      data: replay.memory,
+      ttsText: replay.ttsText,
+      audioUrl: replay.audioUrl,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    memoryFailure(res, error, 'Memory replay');
+  }
+});
+
+/**
+ * Load an export the actor asked for, or may see through the memories scope
+ */
+async function getAccessibleExport(actorId: string, exportId: string) {
+  const job = await memoryExportRepository.get(exportId);
+  if (!job || (job.requested_by !== actorId && !(await canAccess(actorId, job.user_id, 'memories')))) {
+    throw new MemoryError("I couldn't find that book.", 404);
+  }
+  return job;
+}
+
+function toExportView(job: MemoryExportRecord) {
+  return {
+    id: job.id,
+    userId: job.user_id,
+    format: job.format,
+    title: job.title,
+    status: job.status,
+    memoryCount: job.memory_count,
+    error: job.error,
+    requestedAt: job.timestamp,
+    completedAt: job.completed_at,
+    expiresAt: job.expires_at,
+    downloadUrl: job.status === 'ready' ? `/api/memories/export/${job.id}/download` : null,
+  };
+}
+
+/**
+ * POST /api/memories/export
+ * Start a family book of the memories the user marked shareable
+ */
+app.post('/api/memories/export', requireAuth, authorizeUser('body', { scope: 'memories' }), validate({ body: MemoryBookRequestSchema }), async (req: ValidatedRequest<MemoryBookRequest>, res: Response) => {
+  try {
+    const { userId, format, title } = req.body;
+    const job = await getMemoryBookExporter().request(req.auth!.userId, userId, format, title);
+    res.status(202).json({
+      success: true,
+      data: toExportView(job),
+      message: "I'm putting the book together now... it'll be ready in a moment.",
+    });
+  } catch (error) {
+    memoryFailure(res, error, 'Family book export');
+  }
+});
+
+/**
+ * GET /api/memories/export/:exportId
+ * Whether a family book is ready yet
+ */
+app.get('/api/memories/export/:exportId', requireAuth, validate({ params: MemoryExportParamsSchema }), async (req: ValidatedRequest<unknown, unknown, MemoryExportParams>, res: Response) => {
+  try {
+    const job = await getAccessibleExport(req.auth!.userId, req.params.exportId);
+    res.json({ success: true, data: toExportView(job) });
+  } catch (error) {
+    memoryFailure(res, error, 'Family book status');
+  }
+});
+
+/**
+ * GET /api/memories/export/:exportId/download
+ * The finished family book
+ */
+app.get('/api/memories/export/:exportId/download', requireAuth, validate({ params: MemoryExportParamsSchema }), async (req: ValidatedRequest<unknown, unknown, MemoryExportParams>, res: Response) => {
+  try {
+    const job = await getAccessibleExport(req.auth!.userId, req.params.exportId);
+    if (job.status === 'expired' || (job.expires_at && job.expires_at <= new Date().toISOString())) {
+      throw new MemoryError('That book has been cleared away... you can ask for a fresh one any time.', 410);
+    }
+    if (job.status !== 'ready') {
+      throw new MemoryError(job.error || "The book isn't ready yet... give it a moment.", 409);
+    }
+    const format = BOOK_FORMATS[job.format as MemoryBookFormat];
+    res.attachment(bookFileName(job.title, job.format as MemoryBookFormat));
+    res.type(format.contentType);
+    res.sendFile(getMemoryBookExporter().filePath(job), (error) => {
+      if (error && !res.headersSent) memoryFailure(res, error, 'Family book download');
+    });
+  } catch (error) {
+    memoryFailure(res, error, 'Family book download');
+  }
+});
+
+/**
+ * GET /api/memories/:memoryId
+ * One memory
+ */
+app.get('/api/memories/:memoryId', requireAuth, validate({ params: MemoryParamsSchema }), async (req: ValidatedRequest<unknown, unknown, MemoryParams>, res: Response) => {
+  try {
+    const memory = await getAccessibleMemory(req.auth!.userId, req.params.memoryId);
+    res.json({ success: true, data: toMemoryView(memory) });
+  } catch (error) {
+    memoryFailure(res, error, 'Memory fetch');
+  }
+});
+
+/**
+ * PATCH /api/memories/:memoryId
+ * Correct a memory's title, era or story
+ */
+app.patch('/api/memories/:memoryId', requireAuth, validate({ params: MemoryParamsSchema, body: MemoryUpdateSchema }), async (req: ValidatedRequest<MemoryUpdate, unknown, MemoryParams>, res: Response) => {
+  try {
+    const memory = await updateMemory(req.auth!.userId, req.params.memoryId, req.body);
+    res.json({ success: true, data: memory, message: "Thank you... I've put that right." });
+  } catch (error) {
+    memoryFailure(res, error, 'Memory update');
+  }
+});
+
+/**
+ * DELETE /api/memories/:memoryId
+ * Forget a memory
+ */
+app.delete('/api/memories/:memoryId', requireAuth, validate({ params: MemoryParamsSchema }), async (req: ValidatedRequest<unknown, unknown, MemoryParams>, res: Response) => {
+  try {
+    await deleteMemory(req.auth!.userId, req.params.memoryId);
+    res.json({ success: true, message: "All right... I've let that memory go." });
+  } catch (error) {
+    memoryFailure(res, error, 'Memory delete');
+  }
+});
+
+/**
+ * POST /api/buddy
+ * Process buddy messages with sentiment analysis
+ */
+app.post('/api/buddy', requireAuth, authorizeUser('body'), validate({ body: BuddyRequestSchema }), async (req: ValidatedRequest<BuddyRequest>, res: Response) => {
+  try {
+    const { userId, messageFrom, messageText } = req.body;
+    
+    // Generate simple summary (no AI model)
+    const validatedSummary: SummaryJSON = {
+      summary: `Your friend ${messageFrom || 'someone'} sent a warm hello… they're thinking of you today.`,
+      tone: 'warm' as const,
+      suggestion: "Maybe send a little message back when you're ready?",
+    };
+    
+    // Generate social encouragement
+    const encouragement = generateSocialEncouragement();
+    const ttsText = formatForTTS(`${validatedSummary.summary} ${encouragement}`);
+    
+    // Generate audio using ElevenLabs
+    const audioUrl = await generateTTS(ttsText);
+    
+    // Save interaction
+    await buddyMessageRepository.add(userId, messageFrom ?? null, validatedSummary);
+    
+    res.json({
+      success: true,
+      data: validatedSummary,
+      ttsText,
+      audioUrl,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Buddy message error:', error);
+    res.status(500).json({
+      success: false,
+      error: "I couldn't read that message... let's check again.",
+    });
+  }
+});
+
+/**
+ * GET /api/audio/:id
+ * Serve a cached TTS clip (supports HTTP range requests)
+ */
+app.get('/api/audio/:id', validate({ params: AudioParamsSchema }), (req: Request, res: Response) => {
+  const filePath = findCachedAudio(req.params.id);
+
+  if (!filePath) {
+    return res.status(404).json({
+      success: false,
+      error: "I couldn't find that recording.",
+    });
+  }
+
+  // Clips are content-addressed, so they never change once written
+  res.sendFile(filePath, {
+    acceptRanges: true,
+    immutable: true,
+    maxAge: '365d',
+  });
+});
+
+/**
+ * GET /api - JSON API info
+ */
+app.get('/api', (_req: Request, res: Response) => {
+  res.json({
+    service: 'Amily Companion',
+    version: '1.0.0',
+    message: "Hello... I'm Amily. I'm here to help you feel calm, safe, and understood.",
+    endpoints: {
+      health: 'GET /api/health',
+      signup: 'POST /api/auth/signup',
+      login: 'POST /api/auth/login',
+      me: 'GET /api/auth/me',
+      caregivers: 'GET /api/caregivers, PUT|DELETE /api/caregivers/:caregiverId',
+      careCircle: 'GET /api/care-circle',
+      alerts: 'GET /api/alerts, POST /api/alerts/:alertId/acknowledge|resolve',
+      deadLetters: 'GET /api/notifications/dead-letters, POST /api/notifications/:notificationId/retry',
+      medications: 'GET|POST /api/medications, PATCH|DELETE /api/medications/:medicationId',
+      doses: 'GET /api/medications/doses, POST /api/medications/doses/:doseId, POST /api/medications/doses/:doseId/snooze',
+      adherence: 'GET /api/medications/adherence',
+      hydration: 'GET /api/wellness/hydration',
+      weather: 'GET /api/wellness/weather',
+      vitals: 'POST /api/safety/vitals, POST /api/vitals/import, GET /api/vitals/:userId',
+      fallCheck: 'POST /api/safety/fall/respond',
+      inactivity: 'GET /api/inactivity/:userId',
+      mood: 'GET /api/mood/:userId',
+      checkin: 'POST /api/checkin',
+      memory: 'POST /api/memory',
+      memories: 'GET /api/memories, GET /api/memories/search, GET|PATCH|DELETE /api/memories/:memoryId, POST /api/memories/replay',
+      memoryBook: 'POST /api/memories/export, GET /api/memories/export/:exportId, GET /api/memories/export/:exportId/download',
+      buddy: 'POST /api/buddy',
+      chatbox: 'POST /api/chatbox',
+      chatboxStream: 'GET|POST /api/chatbox/stream',
       empathy: 'POST /api/empathy',
-      preferences: 'GET /api/preferences/:userId',
+      audio: 'GET /api/audio/:id',
+      preferences: 'GET|PATCH /api/preferences/:userId',
     },
     timestamp: new Date().toISOString(),
   });
@@ -452,10 +1134,10 @@ app.get('/api/health', (_req: Request, res: Response) => {
  * GET /api/preferences/:userId
  * Get user preferences
  */
-app.get('/api/preferences/:userId', async (req: Request, res: Response) => {
+app.get('/api/preferences/:userId', requireAuth, authorizeUser('params', { scope: 'preferences' }), validate({ params: UserIdParamsSchema }), async (req: ValidatedRequest<unknown, unknown, UserIdParams>, res: Response) => {
   try {
     const { userId } = req.params;
-    const preferences = await getUserPreferences(userId);
+    const preferences = await preferencesRepository.get(userId);
     
     res.json({
       success: true,
@@ -470,44 +1152,44 @@ app.get('/api/preferences/:userId', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * PATCH /api/preferences/:userId
+ * Change the user's own settings (time zone, missed-dose notices, water goal,
+ * location and temperature unit)
+ */
+app.patch('/api/preferences/:userId', requireAuth, authorizeUser('params'), validate({ params: UserIdParamsSchema, body: PreferencesUpdateSchema }), async (req: ValidatedRequest<PreferencesUpdate, unknown, UserIdParams>, res: Response) => {
+  try {
+    const { timezone, missedDoseAlerts, hydrationGoal, location, temperatureUnit } = req.body;
+    const preferences = await preferencesRepository.save(req.params.userId, {
+      timezone,
+      missed_dose_alerts: missedDoseAlerts,
+      hydration_goal: hydrationGoal,
+      location,
+      temperature_unit: temperatureUnit,
+    });
+
+    res.json({
+      success: true,
+      data: preferences,
+    });
+  } catch (error) {
+    console.error('Preferences update error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Could not save your settings right now.',
+    });
+  }
+});
+
 /**
  * POST /api/empathy
  * Generate empathetic response based on user emotion
  */
-app.post('/api/empathy', async (req: Request, res: Response) => {
+app.post('/api/empathy', requireAuth, authorizeUser('body'), validate({ body: EmpathyRequestSchema }), screenSafety({ from: 'body', field: 'userInput' }), async (req: ValidatedRequest<EmpathyRequest>, res: Response) => {
   try {
     const { userInput } = req.body;
     
-    // Check for safety concerns first
-    const safetyAlert = detectSafetyConcerns(userInput);
-    
-    if (safetyAlert.level === 'emergency' || safetyAlert.level === 'urgent') {
-      // Handle emergency
-      const emergencyResult = await handleEmergency(
-        req.body.userId || 'unknown',
-        safetyAlert,
-        undefined,
-        userInput
-      );
-      
-      const reassurance = getEmergencyReassurance(safetyAlert);
-      const audioUrl = await generateTTS(reassurance);
-      
-      return res.json({
-        success: true,
-        emergency: true,
-        alert: safetyAlert,
-        alertId: emergencyResult.alertId,
-        data: {
-          emotion: 'emergency',
-          response: reassurance,
-        },
-        ttsText: reassurance,
-        audioUrl,
-        timestamp: new Date().toISOString(),
-      });
-    }
-    
+    // Emergencies were answered by safety screening before we got here
     const emotion = detectEmotion(userInput);
     const response = generateEmpatheticResponse(emotion);
     const audioUrl = await generateTTS(response);
@@ -515,7 +1197,7 @@ app.post('/api/empathy', async (req: Request, res: Response) => {
     res.json({
       success: true,
       emergency: false,
-      alert: safetyAlert.level === 'concern' ? safetyAlert : null,
+      alert: screenedConcern(res),
       data: {
         emotion,
         response,
@@ -533,34 +1215,245 @@ app.post('/api/empathy', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * An alert as shown to clients
+ */
+function alertView(alert: AlertRecord) {
+  return {
+    id: alert.id,
+    userId: alert.user_id,
+    level: alert.level,
+    status: alert.status,
+    source: alert.source,
+    route: alert.route,
+    detected: alert.detected,
+    tier: alert.tier,
+    escalateAt: alert.escalate_at,
+    acknowledgedBy: alert.acknowledged_by,
+    acknowledgedAt: alert.acknowledged_at,
+    resolvedBy: alert.resolved_by,
+    resolvedAt: alert.resolved_at,
+    history: alert.history,
+    timestamp: alert.timestamp,
+  };
+}
+
+/**
+ * GET /api/alerts
+ * Alert history for a user, newest first
+ */
+app.get('/api/alerts', requireAuth, authorizeUser('query', { scope: 'safety' }), validate({ query: AlertsQuerySchema }), async (req: ValidatedRequest<unknown, AlertsQuery>, res: Response) => {
+  try {
+    const { userId, status, since, until, limit } = req.query;
+    const alerts = await alertRepository.listForUser(userId, { status, since, until, limit });
+
+    res.json({
+      success: true,
+      alerts: alerts.map(alertView),
+    });
+  } catch (error) {
+    console.error('Alert history error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Could not load the alerts right now.',
+    });
+  }
+});
+
+/**
+ * Reply to a failed alert action
+ */
+function alertFailure(res: Response, error: unknown, context: string) {
+  if (error instanceof AlertError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${context} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: "I couldn't update that alert just now… let's try again in a moment.",
+  });
+}
+
+/**
+ * POST /api/alerts/:alertId/acknowledge
+ * A caregiver has seen the alert and is on it; stops escalation
+ */
+app.post('/api/alerts/:alertId/acknowledge', requireAuth, validate({ params: AlertParamsSchema, body: AlertActionRequestSchema }), async (req: ValidatedRequest<AlertActionRequest, unknown, AlertParams>, res: Response) => {
+  try {
+    const alert = await acknowledgeAlert(req.auth!.userId, req.params.alertId, req.body.note);
+    res.json({ success: true, alert: alertView(alert) });
+  } catch (error) {
+    alertFailure(res, error, 'Alert acknowledge');
+  }
+});
+
+/**
+ * POST /api/alerts/:alertId/resolve
+ * Close an alert
+ */
+app.post('/api/alerts/:alertId/resolve', requireAuth, validate({ params: AlertParamsSchema, body: AlertActionRequestSchema }), async (req: ValidatedRequest<AlertActionRequest, unknown, AlertParams>, res: Response) => {
+  try {
+    const alert = await resolveAlert(req.auth!.userId, req.params.alertId, req.body.note);
+    res.json({ success: true, alert: alertView(alert) });
+  } catch (error) {
+    alertFailure(res, error, 'Alert resolve');
+  }
+});
+
+/**
+ * GET /api/notifications/dead-letters
+ * Care Circle notifications about a user that could not be delivered
+ */
+app.get('/api/notifications/dead-letters', requireAuth, authorizeUser('query', { scope: 'safety' }), validate({ query: DeadLettersQuerySchema }), async (req: ValidatedRequest<unknown, DeadLettersQuery>, res: Response) => {
+  try {
+    const messages = await outboxRepository.listDead(req.query.userId, req.query.limit);
+
+    res.json({
+      success: true,
+      deadLetters: messages.map((message) => ({
+        id: message.id,
+        event: message.event,
+        channel: message.channel,
+        attempts: message.attempts,
+        lastError: message.last_error,
+        payload: message.payload,
+        createdAt: message.created_at,
+      })),
+    });
+  } catch (error) {
+    console.error('Dead letter list error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Could not load the undelivered notifications right now.',
+    });
+  }
+});
+
+/**
+ * POST /api/notifications/:notificationId/retry
+ * Queue an undelivered notification again
+ */
+app.post('/api/notifications/:notificationId/retry', requireAuth, validate({ params: NotificationParamsSchema }), async (req: ValidatedRequest<unknown, unknown, NotificationParams>, res: Response) => {
+  try {
+    const message = await outboxRepository.get(req.params.notificationId);
+    const allowed = message?.user_id ? await canAccess(req.auth!.userId, message.user_id, 'safety') : false;
+
+    if (!message || !allowed || message.status !== 'dead') {
+      return res.status(404).json({
+        success: false,
+        error: "I couldn't find an undelivered notification with that id.",
+      });
+    }
+
+    await getNotificationDispatcher().retry(message.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Dead letter retry error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Could not retry that notification right now.',
+    });
+  }
+});
+
+/**
+ * Tell the Care Circle about what vitals analysis found: falls and
+ * out-of-range runs go through emergency handling, anything milder is
+ * stored as a concern. Returns the alert id.
+ */
+async function raiseVitalsAlert(userId: string, safetyAlert: SafetyAlert, vitals: VitalsData, route: string): Promise<string> {
+  if (safetyAlert.level === 'emergency' || safetyAlert.level === 'urgent') {
+    const emergencyResult = await handleEmergency(userId, safetyAlert, vitals, undefined, 'vitals', route);
+    return emergencyResult.alertId;
+  }
+
+  const raised = await raiseAlert({
+    userId,
+    level: 'concern',
+    source: 'vitals',
+    event: 'vitals_concern',
+    detected: safetyAlert.detected,
+    vitals,
+    route,
+  });
+  return raised.id;
+}
+
 /**
  * POST /api/safety/vitals
- * Monitor vitals and detect emergency situations
+ * Store a vitals sample and act on falls and sustained deviations
  */
-app.post('/api/safety/vitals', async (req: Request, res: Response) => {
+app.post('/api/safety/vitals', requireAuth, authorizeUser('body'), validate({ body: VitalsRequestSchema }), async (req: ValidatedRequest<VitalsRequest>, res: Response) => {
   try {
-    const { userId, vitals }: { userId: string; vitals: VitalsData } = req.body;
+    const { userId, vitals } = req.body;
     
-    const safetyAlert = analyzeVitals(vitals);
+    // Store the sample, then look for sustained deviations in what it touched
+    const stored = await recordVitals(userId, readingsFromSample(vitals), 'api');
+    const metrics = [...new Set(stored.map((reading) => reading.metric))];
+    const deviations = metrics.length > 0 ? await withoutRecentAlerts(userId, await findDeviations(userId, metrics)) : [];
+    const safetyAlert = analyzeVitals(vitals, deviations);
+    
+    // A fall: ask whether they're okay before the alert goes out
+    if (safetyAlert.detected.includes('fall_detected')) {
+      const fallCheck = await startFallCheck(userId, safetyAlert, vitals, req.path);
+      const audioUrl = await generateTTS(fallCheck.prompt).catch((error) => {
+        console.warn('Fall check TTS failed (continuing without audio):', error);
+        return null;
+      });
+      
+      return res.json({
+        success: true,
+        alert: safetyAlert,
+        alertId: fallCheck.alertId,
+        fallCheck: {
+          respondBy: fallCheck.respondBy,
+          answerAt: 'POST /api/safety/fall/respond',
+        },
+        stored: stored.length,
+        deviations,
+        ttsText: fallCheck.prompt,
+        audioUrl,
+        timestamp: new Date().toISOString(),
+      });
+    }
     
     if (safetyAlert.level === 'emergency' || safetyAlert.level === 'urgent') {
-      const emergencyResult = await handleEmergency(userId, safetyAlert, vitals);
+      const alertId = await raiseVitalsAlert(userId, safetyAlert, vitals, req.path);
       const reassurance = getEmergencyReassurance(safetyAlert);
-      const audioUrl = await generateTTS(reassurance);
+      const audioUrl = await generateTTS(reassurance).catch((error) => {
+        console.warn('Reassurance TTS failed (continuing without audio):', error);
+        return null;
+      });
       
       return res.json({
         success: true,
         alert: safetyAlert,
-        alertId: emergencyResult.alertId,
+        alertId,
+        stored: stored.length,
+        deviations,
         ttsText: reassurance,
         audioUrl,
         timestamp: new Date().toISOString(),
       });
     }
     
+    if (safetyAlert.level === 'concern') {
+      const alertId = await raiseVitalsAlert(userId, safetyAlert, vitals, req.path);
+      
+      return res.json({
+        success: true,
+        alert: safetyAlert,
+        alertId,
+        stored: stored.length,
+        deviations,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    
     res.json({
       success: true,
       alert: safetyAlert,
+      stored: stored.length,
       message: 'Vitals within normal range',
       timestamp: new Date().toISOString(),
     });
@@ -573,11 +1466,154 @@ app.post('/api/safety/vitals', async (req: Request, res: Response) => {
   }
 });
 
+/** Wearable exports arrive as raw XML, JSON or CSV, whatever their content type */
+const readImportFile = express.text({ type: () => true, limit: `${config.vitals.importMaxMb}mb` });
+
+/**
+ * POST /api/vitals/import?userId=&format=
+ * Import an Apple Health, Google Fit, Fitbit or CSV export into the vitals store
+ */
+app.post('/api/vitals/import', requireAuth, authorizeUser('query'), readImportFile, validate({ query: VitalsImportQuerySchema }), async (req: ValidatedRequest<unknown, VitalsImportQuery>, res: Response) => {
+  try {
+    const { userId, format } = req.query;
+    if (typeof req.body !== 'string' || !req.body.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'I didn\'t receive a file... could you try sending it again?',
+      });
+    }
+
+    const result = await importVitals(userId, req.body, format);
+
+    // Only episodes that are still going on are worth an alert now
+    const current = await withoutRecentAlerts(userId, result.recent);
+    // The alert carries each episode's readings and when it ran, for the Care Circle
+    const vitals: VitalsData & { deviations: VitalDeviation[] } = { timestamp: new Date().toISOString(), deviations: current };
+    const safetyAlert = analyzeVitals(vitals, current);
+    const alertId = safetyAlert.level === 'normal' ? null : await raiseVitalsAlert(userId, safetyAlert, vitals, req.path);
+
+    res.json({
+      success: true,
+      data: result,
+      alert: safetyAlert,
+      alertId,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('Vitals import error:', error);
+    res.status(500).json({
+      success: false,
+      error: "I couldn't read those readings just now... let's try again in a moment.",
+    });
+  }
+});
+
+/**
+ * POST /api/safety/fall/respond
+ * The user's answer to "are you okay?" after a fall: a button, or what they said or typed
+ */
+app.post('/api/safety/fall/respond', requireAuth, authorizeUser('body'), validate({ body: FallResponseRequestSchema }), async (req: ValidatedRequest<FallResponseRequest>, res: Response) => {
+  try {
+    const { userId, alertId, response, text, channel } = req.body;
+    const answer = await answerFallCheck(userId, {
+      alertId,
+      ok: response === undefined ? undefined : response === 'ok',
+      text,
+      channel: channel ?? (response ? 'button' : 'text'),
+    });
+    const audioUrl = await generateTTS(answer.reply).catch((error) => {
+      console.warn('Fall check TTS failed (continuing without audio):', error);
+      return null;
+    });
+
+    res.json({
+      success: true,
+      outcome: answer.outcome,
+      alert: alertView(answer.alert),
+      ttsText: answer.reply,
+      audioUrl,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof AlertError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error('Fall response error:', error);
+    res.status(500).json({
+      success: false,
+      error: "I couldn't record that just now... if you need help, press the help button or call for help.",
+    });
+  }
+});
+
+/**
+ * GET /api/vitals/:userId
+ * Trend summaries per metric: latest reading, average, baseline and daily values
+ */
+app.get('/api/vitals/:userId', requireAuth, authorizeUser('params', { scope: 'wellness' }), validate({ params: UserIdParamsSchema, query: VitalsSummaryQuerySchema }), async (req: ValidatedRequest<unknown, VitalsSummaryQuery, UserIdParams>, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { days } = req.query;
+    const metrics = await getVitalsSummary(userId, days);
+
+    res.json({
+      success: true,
+      data: {
+        days,
+        metrics,
+      },
+    });
+  } catch (error) {
+    console.error('Vitals summary error:', error);
+    res.status(500).json({
+      success: false,
+      error: "I couldn't look at the readings just now... let's try again in a moment.",
+    });
+  }
+});
+
+/**
+ * GET /api/inactivity/:userId
+ * When the user's day usually starts, and whether they've been heard from today
+ */
+app.get('/api/inactivity/:userId', requireAuth, authorizeUser('params', { scope: 'wellness' }), validate({ params: UserIdParamsSchema }), async (req: ValidatedRequest<unknown, unknown, UserIdParams>, res: Response) => {
+  try {
+    const status = await getInactivityStatus(req.params.userId);
+    res.json({ success: true, data: status });
+  } catch (error) {
+    console.error('Inactivity status error:', error);
+    res.status(500).json({
+      success: false,
+      error: "I couldn't check on the day's activity just now... let's try again in a moment.",
+    });
+  }
+});
+
+/**
+ * GET /api/mood/:userId
+ * Mood over recent days and weeks, check-in streaks, chat emotions and any sustained decline
+ */
+app.get('/api/mood/:userId', requireAuth, authorizeUser('params', { scope: 'wellness' }), validate({ params: UserIdParamsSchema, query: MoodTrendsQuerySchema }), async (req: ValidatedRequest<unknown, MoodTrendsQuery, UserIdParams>, res: Response) => {
+  try {
+    const trends = await getMoodTrends(req.params.userId, req.query);
+    res.json({ success: true, data: trends });
+  } catch (error) {
+    console.error('Mood trends error:', error);
+    res.status(500).json({
+      success: false,
+      error: "I couldn't look back over the check-ins just now... let's try again in a moment.",
+    });
+  }
+});
+
 /**
  * POST /api/safety/emergency
  * Handle manual emergency trigger
  */
-app.post('/api/safety/emergency', async (req: Request, res: Response) => {
+app.post('/api/safety/emergency', requireAuth, authorizeUser('body'), validate({ body: EmergencyRequestSchema }), async (req: ValidatedRequest<EmergencyRequest>, res: Response) => {
   try {
     const { userId, type, location } = req.body;
     
@@ -594,9 +1630,12 @@ app.post('/api/safety/emergency', async (req: Request, res: Response) => {
       timestamp: new Date().toISOString(),
     };
     
-    const emergencyResult = await handleEmergency(userId, safetyAlert, vitals);
+    const emergencyResult = await handleEmergency(userId, safetyAlert, vitals, undefined, 'manual');
     const reassurance = getEmergencyReassurance(safetyAlert);
-    const audioUrl = await generateTTS(reassurance);
+    const audioUrl = await generateTTS(reassurance).catch((error) => {
+      console.warn('Reassurance TTS failed (continuing without audio):', error);
+      return null;
+    });
     
     res.json({
       success: true,
@@ -619,42 +1658,24 @@ app.post('/api/safety/emergency', async (req: Request, res: Response) => {
  * GET /api/wellness/nudges
  * Get current wellness nudges and reminders (reads from database)
  */
-app.get('/api/wellness/nudges', async (req: Request, res: Response) => {
+app.get('/api/wellness/nudges', requireAuth, authorizeUser('query', { scope: 'wellness' }), validate({ query: NudgesQuerySchema }), async (req: ValidatedRequest<unknown, NudgesQuery>, res: Response) => {
   try {
-    const { userId, timeOfDay = 'morning', mood = 'ok' } = req.query;
-    
-    if (!userId) {
-      return res.status(400).json({
-        success: false,
-        error: 'User ID is required.',
-      });
-    }
+    const { userId, timeOfDay, mood } = req.query;
 
-    // Read medications from database (requires wellness_medications table)
-    // TODO: Implement proper medication fetching from Supabase
-    const medications: MedicationSchedule[] = [];
+    const due = await dueDoses(userId);
+    const medications = [...new Map(due.map(({ medication }) => [medication.id, toSchedule(medication)])).values()];
     
-    // Read hydration from database (requires wellness_hydration table)
-    // TODO: Implement proper hydration fetching from Supabase
-    const hydration: HydrationGoal = {
-      dailyGlasses: 0,
-      currentGlasses: 0,
-    };
+    const hydration = await getHydrationStatus(userId);
     
-    // Read weather from external API or database
-    // TODO: Implement weather API integration
-    const weather: WeatherData = {
-      temp: 0,
-      condition: 'unknown',
-      humidity: 0,
-    };
+    const { weather, unit } = await getUserWeather(userId);
     
     const nudges = getWellnessNudges(
-      timeOfDay as 'morning' | 'afternoon' | 'evening',
+      timeOfDay,
       medications,
       hydration,
       weather,
-      mood as 'low' | 'ok' | 'good'
+      mood,
+      unit
     );
     
     res.json({
@@ -671,24 +1692,95 @@ app.get('/api/wellness/nudges', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/wellness/weather
+ * The weather at the user's saved location, in their unit
+ */
+app.get('/api/wellness/weather', requireAuth, authorizeUser('query', { scope: 'wellness' }), validate({ query: UserIdQuerySchema }), async (req: ValidatedRequest<unknown, UserIdQuery>, res: Response) => {
+  try {
+    const { weather, unit } = await getUserWeather(req.query.userId);
+    if (!weather) {
+      return res.status(404).json({
+        success: false,
+        error: "I don't know where you are yet… tell me your town and I can check the weather.",
+      });
+    }
+
+    const prompt = getWeatherPrompt(weather, undefined, unit);
+    res.json({
+      success: true,
+      data: {
+        temperature: toUnit(weather.tempC, unit),
+        unit,
+        condition: weather.condition,
+        humidity: weather.humidity,
+        alerts: weather.alerts ?? [],
+      },
+      ttsText: prompt?.ttsMessage,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Weather error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Could not check the weather right now.',
+    });
+  }
+});
+
+/**
+ * GET /api/wellness/hydration
+ * Today's water and the daily (last 7 days) or weekly (last 4 weeks) history
+ */
+app.get('/api/wellness/hydration', requireAuth, authorizeUser('query', { scope: 'wellness' }), validate({ query: HydrationHistoryQuerySchema }), async (req: ValidatedRequest<unknown, HydrationHistoryQuery>, res: Response) => {
+  try {
+    const { userId, period, count } = req.query;
+    const [today, history] = await Promise.all([
+      getHydrationStatus(userId),
+      period === 'weekly'
+        ? getWeeklyHydration(userId, Math.min(count ?? 4, 12))
+        : getDailyHydration(userId, count ?? 7),
+    ]);
+
+    res.json({
+      success: true,
+      today,
+      period,
+      history,
+    });
+  } catch (error) {
+    console.error('Hydration history error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Could not load the water history right now.',
+    });
+  }
+});
+
 /**
  * POST /api/wellness/log
  * Log wellness activities (water, medication, etc.)
  */
-app.post('/api/wellness/log', async (req: Request, res: Response) => {
+app.post('/api/wellness/log', requireAuth, authorizeUser('body'), validate({ body: WellnessLogRequestSchema }), async (req: ValidatedRequest<WellnessLogRequest>, res: Response) => {
   try {
-    const { userId, type, value } = req.body;
+    const { userId, type, value, doseId } = req.body;
+
+    // A medication entry counts as taking the named dose, or the one due nearest now
+    const dose = type === 'medication'
+      ? (doseId ? await getRecordableDose(userId, doseId) : await findDoseToLink(userId))
+      : null;
+    const entry = await wellnessLogRepository.add(userId, type, value, dose?.id ?? null);
+    if (dose) {
+      await recordDose(userId, dose.id, 'taken', { wellnessLogId: entry.id });
+    }
     
-    await saveToSupabase('wellness_log', {
-      user_id: userId,
-      type,
-      value,
-      timestamp: new Date().toISOString(),
-    });
+    const hydration = type === 'water' ? await getHydrationStatus(userId) : undefined;
     
     let response = '';
-    if (type === 'water') {
-      response = "Good job staying hydrated! You're doing great.";
+    if (hydration) {
+      response = hydration.currentGlasses >= hydration.dailyGlasses
+        ? `Good job staying hydrated! That's ${hydration.currentGlasses} glasses today... you've reached your goal.`
+        : `Good job staying hydrated! That's ${hydration.currentGlasses} of ${hydration.dailyGlasses} glasses today.`;
     } else if (type === 'medication') {
       response = "Thank you for taking your medication. Well done.";
     } else if (type === 'activity') {
@@ -701,9 +1793,13 @@ app.post('/api/wellness/log', async (req: Request, res: Response) => {
       success: true,
       ttsText: response,
       audioUrl,
+      hydration,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
+    if (error instanceof MedicationError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
     console.error('Wellness log error:', error);
     res.status(500).json({
       success: false,
@@ -712,19 +1808,179 @@ app.post('/api/wellness/log', async (req: Request, res: Response) => {
   }
 });
 
-// Start server
+/**
+ * Reply to a failed medication request
+ */
+function medicationFailure(res: Response, error: unknown, context: string) {
+  if (error instanceof MedicationError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${context} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: "I couldn't update your medications just now… let's try again in a moment.",
+  });
+}
+
+/**
+ * GET /api/medications
+ * The user's medications (active ones unless includeInactive=true)
+ */
+app.get('/api/medications', requireAuth, authorizeUser('query'), validate({ query: MedicationsQuerySchema }), async (req: ValidatedRequest<unknown, MedicationsQuery>, res: Response) => {
+  try {
+    const { userId, includeInactive } = req.query;
+    const medications = await medicationRepository.listForUser(userId, { includeInactive });
+    res.json({ success: true, medications: medications.map(toMedicationView) });
+  } catch (error) {
+    medicationFailure(res, error, 'Medication list');
+  }
+});
+
+/**
+ * POST /api/medications
+ * Add a medication with its daily times
+ */
+app.post('/api/medications', requireAuth, authorizeUser('body'), validate({ body: MedicationRequestSchema }), async (req: ValidatedRequest<MedicationRequest>, res: Response) => {
+  try {
+    const { userId, ...request } = req.body;
+    const medication = await addMedication(userId, request);
+    res.status(201).json({
+      success: true,
+      medication: toMedicationView(medication),
+      message: `I'll help you remember your ${medication.name}.`,
+    });
+  } catch (error) {
+    medicationFailure(res, error, 'Medication add');
+  }
+});
+
+/**
+ * GET /api/medications/doses
+ * One day's doses and their status (today unless a date is given)
+ */
+app.get('/api/medications/doses', requireAuth, authorizeUser('query'), validate({ query: DosesQuerySchema }), async (req: ValidatedRequest<unknown, DosesQuery>, res: Response) => {
+  try {
+    const { userId } = req.query;
+    const date = req.query.date || localDate(new Date(), await getUserTimeZone(userId));
+    const doses = await dosesForDay(userId, date);
+    res.json({
+      success: true,
+      date,
+      doses: doses.map(({ dose, medication }) => toDoseView(dose, medication)),
+    });
+  } catch (error) {
+    medicationFailure(res, error, 'Dose list');
+  }
+});
+
+/**
+ * POST /api/medications/doses/:doseId
+ * Record a dose as taken or skipped
+ */
+app.post('/api/medications/doses/:doseId', requireAuth, validate({ params: DoseParamsSchema, body: DoseRecordRequestSchema }), async (req: ValidatedRequest<DoseRecordRequest, unknown, DoseParams>, res: Response) => {
+  try {
+    const { status, note } = req.body;
+    const dose = await recordDose(req.auth!.userId, req.params.doseId, status, { note });
+    res.json({ success: true, dose: toDoseView(dose) });
+  } catch (error) {
+    medicationFailure(res, error, 'Dose record');
+  }
+});
+
+/**
+ * POST /api/medications/doses/:doseId/snooze
+ * Remind again a little later
+ */
+app.post('/api/medications/doses/:doseId/snooze', requireAuth, validate({ params: DoseParamsSchema, body: DoseSnoozeRequestSchema }), async (req: ValidatedRequest<DoseSnoozeRequest, unknown, DoseParams>, res: Response) => {
+  try {
+    const dose = await getReminderScheduler().snooze(req.auth!.userId, req.params.doseId, req.body.minutes);
+    res.json({
+      success: true,
+      dose: toDoseView(dose),
+      message: "Of course… I'll remind you again in a little while.",
+    });
+  } catch (error) {
+    medicationFailure(res, error, 'Dose snooze');
+  }
+});
+
+/**
+ * GET /api/medications/adherence
+ * Weekly adherence numbers; caregivers with the wellness scope may read them
+ */
+app.get('/api/medications/adherence', requireAuth, authorizeUser('query', { scope: 'wellness' }), validate({ query: AdherenceQuerySchema }), async (req: ValidatedRequest<unknown, AdherenceQuery>, res: Response) => {
+  try {
+    const { userId, weeks } = req.query;
+    res.json({ success: true, ...(await adherenceSummary(userId, weeks)) });
+  } catch (error) {
+    medicationFailure(res, error, 'Adherence summary');
+  }
+});
+
+/**
+ * PATCH /api/medications/:medicationId
+ * Change a medication's name, dosage, times or notes
+ */
+app.patch('/api/medications/:medicationId', requireAuth, validate({ params: MedicationParamsSchema, body: MedicationUpdateSchema }), async (req: ValidatedRequest<MedicationUpdate, unknown, MedicationParams>, res: Response) => {
+  try {
+    const medication = await updateMedication(req.auth!.userId, req.params.medicationId, req.body);
+    res.json({ success: true, medication: toMedicationView(medication) });
+  } catch (error) {
+    medicationFailure(res, error, 'Medication update');
+  }
+});
+
+/**
+ * DELETE /api/medications/:medicationId
+ * Stop a medication (its dose history is kept)
+ */
+app.delete('/api/medications/:medicationId', requireAuth, validate({ params: MedicationParamsSchema }), async (req: ValidatedRequest<unknown, unknown, MedicationParams>, res: Response) => {
+  try {
+    const medication = await stopMedication(req.auth!.userId, req.params.medicationId);
+    res.json({ success: true, medication: toMedicationView(medication) });
+  } catch (error) {
+    medicationFailure(res, error, 'Medication stop');
+  }
+});
+
+// Start server once storage is migrated / verified
 const PORT = config.port;
-app.listen(PORT, () => {
-  console.log(`\n🌸 Amily Companion Server Running`);
-  console.log(`   Port: ${PORT}`);
-  console.log(`   URL: http://localhost:${PORT}`);
-  console.log(`\n   Endpoints:`);
-  console.log(`   POST /api/checkin    - Daily check-in`);
-  console.log(`   POST /api/memory     - Record memory`);
-  console.log(`   POST /api/buddy      - Process buddy message`);
-  console.log(`   POST /api/empathy    - Empathetic response`);
-  console.log(`   GET  /api/health     - Health check`);
-  console.log(`   GET  /api/preferences/:userId - User preferences\n`);
+
+async function start() {
+  await initStorage();
+  startAlertEscalation();
+  getNotificationDispatcher().start(config.notifications.baseDelaySeconds * 1000);
+  getReminderScheduler().start(config.reminders.sweepSeconds * 1000);
+  getInactivityWatchdog().start(config.inactivity.sweepSeconds * 1000);
+
+  app.listen(PORT, () => {
+    console.log(`\n🌸 Amily Companion Server Running`);
+    console.log(`   Port: ${PORT}`);
+    console.log(`   Mode: ${config.mode}`);
+    console.log(`   URL: http://localhost:${PORT}`);
+    console.log(`\n   Endpoints:`);
+    console.log(`   POST /api/checkin    - Daily check-in`);
+    console.log(`   POST /api/memory     - Record memory`);
+    console.log(`   POST /api/buddy      - Process buddy message`);
+    console.log(`   POST /api/chatbox/stream - Streaming chat (SSE)`);
+    console.log(`   POST /api/empathy    - Empathetic response`);
+    console.log(`   GET  /api/health     - Health check`);
+    console.log(`   GET  /api/audio/:id  - Cached voice clip`);
+    console.log(`   GET  /api/preferences/:userId - User preferences\n`);
+
+    // Warm the cache with the fixed emergency phrases so that path never waits on TTS
+    const reassuranceLevels: SafetyAlert['level'][] = ['emergency', 'urgent', 'concern'];
+    Promise.all(
+      reassuranceLevels.map((level) =>
+        generateTTS(getEmergencyReassurance({ level, detected: [], message: '', actions: [], caregiverAlert: false }))
+      )
+    ).catch((error) => console.warn('Could not pre-generate emergency audio:', error));
+  });
+}
+
+start().catch((error) => {
+  console.error('❌ Could not start Amily:', error.message || error);
+  process.exit(1);
 });
 
 export default app;
@@ -1,116 +1,51 @@
 /**
  * Service Integrations
  * 
- * Handles all external API calls - requires real API keys and database
+ * Handles all external API calls. Offline stand-ins live with each
+ * provider (llm.ts, tts.ts, storage.ts, auth.ts, notifications.ts).
  */
 
+import type { z } from 'zod';
 import { config } from './config';
-import { createClient, type SupabaseClient } from '@supabase/supabase-js';
-import { detectEmotion, generateEmpatheticResponse } from './persona';
+import { getLLMProvider, toJSONSchema, type ChatTurn, type LLMProvider, type StructuredRequest } from './llm';
+import { synthesizeToUrl } from './tts';
+import { getSupabaseClient } from './storage';
+import { preferencesRepository } from './repositories';
+import { getNotificationDispatcher } from './notifications';
+import { issueLocalToken, localSignIn, localSignUp, type IssuedToken } from './auth';
 
-export const GEMINI_CHAT_MODEL = 'gemini-2.0-flash';
-export const ELEVENLABS_TTS_MODEL = 'eleven_monolingual_v1';
-
-// Supabase client (only initialized in prod mode when keys are present)
-let supabase: SupabaseClient | null = null;
-
-if (config.keys.supabaseUrl && config.keys.supabaseKey) {
-  try {
-    supabase = createClient(config.keys.supabaseUrl, config.keys.supabaseKey, {
-      auth: { persistSession: false },
-    });
-    console.log('💾 Supabase client initialized');
-  } catch (error) {
-    console.error('Failed to initialize Supabase client:', error);
-  }
-} else {
-  console.warn('Supabase URL/key missing – database features will not be available.');
-}
+type AuthResult = { success: boolean; userId?: string; error?: string; session?: IssuedToken };
 
 /**
- * ElevenLabs TTS Integration
- * (single source of "generation" now – no demo audio)
+ * Text-to-speech via the configured TTS provider
+ * Returns a short /api/audio/:id URL for the cached clip
  */
 export async function generateTTS(text: string): Promise<string> {
-  if (!config.keys.elevenLabs) {
-    throw new Error('ELEVENLABS_API_KEY is missing – cannot generate audio.');
-  }
   try {
-    const voiceId = '21m00Tcm4TlvDq8ikWAM'; // Default "Rachel" voice from ElevenLabs docs
-    const response = await fetch(
-      `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`,
-      {
-        method: 'POST',
-        headers: {
-          'xi-api-key': config.keys.elevenLabs,
-          'Content-Type': 'application/json',
-          Accept: 'audio/mpeg',
-        },
-        body: JSON.stringify({
-          text,
-          model_id: ELEVENLABS_TTS_MODEL,
-          voice_settings: { stability: 0.5, similarity_boost: 0.75 },
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      const errText = await response.text().catch(() => '');
-      console.error('ElevenLabs API error:', response.status, errText);
-      throw new Error(
-        `ElevenLabs API error: ${response.status} ${errText || ''}`.trim()
-      );
-    }
-
-    const arrayBuffer = await response.arrayBuffer();
-    const base64 = Buffer.from(arrayBuffer).toString('base64');
-    const dataUrl = `data:audio/mpeg;base64,${base64}`;
-    console.log(`🎵 [PROD] Generated TTS via ElevenLabs for: "${text.substring(0, 50)}..."`);
-    return dataUrl;
+    return await synthesizeToUrl(text);
   } catch (error) {
-    console.error('ElevenLabs API error:', error);
+    console.error('TTS generation error:', error);
     throw error;
   }
 }
 
 /**
- * Supabase Database Integration
- */
-export async function saveToSupabase(table: string, data: any): Promise<boolean> {
-  if (!supabase) {
-    console.warn(`⚠️ Supabase not initialized – cannot save to "${table}"`);
-    return false;
-  }
-  
-  try {
-    const { error } = await supabase.from(table).insert(data);
-    if (error) {
-      // Handle missing table gracefully (PGRST205 = table not found)
-      if (error.code === 'PGRST205') {
-        console.warn(`⚠️ Table "${table}" does not exist in database. Skipping save.`);
-        return false;
-      }
-      console.error(`Supabase insert error on table "${table}":`, error);
-      return false;
-    }
-
-    console.log(`💾 Saved record to Supabase table "${table}"`);
-    return true;
-  } catch (error) {
-    console.error(`Supabase error saving to "${table}":`, error);
-    return false;
-  }
-}
-
-/**
- * Supabase Auth: Sign up a new user with email/password
+ * Sign up a new user with email/password
+ * (Supabase auth, or local accounts when running offline)
  */
 export async function signUpUser(params: {
   email: string;
   password: string;
   fullName?: string;
   supportedPerson?: string;
-}): Promise<{ success: boolean; userId?: string; error?: string }> {
+}): Promise<AuthResult> {
+  if (config.auth.provider === 'local') {
+    const result = await localSignUp(params);
+    if (!result.userId) return result;
+    await preferencesRepository.save(result.userId, {});
+    return { ...result, session: issueLocalToken(result.userId) };
+  }
+  const supabase = getSupabaseClient();
   if (!supabase) {
     throw new Error('Supabase client not initialized – cannot sign up user.');
   }
@@ -138,15 +73,17 @@ export async function signUpUser(params: {
     }
 
     // Create a preferences row for this user
-    await saveToSupabase('user_preferences', {
-      user_id: userId,
-      preferred_pace: 'slow',
-      favorite_time: 'morning',
-      interests: [],
-      routine_notes: null,
-    });
+    await preferencesRepository.save(userId, {});
 
-    return { success: true, userId };
+    // No session yet when Supabase requires email confirmation first
+    const session = data.session
+      ? {
+          accessToken: data.session.access_token,
+          expiresAt: new Date((data.session.expires_at ?? 0) * 1000).toISOString(),
+        }
+      : undefined;
+
+    return { success: true, userId, session };
   } catch (error: any) {
     console.error('Unexpected signUp error:', error);
     return { success: false, error: error.message || 'Unable to sign up right now.' };
@@ -154,12 +91,18 @@ export async function signUpUser(params: {
 }
 
 /**
- * Supabase Auth: Log in an existing user with email/password
+ * Log in an existing user with email/password
+ * (Supabase auth, or local accounts when running offline)
  */
 export async function signInUser(params: {
   email: string;
   password: string;
-}): Promise<{ success: boolean; userId?: string; error?: string }> {
+}): Promise<AuthResult> {
+  if (config.auth.provider === 'local') {
+    const result = await localSignIn(params);
+    return result.userId ? { ...result, session: issueLocalToken(result.userId) } : result;
+  }
+  const supabase = getSupabaseClient();
   if (!supabase) {
     throw new Error('Supabase client not initialized – cannot sign in user.');
   }
@@ -180,7 +123,14 @@ export async function signInUser(params: {
       return { success: false, error: 'Login successful but no user ID returned.' };
     }
 
-    return { success: true, userId };
+    return {
+      success: true,
+      userId,
+      session: {
+        accessToken: data.session.access_token,
+        expiresAt: new Date((data.session.expires_at ?? 0) * 1000).toISOString(),
+      },
+    };
   } catch (error: any) {
     console.error('Unexpected signIn error:', error);
     return { success: false, error: error.message || 'Unable to log in right now.' };
@@ -188,192 +138,103 @@ export async function signInUser(params: {
 }
 
 /**
- * n8n Webhook Integration for Care Circle notifications
+ * Send a Care Circle event through the notification outbox (n8n and the
+ * other configured channels). Returns once the event is queued; delivery
+ * and retries happen in the background, so this never throws.
  */
 export async function triggerN8NWorkflow(
   event: string,
   payload: any
 ): Promise<boolean> {
-  if (!config.keys.n8nWebhook) {
-    throw new Error('N8N webhook URL not configured – cannot trigger workflow.');
-  }
-  
+  return getNotificationDispatcher().enqueue(event, payload);
+}
+
+/**
+ * Generate AI-powered chat reply using the configured LLM provider
+ * Supports conversation history for context-aware responses
+ */
+export async function generateChatReply(
+  userInput: string,
+  history: ChatTurn[] = [],
+  isFirstTurn: boolean = false,
+  userId?: string
+): Promise<string> {
   try {
-    const response = await fetch(config.keys.n8nWebhook, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ event, ...payload }),
-    });
-    
-    if (!response.ok) {
-      throw new Error(`N8N webhook returned ${response.status}`);
-    }
-    
-    console.log(`🔔 Triggered n8n webhook for "${event}"`);
-    return true;
+    return await getLLMProvider(userId).generate({ userInput, history, isFirstTurn });
   } catch (error) {
-    console.error('n8n webhook error:', error);
+    console.error('AI chat generation error:', error);
     throw error;
   }
 }
 
 /**
- * Get user preferences from Supabase
+ * Stream an AI-powered chat reply piece by piece
  */
-export async function getUserPreferences(userId: string): Promise<any> {
-  if (!supabase) {
-    throw new Error('Supabase client not initialized – cannot fetch user preferences.');
-  }
-  
+export async function* streamChatReply(
+  userInput: string,
+  history: ChatTurn[] = [],
+  isFirstTurn: boolean = false,
+  userId?: string
+): AsyncIterable<string> {
   try {
-    const { data, error } = await supabase
-      .from('user_preferences')
-      .select('*')
-      .eq('user_id', userId)
-      .single();
-    
-    if (error) {
-      console.error('Failed to fetch user preferences from Supabase:', error);
-      throw new Error(`Failed to fetch preferences: ${error.message}`);
-    }
-
-    return data || {};
+    yield* getLLMProvider(userId).stream({ userInput, history, isFirstTurn });
   } catch (error) {
-    console.error('Failed to fetch user preferences:', error);
+    console.error('AI chat streaming error:', error);
     throw error;
   }
 }
 
+/** One try, and one more if the first reply couldn't be used */
+const STRUCTURED_ATTEMPTS = 2;
+
 /**
- * Get recent chat history for a user from Supabase
+ * Pull the JSON object out of a reply (models sometimes wrap it in a code fence)
  */
-export async function getChatHistory(userId: string, limit: number = 50): Promise<any[]> {
-  if (!supabase) {
-    console.warn('⚠️ Supabase not initialized – returning empty chat history');
-    return [];
-  }
+function parseStructured<T>(schema: z.ZodType<T>, output: string): { value: T } | { problem: string } {
+  const start = output.indexOf('{');
+  const end = output.lastIndexOf('}');
+  if (start < 0 || end < start) return { problem: 'no JSON object' };
 
+  let json: unknown;
   try {
-    const { data, error } = await supabase
-      .from('chat_messages')
-      .select('*')
-      .eq('user_id', userId)
-      .order('timestamp', { ascending: true })
-      .limit(limit);
-
-    if (error) {
-      // Handle missing table gracefully (PGRST205 = table not found)
-      if (error.code === 'PGRST205') {
-        console.warn('⚠️ Table "chat_messages" does not exist in database. Returning empty history.');
-        return [];
-      }
-      console.error('Failed to fetch chat history from Supabase:', error);
-      return [];
-    }
-
-    return data || [];
+    json = JSON.parse(output.slice(start, end + 1));
   } catch (error) {
-    console.error('Failed to fetch chat history:', error);
-    return [];
+    return { problem: `invalid JSON: ${(error as Error).message}` };
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    return { problem: parsed.error.issues.map((issue) => `${issue.path.join('.') || 'object'}: ${issue.message}`).join('; ') };
   }
+  return { value: parsed.data };
 }
 
 /**
- * Generate AI-powered chat reply using Gemini
- * Supports conversation history for context-aware responses
+ * Ask the LLM for an object matching a zod schema, trying once more when
+ * the reply isn't valid. Null when the provider has no structured output
+ * or nothing usable came back, so the caller can fall back.
  */
-export async function generateChatReply(
-  userInput: string,
-  history: { role: 'user' | 'amily'; text: string }[] = [],
-  isFirstTurn: boolean = false
-): Promise<string> {
-  if (!config.keys.gemini) {
-    throw new Error('Gemini API key is required for chat generation.');
-  }
-
-  const systemInstruction =
-    'You are Amily, a gentle, patient companion for elderly users. ' +
-    'You speak slowly, in short, simple sentences. ' +
-    'You avoid technical language. ' +
-    'You respond with warmth, reassurance, and clear, kind suggestions. ' +
-    (isFirstTurn
-      ? 'This is the first conversation today. Gently check if they have taken their pills, eaten, and had some water, then respond warmly.'
-      : '');
-
-  try {
-    const preparedHistory = history
-      .filter((message) => Boolean(message?.text?.trim()))
-      .map((message) => ({
-        role: message.role === 'user' ? 'user' : 'model',
-        parts: [{ text: message.text }],
-      }));
-
-    const useSystemInstruction =
-      /gemini-2/i.test(GEMINI_CHAT_MODEL) || GEMINI_CHAT_MODEL.includes('flash');
-
-    const contents: any[] = [...preparedHistory];
-
-    if (!useSystemInstruction) {
-      contents.unshift({
-        role: 'system',
-        parts: [{ text: systemInstruction }],
-      });
+export async function generateStructured<T>(
+  schema: z.ZodType<T>,
+  request: Pick<StructuredRequest, 'instruction' | 'prompt'>,
+  provider: LLMProvider = getLLMProvider()
+): Promise<T | null> {
+  if (!provider.generateJSON) return null;
+
+  let previous: StructuredRequest['previous'];
+  for (let attempt = 1; attempt <= STRUCTURED_ATTEMPTS; attempt++) {
+    try {
+      const output = await provider.generateJSON({ ...request, schema: toJSONSchema(schema), previous });
+      const result = parseStructured(schema, output);
+      if ('value' in result) return result.value;
+
+      console.warn(`Structured output from ${provider.name} was unusable (attempt ${attempt}): ${result.problem}`);
+      previous = { output, problem: result.problem };
+    } catch (error) {
+      // A failed call isn't worth repeating straight away
+      console.error('AI structured generation error:', error);
+      return null;
     }
-
-    contents.push({
-      role: 'user',
-      parts: [{ text: userInput }],
-    });
-
-    const requestBody: any = {
-      contents,
-      generationConfig: {
-        temperature: 0.6,
-        maxOutputTokens: 220,
-        topP: 0.9,
-      },
-    };
-
-    if (useSystemInstruction) {
-      requestBody.systemInstruction = {
-        role: 'system',
-        parts: [{ text: systemInstruction }],
-      };
-    }
-
-    const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_CHAT_MODEL}:generateContent`;
-
-    const response = await fetch(`${endpoint}?key=${config.keys.gemini}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => '');
-      throw new Error(`Gemini API error: ${response.status} ${errorText}`);
-    }
-
-    const json: any = await response.json();
-    const candidateText =
-      json.candidates
-        ?.map((candidate: any) =>
-          candidate.content?.parts
-            ?.map((part: any) => part?.text ?? '')
-            .join('')
-            .trim()
-        )
-        .find((text: string) => Boolean(text)) ?? '';
-
-    if (!candidateText) {
-      throw new Error('Empty response from Gemini');
-    }
-
-    return candidateText;
-  } catch (error) {
-    console.error('AI chat generation error:', error);
-    throw error;
   }
+  return null;
 }
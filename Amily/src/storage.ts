@@ -0,0 +1,269 @@
+/**
+ * Storage Adapters
+ *
+ * A small table-level interface with two backends: Supabase for
+ * production and SQLite for local/offline use (an in-memory SQLite
+ * database in demo mode). Typed access lives in repositories.ts.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { config } from './config';
+import { MIGRATIONS, SCHEMA, migrationSql, type ColumnType } from './migrations';
+
+export type Row = Record<string, unknown>;
+
+export type Scalar = string | number | boolean | null;
+
+export interface Query {
+  where?: Record<string, Scalar>;
+  /** Inclusive lower / exclusive upper bound on one column */
+  range?: { column: string; from?: string | number; to?: string | number };
+  orderBy?: { column: string; ascending?: boolean };
+  limit?: number;
+}
+
+export interface StorageAdapter {
+  name: 'supabase' | 'sqlite';
+  insert(table: string, row: Row): Promise<void>;
+  select(table: string, query?: Query): Promise<Row[]>;
+  update(table: string, where: Record<string, Scalar>, patch: Row): Promise<number>;
+  remove(table: string, where: Record<string, Scalar>): Promise<number>;
+  /** Apply or verify the schema; returns a list of problems */
+  prepare(): Promise<string[]>;
+}
+
+/**
+ * Raised when a table or column the app needs is missing
+ */
+export class SchemaDriftError extends Error {
+  constructor(public problems: string[]) {
+    super(`Database schema is out of date:\n  - ${problems.join('\n  - ')}`);
+    this.name = 'SchemaDriftError';
+  }
+}
+
+function columnType(table: string, column: string): ColumnType | undefined {
+  return SCHEMA[table]?.[column];
+}
+
+/**
+ * Local SQLite backend (a file on disk, or ':memory:')
+ */
+export function createSQLiteAdapter(filename: string): StorageAdapter {
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+
+  const toSql = (table: string, column: string, value: unknown): unknown => {
+    if (value === undefined || value === null) return null;
+    const type = columnType(table, column);
+    if (type === 'json') return JSON.stringify(value);
+    if (type === 'boolean') return value ? 1 : 0;
+    return value;
+  };
+
+  const fromSql = (table: string, row: Row): Row => {
+    const parsed: Row = {};
+    for (const [column, value] of Object.entries(row)) {
+      const type = columnType(table, column);
+      if (value === null) parsed[column] = null;
+      else if (type === 'json') parsed[column] = JSON.parse(String(value));
+      else if (type === 'boolean') parsed[column] = Boolean(value);
+      else parsed[column] = value;
+    }
+    return parsed;
+  };
+
+  const whereSql = (table: string, where: Record<string, Scalar> = {}, params: unknown[]) =>
+    Object.entries(where).map(([column, value]) => {
+      if (value === null) return `${column} IS NULL`;
+      params.push(toSql(table, column, value));
+      return `${column} = ?`;
+    });
+
+  return {
+    name: 'sqlite',
+    async insert(table, row) {
+      const columns = Object.keys(row).filter((column) => row[column] !== undefined);
+      db.prepare(
+        `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+      ).run(...columns.map((column) => toSql(table, column, row[column])));
+    },
+    async select(table, query = {}) {
+      const params: unknown[] = [];
+      const conditions = whereSql(table, query.where, params);
+      if (query.range?.from !== undefined) {
+        conditions.push(`${query.range.column} >= ?`);
+        params.push(query.range.from);
+      }
+      if (query.range?.to !== undefined) {
+        conditions.push(`${query.range.column} < ?`);
+        params.push(query.range.to);
+      }
+
+      let sql = `SELECT * FROM ${table}`;
+      if (conditions.length) sql += ` WHERE ${conditions.join(' AND ')}`;
+      if (query.orderBy) sql += ` ORDER BY ${query.orderBy.column} ${query.orderBy.ascending === false ? 'DESC' : 'ASC'}`;
+      if (query.limit !== undefined) {
+        sql += ' LIMIT ?';
+        params.push(query.limit);
+      }
+
+      return (db.prepare(sql).all(...params) as Row[]).map((row) => fromSql(table, row));
+    },
+    async update(table, where, patch) {
+      const params: unknown[] = [];
+      const assignments = Object.entries(patch)
+        .filter(([, value]) => value !== undefined)
+        .map(([column, value]) => {
+          params.push(toSql(table, column, value));
+          return `${column} = ?`;
+        });
+      if (assignments.length === 0) return 0;
+      const conditions = whereSql(table, where, params);
+      const sql = `UPDATE ${table} SET ${assignments.join(', ')}${conditions.length ? ` WHERE ${conditions.join(' AND ')}` : ''}`;
+      return db.prepare(sql).run(...params).changes;
+    },
+    async remove(table, where) {
+      const params: unknown[] = [];
+      const conditions = whereSql(table, where, params);
+      const sql = `DELETE FROM ${table}${conditions.length ? ` WHERE ${conditions.join(' AND ')}` : ''}`;
+      return db.prepare(sql).run(...params).changes;
+    },
+    async prepare() {
+      db.exec('CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, name TEXT, applied_at TEXT)');
+      const applied = new Set(
+        (db.prepare('SELECT version FROM schema_migrations').all() as { version: number }[]).map((row) => row.version)
+      );
+
+      for (const migration of MIGRATIONS) {
+        if (applied.has(migration.version)) continue;
+        db.transaction(() => {
+          for (const statement of migrationSql(migration, 'sqlite')) {
+            db.exec(statement);
+          }
+          db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+            .run(migration.version, migration.name, new Date().toISOString());
+        })();
+        console.log(`💾 Applied migration ${migration.version}_${migration.name}`);
+      }
+
+      return [];
+    },
+  };
+}
+
+/**
+ * Supabase backend
+ */
+export function createSupabaseAdapter(client: SupabaseClient): StorageAdapter {
+  const fail = (action: string, table: string, error: { message: string; code?: string }) => {
+    throw new Error(`Supabase ${action} error on table "${table}": ${error.message}${error.code ? ` (${error.code})` : ''}`);
+  };
+
+  const matchAll = (builder: any, where: Record<string, Scalar> = {}) => {
+    for (const [column, value] of Object.entries(where)) {
+      builder = value === null ? builder.is(column, null) : builder.eq(column, value);
+    }
+    return builder;
+  };
+
+  return {
+    name: 'supabase',
+    async insert(table, row) {
+      const { error } = await client.from(table).insert(row);
+      if (error) fail('insert', table, error);
+    },
+    async select(table, query = {}) {
+      let builder: any = matchAll(client.from(table).select('*'), query.where);
+      if (query.range?.from !== undefined) builder = builder.gte(query.range.column, query.range.from);
+      if (query.range?.to !== undefined) builder = builder.lt(query.range.column, query.range.to);
+      if (query.orderBy) builder = builder.order(query.orderBy.column, { ascending: query.orderBy.ascending !== false });
+      if (query.limit !== undefined) builder = builder.limit(query.limit);
+
+      const { data, error } = await builder;
+      if (error) fail('select', table, error);
+      return (data || []) as Row[];
+    },
+    async update(table, where, patch) {
+      const { data, error } = await matchAll(client.from(table).update(patch), where).select('id');
+      if (error) fail('update', table, error);
+      return (data || []).length;
+    },
+    async remove(table, where) {
+      const { data, error } = await matchAll(client.from(table).delete(), where).select('id');
+      if (error) fail('delete', table, error);
+      return (data || []).length;
+    },
+    async prepare() {
+      // Supabase migrations are applied out of band (see `npm run migrate -- --sql`),
+      // so here we only check that every table and column is really there
+      const problems: string[] = [];
+      for (const [table, columns] of Object.entries(SCHEMA)) {
+        const { error } = await client.from(table).select(Object.keys(columns).join(',')).limit(1);
+        if (!error) continue;
+        if (error.code === 'PGRST205' || error.code === '42P01') {
+          problems.push(`table "${table}" does not exist`);
+        } else if (error.code === '42703' || error.code === 'PGRST204') {
+          problems.push(`table "${table}" is missing columns: ${error.message}`);
+        } else {
+          problems.push(`table "${table}" could not be checked: ${error.message}`);
+        }
+      }
+      return problems;
+    },
+  };
+}
+
+let supabase: SupabaseClient | null = null;
+
+/**
+ * Shared Supabase client (null unless Supabase keys are configured)
+ */
+export function getSupabaseClient(): SupabaseClient | null {
+  if (!supabase && config.keys.supabaseUrl && config.keys.supabaseKey) {
+    supabase = createClient(config.keys.supabaseUrl, config.keys.supabaseKey, {
+      auth: { persistSession: false },
+    });
+  }
+  return supabase;
+}
+
+let adapter: StorageAdapter | null = null;
+
+/**
+ * The configured storage backend
+ */
+export function getStorage(): StorageAdapter {
+  if (!adapter) {
+    if (config.storage.backend === 'supabase') {
+      const client = getSupabaseClient();
+      if (!client) {
+        throw new Error('Supabase URL/key missing – cannot use the supabase storage backend.');
+      }
+      adapter = createSupabaseAdapter(client);
+    } else {
+      adapter = createSQLiteAdapter(config.storage.sqlitePath);
+    }
+  }
+  return adapter;
+}
+
+/**
+ * Apply migrations (SQLite) or verify the live schema (Supabase).
+ * Throws SchemaDriftError so a broken schema stops startup instead
+ * of failing request by request.
+ */
+export async function initStorage(): Promise<void> {
+  const storage = getStorage();
+  const problems = await storage.prepare();
+  if (problems.length > 0) {
+    throw new SchemaDriftError(problems);
+  }
+  console.log(`💾 Storage ready (${storage.name}${storage.name === 'sqlite' ? `: ${config.storage.sqlitePath}` : ''})`);
+}
@@ -2,6 +2,9 @@
  * Test script to verify Amily server functionality
  */
 
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { config } from './config';
 import {
   generateCheckInMessage,
@@ -14,6 +17,89 @@ import {
   generateTTS,
   generateChatReply,
 } from './services';
+import { createOfflineProvider, toJSONSchema, type LLMProvider } from './llm';
+import { generateCheckInPlan } from './checkinPlan';
+import { getMoodTrends, noticeMoodDecline } from './moodTrends';
+import { extractMemory, extractMemoryWithRules } from './memoryExtraction';
+import {
+  MemoryError,
+  deleteMemory,
+  findMemoryAbout,
+  getAccessibleMemory,
+  getMemoryTimeline,
+  replayMemory,
+  searchMemories,
+  updateMemory,
+} from './memoryLane';
+import { createMemoryBookExporter } from './memoryBook';
+import { MemoryJSONSchema, PlanJSONSchema } from './schemas';
+import { getStorage, initStorage } from './storage';
+import { schemaAt } from './migrations';
+import {
+  chatMessageRepository,
+  checkInRepository,
+  preferencesRepository,
+  DEFAULT_PREFERENCES,
+  careCircleRepository,
+  outboxRepository,
+  wellnessLogRepository,
+  alertRepository,
+  memoryRepository,
+  memoryExportRepository,
+  vitalsRepository,
+  caregiverLinkRepository,
+  type AlertRecord,
+} from './repositories';
+import { raiseAlert, escalateDueAlerts, acknowledgeAlert, resolveAlert } from './alerts';
+import { ROLE_DEFAULTS, removeMember, updateMember } from './careCircle';
+import { canAccess } from './auth';
+import { createNotificationDispatcher, type NotificationChannel } from './notifications';
+import { addMedication, dosesForDay, recordDose, adherenceSummary } from './medications';
+import { createReminderScheduler, type MedicationReminder } from './reminders';
+import { addDays, localDate } from './timezone';
+import { getHydrationStatus, getDailyHydration } from './hydration';
+import { getLastDrinkNudge, getWeatherPrompt } from './wellness';
+import { createFixtureWeatherProvider, getWeather, type WeatherProvider } from './weather';
+import { analyzeSafetyText } from './safetyDetection';
+import { detectSafetyConcerns } from './safety';
+import { screenSafety } from './safetyScreen';
+import { analyzeVitals } from './safety';
+import { findDeviations, getVitalsSummary, recordVitals, type VitalReading } from './vitals';
+import { detectFormat, importVitals } from './wearableImport';
+import { createInactivityWatchdog, getInactivityStatus, type InactivityPrompt } from './inactivity';
+import { answerFallCheck, isFallAnswer, isOkAnswer, pendingFallCheck, startFallCheck } from './fallFollowUp';
+import type { Request, RequestHandler, Response } from 'express';
+import type { SafetyAlert } from './safety';
+
+/** What a screened route answers with, when screening answers for it */
+interface ScreenedReply {
+  emergency?: boolean;
+  alert?: SafetyAlert;
+  alertId?: string | null;
+  ttsText?: string;
+  fallCheck?: { alertId: string; outcome: string; status: string };
+}
+
+/**
+ * Run a screening middleware on a request body: its reply, if it answered,
+ * and whether it passed the request on to the route
+ */
+async function runScreen(screen: RequestHandler, path: string, body: Record<string, unknown>) {
+  let reply: ScreenedReply | null = null;
+  let passedOn = false;
+  const req: Partial<Request> = { path, body };
+  const res: Partial<Response> = {
+    locals: {},
+    json(value: ScreenedReply) {
+      reply = value;
+      return this as Response;
+    },
+  };
+  await screen(req as Request, res as Response, () => {
+    passedOn = true;
+  });
+  return { reply: reply as ScreenedReply | null, passedOn };
+}
 
 async function runTests() {
   console.log('🧪 Testing Amily Components\n');
@@ -54,7 +140,805 @@ async function runTests() {
   const memoryPrompt = generateMemoryPrompt();
   console.log(`  Prompt: "${memoryPrompt}"\n`);
   
+  // Test 6: Storage repositories
+  console.log('✓ Test 6: Storage Repositories');
+  await initStorage();
+  await chatMessageRepository.add({ user_id: 'test-user', role: 'user', text: 'Hello', emotion: null });
+  await chatMessageRepository.add({ user_id: 'test-user', role: 'amily', text: 'Hello… nice to see you.', emotion: null });
+  const saved = await chatMessageRepository.recent('test-user', 10);
+  const prefs = await preferencesRepository.save('test-user', { interests: ['gardening'] });
+  // An empty save changes nothing, and mustn't add a second row
+  await preferencesRepository.save('test-user', {});
+  await preferencesRepository.save('test-user', { timezone: undefined });
+  const prefsRows = await getStorage().select('user_preferences', { where: { user_id: 'test-user' } });
+  console.log(`  Chat messages saved: ${saved.length}`);
+  console.log(`  Interests: ${prefs.interests.join(', ')}, preference rows: ${prefsRows.length}\n`);
+  if (saved.length < 2 || prefs.interests[0] !== 'gardening' || prefsRows.length !== 1) {
+    throw new Error('Storage round trip failed');
+  }
+
+  // Test 7: Alert lifecycle and escalation
+  console.log('✓ Test 7: Alert Escalation');
+  for (const role of ['primary', 'secondary'] as const) {
+    await careCircleRepository.add({
+      senior_id: 'test-user',
+      member_id: `test-${role}`,
+      name: `Test ${role}`,
+      email: null,
+      phone: null,
+      role,
+      status: 'active',
+      consent: true,
+      ...ROLE_DEFAULTS[role],
+      invited_by: 'test-user',
+      invite_code_hash: null,
+    });
+  }
+  const raised = await raiseAlert({
+    userId: 'test-user',
+    level: 'emergency',
+    source: 'test',
+    event: 'emergency_alert',
+    detected: ['test'],
+  });
+  const escalated = await escalateDueAlerts(new Date(Date.now() + 60 * 60_000));
+  const acknowledged = await acknowledgeAlert('test-user', raised.id);
+  const resolved = await resolveAlert('test-user', raised.id, 'All fine');
+  // An observer only has the wellness scope, but can acknowledge what they were told about
+  await careCircleRepository.add({
+    senior_id: 'test-observed',
+    member_id: 'test-observer',
+    name: 'Test observer',
+    email: null,
+    phone: null,
+    role: 'observer',
+    status: 'active',
+    consent: true,
+    ...ROLE_DEFAULTS.observer,
+    invited_by: 'test-observed',
+    invite_code_hash: null,
+  });
+  const observed = await raiseAlert({ userId: 'test-observed', level: 'emergency', source: 'test', event: 'emergency_alert', detected: ['test'] });
+  const strangerAck = await acknowledgeAlert('test-stranger', observed.id).catch((error) => error.status);
+  const observerAck = await acknowledgeAlert('test-observer', observed.id);
+  console.log(`  Raised: ${raised.status} (tier ${raised.tier}), escalations: ${escalated}`);
+  console.log(`  Then: ${acknowledged.status} → ${resolved.status}, members told: ${resolved.notified.length}`);
+  console.log(`  Observer acknowledges: ${observerAck.status}, a stranger gets ${strangerAck}`);
+  if (raised.status !== 'notified' || escalated !== 1 || resolved.status !== 'resolved' || resolved.notified.length !== 2) {
+    throw new Error('Alert lifecycle failed');
+  }
+  if (observerAck.status !== 'acknowledged' || observerAck.acknowledged_by !== 'test-observer' || strangerAck !== 404) {
+    throw new Error('Observer acknowledgement failed');
+  }
+
+  // Access granted directly and access through the circle are kept apart, so neither undoes the other
+  const observerCan = (scope: 'memories' | 'safety') => canAccess('test-observer', 'test-observed', scope);
+  const [observerMember] = await careCircleRepository.listForSenior('test-observed');
+  await caregiverLinkRepository.save('test-observed', 'test-observer', ['memories']);
+  await updateMember('test-observed', observerMember.id, { scopes: ['wellness', 'safety'] });
+  const bothGranted = (await observerCan('memories')) && (await observerCan('safety'));
+  await caregiverLinkRepository.remove('test-observed', 'test-observer');
+  await updateMember('test-observed', observerMember.id, { notify: { urgent: true } });
+  const revokedStays = !(await observerCan('memories')) && (await observerCan('safety'));
+  await caregiverLinkRepository.save('test-observed', 'test-observer', ['memories']);
+  await removeMember('test-observed', observerMember.id);
+  const linkOutlivesMember = (await observerCan('memories')) && !(await observerCan('safety'));
+  console.log(`  Access: both ${bothGranted}, revoked link stays revoked ${revokedStays}, link outlives membership ${linkOutlivesMember}\n`);
+  if (!bothGranted || !revokedStays || !linkOutlivesMember) {
+    throw new Error('Care Circle access failed');
+  }
+
+  // Test 8: Notification outbox retries and dead letters
+  console.log('✓ Test 8: Notification Outbox');
+  let flakyCalls = 0;
+  const flaky: NotificationChannel = {
+    name: 'test-flaky',
+    async deliver() {
+      flakyCalls++;
+      if (flakyCalls < 3) throw new Error('temporarily unavailable');
+    },
+  };
+  const broken: NotificationChannel = {
+    name: 'test-broken',
+    async deliver() {
+      throw new Error('gone');
+    },
+  };
+  const dispatcher = createNotificationDispatcher({
+    channels: [flaky, broken],
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 60_000,
+  });
+  await dispatcher.enqueue('test_event', { userId: 'test-outbox' });
+  const start = Date.now();
+  for (const offset of [0, 1_000, 3_000]) {
+    await dispatcher.dispatchDue(new Date(start + offset + 10));
+  }
+  const dead = await outboxRepository.listDead('test-outbox');
+  console.log(`  Flaky channel attempts: ${flakyCalls}, dead letters: ${dead.length}\n`);
+  if (flakyCalls !== 3 || dead.length !== 1 || dead[0].channel !== 'test-broken') {
+    throw new Error('Notification outbox failed');
+  }
+
+  // Test 9: Medication doses and adherence
+  console.log('✓ Test 9: Medication Adherence');
+  const medsUser = `test-meds-${Date.now()}`;
+  await preferencesRepository.save(medsUser, { timezone: 'UTC' });
+  await addMedication(medsUser, { name: 'Test tablet', dosage: '1 tablet', times: ['08:00', '20:00'] });
+  const tomorrow = addDays(localDate(new Date(), 'UTC'), 1);
+  const at = (date: string, time: string) => new Date(`${date}T${time}:00Z`);
+  const [morning, evening] = (await dosesForDay(medsUser, tomorrow, at(tomorrow, '07:00'))).map(({ dose }) => dose);
+  await recordDose(medsUser, morning.id, 'taken', { now: at(tomorrow, '08:15') });
+  await recordDose(medsUser, evening.id, 'skipped', { note: 'felt unwell', now: at(tomorrow, '20:05') });
+  const adherence = await adherenceSummary(medsUser, 2, at(addDays(tomorrow, 1), '23:00'));
+  const totals = adherence.weeks.reduce(
+    (sum, week) => ({ taken: sum.taken + week.taken, skipped: sum.skipped + week.skipped, missed: sum.missed + week.missed }),
+    { taken: 0, skipped: 0, missed: 0 }
+  );
+  console.log(`  Taken: ${totals.taken}, skipped: ${totals.skipped}, missed: ${totals.missed}, overall: ${adherence.overallPercent}%\n`);
+  if (totals.taken !== 1 || totals.skipped !== 1 || totals.missed < 2 || adherence.missedLast7Days !== totals.missed) {
+    throw new Error('Medication adherence failed');
+  }
+
+  // Test 10: Reminder scheduler on a fake clock, in the user's own time zone
+  console.log('✓ Test 10: Medication Reminders');
+  const reminderUser = `test-reminders-${Date.now()}`;
+  await preferencesRepository.save(reminderUser, { timezone: 'Asia/Tokyo' });
+  await addMedication(reminderUser, { name: 'Heart pill', dosage: '5mg', times: ['08:30'] });
+  const sent: MedicationReminder[] = [];
+  let fakeNow = new Date();
+  const scheduler = createReminderScheduler({
+    channel: { name: 'test', async deliver(reminder) { if (reminder.userId === reminderUser) sent.push(reminder); } },
+    clock: () => fakeNow,
+    snoozeMinutes: 10,
+    repeatMinutes: 20,
+    maxReminders: 3,
+  });
+  const tokyoTomorrow = addDays(localDate(new Date(), 'Asia/Tokyo'), 1);
+  const tokyo = (time: string) => new Date(`${tokyoTomorrow}T${time}:00+09:00`);
+  const remindersAt = async (time: string) => {
+    fakeNow = tokyo(time);
+    const before = sent.length;
+    await scheduler.tick();
+    return sent.slice(before).map((reminder) => reminder.kind);
+  };
+  const timeline = {
+    early: await remindersAt('08:29'),
+    due: await remindersAt('08:30'),
+    quiet: await remindersAt('08:35'),
+  };
+  await scheduler.snooze(reminderUser, sent[0].doses[0].doseId);
+  Object.assign(timeline, {
+    snoozed: await remindersAt('08:40'),
+    afterSnooze: await remindersAt('08:46'),
+    repeat: await remindersAt('09:06'),
+    capped: await remindersAt('09:30'),
+  });
+  fakeNow = tokyo('10:31');
+  const { missed } = await scheduler.tick();
+  console.log(`  Reminders: ${JSON.stringify(timeline)}, missed: ${missed}\n`);
+  if (
+    JSON.stringify(timeline) !==
+      JSON.stringify({ early: [], due: ['due'], quiet: [], snoozed: [], afterSnooze: ['due'], repeat: ['repeat'], capped: [] }) ||
+    missed < 1
+  ) {
+    throw new Error('Medication reminders failed');
+  }
+
+  // Test 11: Hydration from the wellness log
+  console.log('✓ Test 11: Hydration Tracking');
+  const waterUser = `test-water-${Date.now()}`;
+  await preferencesRepository.save(waterUser, { timezone: 'UTC', hydration_goal: 4 });
+  await wellnessLogRepository.add(waterUser, 'water', 2);
+  await wellnessLogRepository.add(waterUser, 'water', undefined);
+  const water = await getHydrationStatus(waterUser);
+  const waterHistory = await getDailyHydration(waterUser, 3);
+  const thirsty = getLastDrinkNudge(water, new Date(Date.now() + 4 * 60 * 60 * 1000));
+  console.log(`  Today: ${water.currentGlasses}/${water.dailyGlasses}, history: ${waterHistory.map((day) => day.glasses).join(',')}`);
+  console.log(`  Four hours later: "${thirsty?.message}"\n`);
+  if (water.currentGlasses !== 3 || !water.lastDrink || waterHistory[2].glasses !== 3 || !thirsty || getLastDrinkNudge(water)) {
+    throw new Error('Hydration tracking failed');
+  }
+
+  // Preferences saved before migrations 7 and 8 have no dose alert setting or hydration goal; they get the defaults
+  const olderUser = `test-water-old-${Date.now()}`;
+  const olderColumns = schemaAt(6).user_preferences;
+  await getStorage().insert(
+    'user_preferences',
+    Object.fromEntries(
+      Object.entries({ id: `prefs-${olderUser}`, user_id: olderUser, ...DEFAULT_PREFERENCES }).filter(([column]) => column in olderColumns)
+    )
+  );
+  await wellnessLogRepository.add(olderUser, 'water', 1);
+  const olderPrefs = await preferencesRepository.get(olderUser);
+  const olderWater = await getHydrationStatus(olderUser);
+  const olderNudge = getLastDrinkNudge(olderWater, new Date(Date.now() + 4 * 60 * 60 * 1000));
+  console.log(`  Saved before goals existed: goal ${olderPrefs.hydration_goal}, ${olderWater.currentGlasses}/${olderWater.dailyGlasses}\n`);
+  if (
+    olderPrefs.hydration_goal !== 8 ||
+    olderPrefs.missed_dose_alerts !== false ||
+    olderWater.dailyGlasses !== 8 ||
+    !olderNudge
+  ) {
+    throw new Error('Preferences from before migration 8 lost their defaults');
+  }
+
+  // Test 12: Weather fixture, units and caching
+  console.log('✓ Test 12: Weather');
+  const fixtureWeather = createFixtureWeatherProvider(path.join(__dirname, '..', 'fixtures', 'weather.json'));
+  const phoenix = await fixtureWeather.current({ lat: 33.4, lng: -112.1 });
+  const heatInC = getWeatherPrompt(phoenix, 'afternoon', 'C');
+  const coldInF = getWeatherPrompt(await fixtureWeather.current({ lat: 0, lng: 0, name: 'new york' }), 'morning', 'F');
+  console.log(`  Phoenix (C): "${heatInC?.ttsMessage}"`);
+  console.log(`  New York (F): "${coldInF?.message}"`);
+  let weatherCalls = 0;
+  const flakyWeather: WeatherProvider = {
+    name: 'open-meteo',
+    async current() {
+      weatherCalls++;
+      if (weatherCalls > 1) throw new Error('offline');
+      return { tempC: 20, condition: 'sunny', humidity: 50 };
+    },
+  };
+  const spot = { lat: 10.001, lng: 20.001 };
+  const start12 = Date.now();
+  await getWeather(spot, flakyWeather, start12);
+  await getWeather({ lat: 10.002, lng: 20.002 }, flakyWeather, start12 + 1000);
+  const stale = await getWeather(spot, flakyWeather, start12 + 2 * 60 * 60 * 1000);
+  console.log(`  Provider calls: ${weatherCalls}, stale fallback: ${stale.tempC}°C\n`);
+  if (
+    !heatInC?.ttsMessage.includes('Extreme heat warning') ||
+    coldInF?.message !== "It's 27°F outside. Dress warmly if you go out." ||
+    weatherCalls !== 2 ||
+    stale.tempC !== 20
+  ) {
+    throw new Error('Weather failed');
+  }
+
+  // Test 13: Safety phrase detection against the labelled corpus
+  console.log('✓ Test 13: Safety Detection');
+  const corpus: { utterances: { text: string; level: string }[] } = JSON.parse(
+    fs.readFileSync(path.join(__dirname, '..', 'fixtures', 'safety-corpus.json'), 'utf-8')
+  );
+  const misread = corpus.utterances.filter(({ text, level }) => analyzeSafetyText(text).level !== level);
+  const cantBreathe = detectSafetyConcerns("I can't breathe");
+  console.log(`  Corpus: ${corpus.utterances.length - misread.length}/${corpus.utterances.length} correct`);
+  console.log(`  "I can't breathe": ${cantBreathe.level} (${cantBreathe.detected.join(', ')}, confidence ${cantBreathe.confidence})\n`);
+  for (const { text, level } of misread) {
+    console.log(`  ✗ "${text}" expected ${level}, got ${analyzeSafetyText(text).level}`);
+  }
+  if (misread.length > 0 || cantBreathe.level !== 'emergency' || !cantBreathe.caregiverAlert) {
+    throw new Error('Safety detection failed');
+  }
+
+  // Test 14: Safety screening stops a conversational route and records it
+  console.log('✓ Test 14: Safety Screening');
+  const screen = screenSafety({ from: 'body', field: 'input' });
+  const { reply: screenedReply } = await runScreen(screen, '/api/chatbox', { userId: 'test-user', input: 'I fell and chest pain' });
+  const { passedOn } = await runScreen(screen, '/api/chatbox', { userId: 'test-user', input: "I don't need help, thanks" });
+  const screenedAlert = screenedReply?.alertId ? await alertRepository.get(screenedReply.alertId) : null;
+  console.log(`  Emergency: ${screenedReply?.alert?.level} via ${screenedAlert?.route}, "${screenedReply?.ttsText}"`);
+  console.log(`  "I don't need help, thanks" passed on: ${passedOn}\n`);
+  if (!screenedReply?.emergency || screenedAlert?.route !== '/api/chatbox' || screenedAlert.source !== 'conversation' || !passedOn) {
+    throw new Error('Safety screening failed');
+  }
+
+  // Test 15: Vitals baselines and sustained deviations
+  console.log('✓ Test 15: Vitals Baselines');
+  const vitalsUser = 'test-vitals';
+  await preferencesRepository.save(vitalsUser, { timezone: 'UTC' });
+  const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+  const history: VitalReading[] = [];
+  for (let day = 12; day >= 1; day--) {
+    history.push({ metric: 'heart_rate', value: 68 + (day % 3), timestamp: hoursAgo(day * 24 + 2) });
+    history.push({ metric: 'steps', value: day > 3 ? 5000 + day * 10 : 900, timestamp: hoursAgo(day * 24) });
+  }
+  // One spike on its own, then three unusual readings in a row
+  history.push({ metric: 'heart_rate', value: 130, timestamp: hoursAgo(0.9) });
+  history.push({ metric: 'heart_rate', value: 70, timestamp: hoursAgo(0.8) });
+  history.push({ metric: 'heart_rate', value: 69, timestamp: hoursAgo(0.75) });
+  const stored = await recordVitals(vitalsUser, history, 'test');
+  const spikeOnly = await findDeviations(vitalsUser, ['heart_rate']);
+  const sustainedRun = [40, 25, 10].map((minutes) => ({ metric: 'heart_rate' as const, value: 96, timestamp: hoursAgo(minutes / 60) }));
+  stored.push(...(await recordVitals(vitalsUser, sustainedRun, 'test')));
+  const again = await recordVitals(vitalsUser, history.slice(0, 5), 'test');
+  const deviations = await findDeviations(vitalsUser);
+  const vitalsAlert = analyzeVitals({ timestamp: new Date().toISOString() }, deviations);
+  const summary = await getVitalsSummary(vitalsUser, 7);
+  const heartTrend = summary.find((trend) => trend.metric === 'heart_rate');
+  console.log(`  Stored: ${stored.length}, duplicates skipped: ${5 - again.length}, spike alone: ${spikeOnly.length} deviations`);
+  console.log(`  Deviations: ${deviations.map((deviation) => `${deviation.metric} ${deviation.direction} (${deviation.kind})`).join(', ')} → ${vitalsAlert.level}`);
+  console.log(`  Heart rate: avg ${heartTrend?.average}, baseline ${heartTrend?.baseline?.median}, ${heartTrend?.status}\n`);
+  if (
+    spikeOnly.length !== 0 ||
+    again.length !== 0 ||
+    deviations.map((deviation) => deviation.metric).sort().join() !== 'heart_rate,steps' ||
+    vitalsAlert.level !== 'concern' ||
+    heartTrend?.status !== 'high'
+  ) {
+    throw new Error('Vitals baselines failed');
+  }
+
+  // Test 16: Wearable imports
+  console.log('✓ Test 16: Wearable Import');
+  const importUser = 'test-import';
+  await preferencesRepository.save(importUser, { timezone: 'Europe/London' });
+  const appleXml = `<?xml version="1.0" encoding="UTF-8"?>
+<HealthData locale="en_GB">
+ <Record type="HKQuantityTypeIdentifierHeartRate" sourceName="Watch" unit="count/min" startDate="2026-10-18 08:00:00 +0100" endDate="2026-10-18 08:00:00 +0100" value="64"/>
+ <Record type="HKQuantityTypeIdentifierOxygenSaturation" sourceName="Watch" unit="%" startDate="2026-10-18 08:05:00 +0100" endDate="2026-10-18 08:05:00 +0100" value="0.97"/>
+ <Record type="HKQuantityTypeIdentifierStepCount" sourceName="Phone" unit="count" startDate="2026-10-18 09:00:00 +0100" endDate="2026-10-18 09:10:00 +0100" value="800"/>
+ <Record type="HKQuantityTypeIdentifierStepCount" sourceName="Watch" unit="count" startDate="2026-10-18 09:02:00 +0100" endDate="2026-10-18 09:08:00 +0100" value="750"/>
+ <Record type="HKQuantityTypeIdentifierStepCount" sourceName="Watch" unit="count" startDate="2026-10-18 09:20:00 +0100" endDate="2026-10-18 09:30:00 +0100" value="200"/>
+ <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Watch" startDate="2026-10-17 23:00:00 +0100" endDate="2026-10-18 02:00:00 +0100" value="HKCategoryValueSleepAnalysisAsleepCore"/>
+ <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Watch" startDate="2026-10-18 02:00:00 +0100" endDate="2026-10-18 02:30:00 +0100" value="HKCategoryValueSleepAnalysisAwake"/>
+ <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Watch" startDate="2026-10-18 02:30:00 +0100" endDate="2026-10-18 06:30:00 +0100" value="HKCategoryValueSleepAnalysisAsleepDeep"/>
+</HealthData>`;
+  const importNow = new Date('2026-10-19T12:00:00Z');
+  const apple = await importVitals(importUser, appleXml, undefined, importNow);
+  const appleAgain = await importVitals(importUser, appleXml, undefined, importNow);
+  const csv = await importVitals(importUser, 'timestamp,heart_rate,blood_pressure,temperature_f\n2026-10-18 10:00,70,128/82,98.6\n2026-10-18 10:00,71,,\n2026-10-18 11:00,abc,,', undefined, importNow);
+  const googleFit = await importVitals(importUser, JSON.stringify({
+    point: [{ dataTypeName: 'com.google.heart_rate.bpm', startTimeNanos: '1792310400000000000', endTimeNanos: '1792310400000000000', value: [{ fpVal: 66 }] }],
+  }), 'google-fit', importNow);
+  const importedSteps = await vitalsRepository.listForUser(importUser, { metric: 'steps' });
+  const importedSleep = await vitalsRepository.listForUser(importUser, { metric: 'sleep_hours' });
+  console.log(`  Apple Health: ${apple.received} samples → ${apple.stored} stored, ${apple.overlapping} overlapping; again: ${appleAgain.alreadyStored} already stored`);
+  console.log(`  Steps at 09:00: ${importedSteps[0]?.value}, sleep: ${importedSleep[0]?.value}h; CSV stored ${csv.stored} (skipped ${csv.skipped}), Google Fit ${googleFit.stored}\n`);
+  if (
+    detectFormat(appleXml) !== 'apple-health' ||
+    apple.stored !== 4 ||
+    apple.overlapping !== 1 ||
+    appleAgain.stored !== 0 ||
+    importedSteps[0]?.value !== 1000 ||
+    importedSleep[0]?.value !== 7 ||
+    importedSleep[0]?.timestamp !== '2026-10-18T05:30:00.000Z' ||
+    csv.stored !== 4 ||
+    csv.overlapping !== 1 ||
+    csv.skipped !== 1 ||
+    googleFit.stored !== 1
+  ) {
+    throw new Error('Wearable import failed');
+  }
+
+  // Test 17: Inactivity watchdog
+  console.log('✓ Test 17: Inactivity Watchdog');
+  const quietUser = `test-quiet-${Date.now()}`;
+  await preferencesRepository.save(quietUser, { timezone: 'UTC' });
+  const quietDay = addDays(localDate(new Date(), 'UTC'), 1);
+  const quietAt = (time: string, days: number = 0) => new Date(`${addDays(quietDay, -days)}T${time}:00Z`);
+  for (let days = 1; days <= 7; days++) {
+    // Up around 08:00 most days; Amily's own messages don't count
+    await chatMessageRepository.add({ user_id: quietUser, role: 'amily', text: 'Good morning!', emotion: null, timestamp: quietAt('06:00', days).toISOString() });
+    await chatMessageRepository.add({ user_id: quietUser, role: 'user', text: 'Morning', emotion: null, timestamp: quietAt(['07:50', '08:00', '08:10'][days % 3], days).toISOString() });
+  }
+  const prompts: InactivityPrompt[] = [];
+  let quietNow = quietAt('09:00');
+  const inactivityWatchdog = createInactivityWatchdog({
+    channel: { name: 'test', async deliver(prompt) { if (prompt.userId === quietUser) prompts.push(prompt); } },
+    clock: () => quietNow,
+    graceMinutes: 90,
+    responseMinutes: 60,
+  });
+  const watchAt = async (time: string) => {
+    quietNow = quietAt(time);
+    const before = prompts.length;
+    const result = await inactivityWatchdog.tick();
+    return prompts.length > before ? 'prompted' : result.alerted ? 'alerted' : result.answered ? 'answered' : '-';
+  };
+  const quietTimeline = [await watchAt('09:00'), await watchAt('09:31'), await watchAt('10:00'), await watchAt('10:32'), await watchAt('10:40')];
+  const [quietAlert] = await alertRepository.listForUser(quietUser);
+  await chatMessageRepository.add({ user_id: quietUser, role: 'user', text: "Sorry, I overslept", emotion: null, timestamp: quietAt('10:45').toISOString() });
+  quietTimeline.push(await watchAt('10:50'), await watchAt('11:30'));
+  const quietStatus = await getInactivityStatus(quietUser, quietNow);
+  const closedAlert = quietAlert && (await alertRepository.get(quietAlert.id));
+  console.log(`  Usually up by ${quietStatus.usual?.usualStart} (${quietStatus.usual?.days} days), prompt due ${quietStatus.expectedBy?.slice(11)}`);
+  console.log(`  Timeline: ${quietTimeline.join(', ')}; alert ${quietAlert?.level}/${quietAlert?.source} → ${closedAlert?.status}\n`);
+  if (
+    quietTimeline.join() !== '-,prompted,-,alerted,-,answered,-' ||
+    quietStatus.usual?.usualStart !== '08:00' ||
+    !quietStatus.activeToday ||
+    quietAlert?.level !== 'concern' ||
+    quietAlert.source !== 'inactivity' ||
+    closedAlert?.status !== 'resolved'
+  ) {
+    throw new Error('Inactivity watchdog failed');
+  }
+
+  // Test 18: Fall follow-up waits for an answer before alerting
+  console.log('✓ Test 18: Fall Follow-up');
+  const fallUser = `test-fall-${Date.now()}`;
+  const fallVitals = { fallDetected: true, timestamp: new Date().toISOString() };
+  const fallAlert = analyzeVitals(fallVitals);
+  const answers = ["I'm okay", 'yes, I am fine', "I'm not okay", "I'm fine but I can't get up", 'help', 'No need for help, false alarm'];
+  const okAnswers = answers.filter(isOkAnswer);
+  const notAnswers = ['In 1962 we went to Blackpool on the train', 'What is the weather like today?'].filter(isFallAnswer);
+
+  // Answered by voice: stood down before anyone is told
+  const firstCheck = await startFallCheck(fallUser, fallAlert, fallVitals, '/api/safety/vitals');
+  const held = await alertRepository.get(firstCheck.alertId);
+  const fallScreen = screenSafety({ from: 'body', field: 'input' });
+  // A story told while the check is waiting isn't an answer to it, so the route still gets it
+  const storyScreen = screenSafety({ from: 'body', field: 'storyInput' });
+  const storyDuringCheck = await runScreen(storyScreen, '/api/memory', { userId: fallUser, storyInput: 'In 1962 we went to Blackpool on the train with Uncle Bob.' });
+  const stillWaiting = await pendingFallCheck(fallUser);
+  const { reply: fallReply } = await runScreen(fallScreen, '/api/chatbox', { userId: fallUser, input: "I'm fine, just a bit embarrassed" });
+  const stoodDown = await alertRepository.get(firstCheck.alertId);
+
+  // No answer: the sweep sends it out, and a late "I'm okay" stops escalation
+  const secondCheck = await startFallCheck(fallUser, fallAlert, fallVitals, '/api/safety/vitals');
+  await escalateDueAlerts(new Date(Date.now() + 61_000));
+  const unanswered = await alertRepository.get(secondCheck.alertId);
+  const lateOk = await answerFallCheck(fallUser, { ok: true, channel: 'button' });
+
+  // Asking for help sends it out at once
+  const thirdCheck = await startFallCheck(fallUser, fallAlert, fallVitals, '/api/safety/vitals');
+  const help = await answerFallCheck(fallUser, { text: "I can't get up", channel: 'voice' });
+  // Delivery failing after no answer is retried, with no answer recorded once
+  const fourthCheck = await startFallCheck(fallUser, fallAlert, fallVitals, '/api/safety/vitals');
+  const storedAdd = outboxRepository.add;
+  outboxRepository.add = () => Promise.reject(new Error('outbox is down'));
+  await escalateDueAlerts(new Date(Date.now() + 61_000));
+  await escalateDueAlerts(new Date(Date.now() + 2 * 61_000));
+  const undelivered = await alertRepository.get(fourthCheck.alertId);
+  outboxRepository.add = storedAdd;
+  await escalateDueAlerts(new Date(Date.now() + 3 * 61_000));
+  const redelivered = await alertRepository.get(fourthCheck.alertId);
+  await answerFallCheck(fallUser, { ok: true, channel: 'button' });
+  const actions = (alert: AlertRecord | null) => alert?.history.map((entry) => entry.action).join('→');
+  console.log(`  "I'm okay" answers: ${okAnswers.map((answer) => `"${answer}"`).join(', ')}`);
+  console.log(`  Story during the check passed on: ${storyDuringCheck.passedOn}, still waiting: ${stillWaiting?.id === firstCheck.alertId}`);
+  console.log(`  Answered: ${held?.status} → ${stoodDown?.status} (${actions(stoodDown)}), reply "${fallReply?.ttsText}"`);
+  console.log(`  Silent: ${unanswered?.status} (${actions(unanswered)}), late okay → ${actions(lateOk.alert)}`);
+  console.log(`  Help: ${help.alert.status} (${actions(help.alert)})`);
+  console.log(`  Undelivered: ${undelivered?.status} (${actions(undelivered)}), then ${redelivered?.status}\n`);
+  if (
+    okAnswers.join('|') !== "I'm okay|yes, I am fine|No need for help, false alarm" ||
+    !answers.every(isFallAnswer) ||
+    notAnswers.length > 0 ||
+    held?.status !== 'awaiting_response' ||
+    !storyDuringCheck.passedOn ||
+    storyDuringCheck.reply !== null ||
+    stillWaiting?.id !== firstCheck.alertId ||
+    fallReply?.fallCheck?.outcome !== 'ok' ||
+    stoodDown?.status !== 'resolved' ||
+    stoodDown.history.at(-1)?.channel !== 'text' ||
+    unanswered?.status !== 'notified' ||
+    actions(unanswered) !== 'raised→no_response→notified' ||
+    lateOk.alert.escalate_at !== null ||
+    lateOk.alert.history.at(-1)?.action !== 'user_ok' ||
+    help.alert.id !== thirdCheck.alertId ||
+    help.alert.status !== 'notified' ||
+    help.alert.history.at(-1)?.action !== 'notified' ||
+    undelivered?.status !== 'open' ||
+    actions(undelivered) !== 'raised→no_response→delivery_failed→delivery_failed' ||
+    redelivered?.status !== 'notified' ||
+    (await pendingFallCheck(fallUser)) !== null
+  ) {
+    throw new Error('Fall follow-up failed');
+  }
+
+  // Test 19: Check-in plans from structured LLM output, with a fallback
+  console.log('✓ Test 19: Check-in Plans');
+  const planUser = `test-plan-${Date.now()}`;
+  // Tomorrow morning, so the dose isn't from before the medication was added
+  const planNow = new Date(`${addDays(new Date().toISOString().slice(0, 10), 1)}T08:30:00Z`);
+  await preferencesRepository.save(planUser, { timezone: 'UTC', interests: ['gardening'], favorite_time: 'morning' });
+  await addMedication(planUser, { name: 'Blood pressure tablet', dosage: '5mg', times: ['09:00'], withFood: true });
+
+  const scripted = (replies: string[]) => {
+    const requests: string[] = [];
+    const provider: LLMProvider = {
+      ...createOfflineProvider(),
+      async generateJSON(request) {
+        requests.push(request.previous ? `retry: ${request.previous.problem}` : 'first');
+        return replies[Math.min(requests.length - 1, replies.length - 1)];
+      },
+    };
+    return { provider, requests };
+  };
+  const goodReply = JSON.stringify({
+    summary: 'A calm morning in the garden.',
+    next_step: 'Take your blood pressure tablet with breakfast.',
+    mood: 'good',
+    tags: ['Medication', 'hobby', 'medication'],
+  });
+  const retried = scripted(['Sure! Here is your plan: {"summary": "A calm morning"}', goodReply]);
+  const fromLLM = await generateCheckInPlan(planUser, { mood: 'low' }, { now: planNow, provider: retried.provider });
+  const invalid = scripted(['not JSON at all']);
+  const afterInvalid = await generateCheckInPlan(planUser, { mood: 'ok' }, { now: planNow, provider: invalid.provider });
+  const offline = await generateCheckInPlan(planUser, { userInput: 'I feel so lonely today' }, { now: planNow, provider: createOfflineProvider() });
+  const planSchema = toJSONSchema(PlanJSONSchema);
+  console.log(`  LLM (${retried.requests.join(', ')}): ${fromLLM.source} ${fromLLM.plan.mood} [${fromLLM.plan.tags.join(', ')}]`);
+  console.log(`  Invalid twice (${invalid.requests.length} calls): ${afterInvalid.source} "${afterInvalid.plan.next_step}"`);
+  console.log(`  Offline: ${offline.source} ${offline.plan.mood} "${offline.plan.summary}"`);
+  console.log(`  Schema: ${planSchema.required?.join(', ')}\n`);
+  if (
+    fromLLM.source !== 'llm' ||
+    retried.requests.length !== 2 ||
+    !retried.requests[1].startsWith('retry:') ||
+    fromLLM.plan.mood !== 'low' ||
+    fromLLM.plan.tags.join(',') !== 'medication,hobby' ||
+    afterInvalid.source !== 'fallback' ||
+    invalid.requests.length !== 2 ||
+    !afterInvalid.plan.next_step.includes('Blood pressure tablet') ||
+    !afterInvalid.plan.tags.includes('medication') ||
+    offline.source !== 'fallback' ||
+    offline.plan.mood !== 'low' ||
+    !offline.plan.summary.includes('Blood pressure tablet') ||
+    planSchema.required?.join(',') !== 'summary,next_step,mood,tags'
+  ) {
+    throw new Error('Check-in plans failed');
+  }
+
+  // Test 20: Mood trends and sustained declines
+  console.log('✓ Test 20: Mood Trends');
+  const moodUser = `test-mood-${Date.now()}`;
+  await preferencesRepository.save(moodUser, { timezone: 'UTC' });
+  const moodDay = addDays(localDate(new Date(), 'UTC'), 10);
+  const moodAt = (days: number, time: string = '10:00') => new Date(`${addDays(moodDay, -days)}T${time}:00Z`);
+  const checkInMood = (days: number, mood: 'low' | 'ok' | 'good', time?: string) =>
+    checkInRepository.add(moodUser, { summary: '-', next_step: '-', mood, tags: [] }, moodAt(days, time).toISOString());
+
+  // Good, low, ok, low, (nothing), low, good: the third low day is a decline
+  const declineAlerts: string[] = [];
+  const noticeAfter = async (days: number) => {
+    const alert = await noticeMoodDecline(moodUser, moodAt(days, '12:00'));
+    declineAlerts.push(alert ? alert.event : '-');
+  };
+  await checkInMood(6, 'good');
+  await checkInMood(5, 'good');
+  await checkInMood(5, 'low', '18:00');
+  await noticeAfter(5);
+  await checkInMood(4, 'ok');
+  await checkInMood(3, 'low');
+  await noticeAfter(3);
+  await checkInMood(1, 'low');
+  await noticeAfter(1);
+  await checkInMood(0, 'good');
+  await noticeAfter(0);
+  for (const text of ["I'm so lonely without Jim", 'I feel worried about the doctor', 'What a lovely day']) {
+    await chatMessageRepository.add({ user_id: moodUser, role: 'user', text, emotion: null, timestamp: moodAt(1, '15:00').toISOString() });
+  }
+  await chatMessageRepository.add({ user_id: moodUser, role: 'amily', text: 'You must miss him', emotion: null, timestamp: moodAt(1, '15:01').toISOString() });
+
+  const moodTrends = await getMoodTrends(moodUser, { days: 7, weeks: 2 }, moodAt(0, '20:00'));
+  const [moodAlert] = await alertRepository.listForUser(moodUser);
+  console.log(`  Daily: ${moodTrends.daily.map((day) => day.mood ?? '·').join(' ')}`);
+  console.log(`  Weekly: ${moodTrends.weekly.map((week) => `${week.weekStart} ${week.checkIns} check-ins, ${week.lowDays} low, avg ${week.averageScore}`).join('; ')}`);
+  console.log(`  Streaks: ${JSON.stringify(moodTrends.streaks)}, emotions: ${JSON.stringify(moodTrends.emotions.counts)}`);
+  console.log(`  Decline: ${moodTrends.decline.lowDays}/${moodTrends.decline.windowDays} days since ${moodTrends.decline.since}, alerts ${declineAlerts.join(' → ')}`);
+  if (
+    moodTrends.daily.map((day) => day.mood ?? '-').join(',') !== 'good,low,ok,low,-,low,good' ||
+    moodTrends.daily[1].checkIns !== 2 ||
+    moodTrends.weekly.reduce((sum, week) => sum + week.checkIns, 0) !== 7 ||
+    moodTrends.weekly.reduce((sum, week) => sum + week.lowDays, 0) !== 3 ||
+    JSON.stringify(moodTrends.streaks) !== JSON.stringify({ checkInDays: 2, longestCheckInDays: 4, lowDays: 0, brighterDays: 1 }) ||
+    JSON.stringify(moodTrends.emotions) !== JSON.stringify({ total: 3, counts: { calm: 1, stressed: 1, confused: 0, lonely: 1 } }) ||
+    !moodTrends.decline.declining ||
+    moodTrends.decline.since !== addDays(moodDay, -5) ||
+    declineAlerts.join(',') !== '-,-,mood_decline,-' ||
+    moodAlert?.level !== 'concern' ||
+    moodAlert.context?.includes('Jim')
+  ) {
+    throw new Error('Mood trends failed');
+  }
+
+  // Once that's resolved and a new decline is raised, the open one holds back the next
+  await alertRepository.update(moodAlert.id, { status: 'resolved' });
+  const laterAlerts: string[] = [];
+  for (const days of [-6, -7, -8, -9]) {
+    await checkInMood(days, 'low');
+    const alert = await noticeMoodDecline(moodUser, moodAt(days, '12:00'));
+    laterAlerts.push(alert ? alert.event : '-');
+  }
+  const moodAlerts = await alertRepository.listForUser(moodUser);
+  console.log(`  After resolving: alerts ${laterAlerts.join(' → ')}, ${moodAlerts.length} in all\n`);
+  if (laterAlerts.join(',') !== '-,-,mood_decline,-' || moodAlerts.length !== 2 || moodAlerts[0].status === 'resolved') {
+    throw new Error('Mood decline after a resolved alert failed');
+  }
+
+  // Test 21: MemoryLane extraction, by the LLM or by rules
+  console.log('✓ Test 21: Memory Extraction');
+  const stories = [
+    'In 1962 we went to Blackpool on the train with Uncle Bob and Aunt May. Bob said "this is the best day of my life" when we saw the sea.',
+    'When I was eight my brother Tom and I built a den in the woods. Mum called us in for tea. We never did finish it',
+    'I worked at the factory in Leeds for thirty years. My boss, Mr Hargreaves, was a kind man.',
+    'the weather was nice',
+  ];
+  const ruled = stories.map(extractMemoryWithRules);
+  const memoryReply = JSON.stringify({
+    title: 'Summers at Blackpool',
+    era: '1960s',
+    story_3_sentences: 'We went to Blackpool by train. Uncle Bob came too. He loved the sea.',
+    tags: ['travel', 'family'],
+    quote: ' this is the best day of my life ',
+    people: ['Uncle Bob', 'Aunt May', 'uncle bob'],
+    places: ['Blackpool'],
+  });
+  const memoryLLM = scripted([memoryReply.replace('"family"', '"seaside"'), memoryReply]);
+  const fromModel = await extractMemory(stories[0], { provider: memoryLLM.provider });
+  const offlineMemory = await extractMemory(stories[1], { provider: createOfflineProvider() });
+  const memorySchema = toJSONSchema(MemoryJSONSchema);
+  for (const memory of ruled) {
+    console.log(`  "${memory.title}" (${memory.era}) [${memory.tags.join(', ')}] people: ${memory.people?.join(', ') || '-'}; places: ${memory.places?.join(', ') || '-'}`);
+  }
+  console.log(`  LLM (${memoryLLM.requests.join(', ')}): ${fromModel.source} "${fromModel.memory.title}", quote "${fromModel.memory.quote}"`);
+  console.log(`  Offline: ${offlineMemory.source} "${offlineMemory.memory.title}"\n`);
+  if (
+    ruled[0].era !== '1960s' ||
+    ruled[0].title !== 'A trip to Blackpool' ||
+    ruled[0].quote !== 'this is the best day of my life' ||
+    ruled[0].people?.join(',') !== 'Uncle Bob,Aunt May' ||
+    ruled[0].places?.join(',') !== 'Blackpool' ||
+    !ruled[0].tags.includes('travel') ||
+    ruled[1].era !== 'Childhood' ||
+    ruled[1].people?.join(',') !== 'my brother Tom,Mum' ||
+    ruled[1].story_3_sentences !== 'When I was eight my brother Tom and I built a den in the woods. Mum called us in for tea. We never did finish it.' ||
+    ruled[2].era !== 'Working years' ||
+    ruled[2].places?.join(',') !== 'Leeds' ||
+    ruled[2].people?.includes('Mr Hargreaves') !== true ||
+    ruled[3].era !== 'Undated' ||
+    ruled[3].tags.join(',') !== 'personal' ||
+    ruled.some((memory) => !MemoryJSONSchema.safeParse(memory).success) ||
+    fromModel.source !== 'llm' ||
+    memoryLLM.requests.length !== 2 ||
+    fromModel.memory.quote !== 'this is the best day of my life' ||
+    fromModel.memory.people?.join(',') !== 'Uncle Bob,Aunt May' ||
+    offlineMemory.source !== 'fallback' ||
+    offlineMemory.memory.era !== 'Childhood' ||
+    memorySchema.properties?.tags.items?.enum?.length !== 18
+  ) {
+    throw new Error('Memory extraction failed');
+  }
+
+  // Test 22: MemoryLane timeline, search, corrections and replays
+  console.log('✓ Test 22: MemoryLane');
+  const laneUser = `test-lane-${Date.now()}`;
+  const laneStories = [
+    'I worked at the factory in Leeds for thirty years. My boss, Mr Hargreaves, was a kind man.',
+    'When I was eight my brother Tom and I built a den in the woods. Mum called us in for tea.',
+    'In 1962 we went to Blackpool on the train with Uncle Bob and Aunt May.',
+    'Every Saturday Dad took me to the bakery on Mill Lane for a warm loaf. It smelled like heaven.',
+    'In 1958 Uncle Bob taught me to ride a bike.',
+  ];
+  const laneIds: string[] = [];
+  for (const story of laneStories) laneIds.push((await memoryRepository.add(laneUser, extractMemoryWithRules(story))).id);
+
+  const laneTimeline = await getMemoryTimeline(laneUser);
+  const bySearch = async (query: Parameters<typeof searchMemories>[1]) => (await searchMemories(laneUser, query)).map((memory) => laneIds.indexOf(memory.id)).join(',');
+  const searches = {
+    bob: await bySearch({ person: 'bob' }),
+    travel: await bySearch({ tag: 'travel' }),
+    sixties: await bySearch({ era: '1960' }),
+    words: await bySearch({ q: 'warm loaf' }),
+    none: await bySearch({ q: 'submarine' }),
+    // Whole words only, though the ending may differ
+    partWord: await bySearch({ q: 'rain' }),
+    ending: await bySearch({ q: 'bakers' }),
+  };
+  const bakery = await findMemoryAbout(laneUser, 'Tell me that story about the bakery again');
+  const replay = await replayMemory(bakery);
+  const corrected = await updateMemory(laneUser, laneIds[3], { title: 'Saturday bread with Dad', era: 'Childhood' });
+  const denied = await getAccessibleMemory('someone-else', laneIds[0]).catch((error) => error);
+  const notMine = await deleteMemory('someone-else', laneIds[0]).catch((error) => error);
+  await deleteMemory(laneUser, laneIds[0]);
+  const afterDelete = await getMemoryTimeline(laneUser);
+  const unknownStory = await findMemoryAbout(laneUser, 'the one about the submarine').catch((error) => error);
+  const partWordStory = await findMemoryAbout(laneUser, 'the one about the rain').catch((error) => error);
+  console.log(`  Timeline: ${laneTimeline.map((group) => `${group.era} (${group.memories.length})`).join(' → ')}`);
+  console.log(`  Search: ${JSON.stringify(searches)}`);
+  console.log(`  Replay "${bakery.memory.title}": ${replay.ttsText}`);
+  console.log(`  Corrected: "${corrected.title}" (${corrected.era}), after delete: ${afterDelete.map((group) => group.era).join(' → ')}\n`);
+  if (
+    laneTimeline.map((group) => group.era).join(',') !== '1950s,1960s,Childhood,Working years,Undated' ||
+    searches.bob !== '4,2' ||
+    searches.travel !== '2' ||
+    searches.sixties !== '2' ||
+    searches.words !== '3' ||
+    searches.none !== '' ||
+    searches.partWord !== '' ||
+    searches.ending !== '3' ||
+    bakery.id !== laneIds[3] ||
+    !replay.ttsText.includes('bakery') ||
+    !replay.audioUrl ||
+    corrected.updatedAt === null ||
+    corrected.story_3_sentences !== extractMemoryWithRules(laneStories[3]).story_3_sentences ||
+    !(denied instanceof MemoryError) ||
+    denied.status !== 404 ||
+    !(notMine instanceof MemoryError) ||
+    afterDelete.map((group) => group.era).join(',') !== '1950s,1960s,Childhood' ||
+    afterDelete[2].memories.map((memory) => memory.id).join(',') !== `${laneIds[1]},${laneIds[3]}` ||
+    !(unknownStory instanceof MemoryError) ||
+    !(partWordStory instanceof MemoryError)
+  ) {
+    throw new Error('MemoryLane failed');
+  }
+
+  // Test 23: Family book exports of shareable memories
+  console.log('✓ Test 23: Family book export');
+  const bookUser = `test-book-${Date.now()}`;
+  const bookStories = [
+    { story: 'In 1962 we went to Blackpool on the train with Uncle Bob. Dad said "Hold on to your hats!"', shareable: true },
+    { story: 'I worked at the factory in Leeds for thirty years.', shareable: true },
+    { story: 'In 1958 Uncle Bob taught me to ride a bike.', shareable: true },
+    { story: 'The doctor told me about my heart in 1990. I never told the children.', shareable: false },
+  ];
+  const bookIds: string[] = [];
+  for (const { story, shareable } of bookStories) {
+    bookIds.push((await memoryRepository.add(bookUser, extractMemoryWithRules(story), shareable)).id);
+  }
+  const bookDir = fs.mkdtempSync(path.join(os.tmpdir(), 'amily-book-'));
+  const exporter = createMemoryBookExporter({ dir: bookDir, keepHours: 24 });
+
+  const notShared = await exporter.request(bookUser, `test-book-none-${Date.now()}`, 'pdf').catch((error) => error);
+  const books: Record<string, Buffer> = {};
+  const jobs = [];
+  for (const format of ['markdown', 'html', 'epub', 'pdf'] as const) {
+    jobs.push(await exporter.request(bookUser, bookUser, format, 'Grandad’s Stories'));
+  }
+  await exporter.idle();
+  for (const job of jobs) {
+    const done = (await memoryExportRepository.get(job.id))!;
+    if (done.status !== 'ready') throw new Error(`Family book ${job.format} is ${done.status}: ${done.error}`);
+    books[job.format] = fs.readFileSync(exporter.filePath(done));
+  }
+  const markdown = books.markdown.toString('utf8');
+  const chapterOrder = [...markdown.matchAll(/^## (.+)$/gm)].map((match) => match[1]).join(',');
+  const pdfText = books.pdf.toString('latin1');
+  const epubNames: string[] = [];
+  for (let offset = 0; books.epub.readUInt32LE(offset) === 0x04034b50; ) {
+    const nameLength = books.epub.readUInt16LE(offset + 26);
+    epubNames.push(books.epub.toString('utf8', offset + 30, offset + 30 + nameLength));
+    offset += 30 + nameLength + books.epub.readUInt32LE(offset + 18);
+  }
+
+  // Storage failing while a book is recorded is logged, not left to crash the process
+  const storedUpdate = memoryExportRepository.update;
+  memoryExportRepository.update = () => Promise.reject(new Error('storage is down'));
+  const unrecorded = await exporter.request(bookUser, bookUser, 'markdown');
+  await exporter.idle();
+  memoryExportRepository.update = storedUpdate;
+  const stillPending = (await memoryExportRepository.get(unrecorded.id))!;
+
+  // Once a book has passed its keeping time, its file goes
+  const expired = await exporter.clearExpired(new Date(Date.now() + 25 * 60 * 60 * 1000));
+  const afterExpiry = (await memoryExportRepository.get(jobs[0].id))!;
+  fs.rmSync(bookDir, { recursive: true, force: true });
+  console.log(`  Chapters: ${chapterOrder}`);
+  console.log(`  Sizes: ${Object.entries(books).map(([format, data]) => `${format} ${data.length}B`).join(', ')}`);
+  console.log(`  EPUB entries: ${epubNames.join(', ')}`);
+  console.log(`  Nothing shared: ${notShared.message}, expired: ${expired}\n`);
+  if (
+    !(notShared instanceof MemoryError) ||
+    notShared.status !== 409 ||
+    chapterOrder !== '1950s,1960s,Working years' ||
+    !markdown.includes('Hold on to your hats!') ||
+    markdown.includes('doctor') ||
+    !books.html.toString('utf8').startsWith('<!DOCTYPE html>') ||
+    !books.html.toString('utf8').includes('Grandad’s Stories') ||
+    books.html.toString('utf8').includes('doctor') ||
+    epubNames[0] !== 'mimetype' ||
+    books.epub.toString('latin1', 30, 38) !== 'mimetype' ||
+    books.epub.toString('latin1', 38, 58) !== 'application/epub+zip' ||
+    !epubNames.includes('OEBPS/content.opf') ||
+    !pdfText.startsWith('%PDF-1.4') ||
+    !pdfText.trimEnd().endsWith('%%EOF') ||
+    !pdfText.includes('(Grandad\\222s Stories)') ||
+    !pdfText.includes('Blackpool') ||
+    pdfText.includes('doctor') ||
+    stillPending.status !== 'pending' ||
+    expired !== 4 ||
+    afterExpiry.status !== 'expired'
+  ) {
+    throw new Error('Family book export failed');
+  }
+
   console.log('🌸 All tests passed!\n');
 }
 
-runTests().catch(console.error);
+runTests().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
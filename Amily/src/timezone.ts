@@ -0,0 +1,110 @@
+/**
+ * Time Zones
+ *
+ * Users live in their own time zone, so "08:00" and "today" are worked
+ * out on their wall clock rather than the server's. Local times are kept
+ * as plain "YYYY-MM-DDTHH:MM" strings, which sort and compare in order.
+ */
+
+import { config } from './config';
+import { preferencesRepository } from './repositories';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock time in a time zone, "YYYY-MM-DDTHH:MM"
+ */
+export function localDateTime(date: Date, timeZone: string): string {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone).formatToParts(date).map((part) => [part.type, part.value])
+  );
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}`;
+}
+
+/**
+ * The date in a time zone, "YYYY-MM-DD"
+ */
+export function localDate(date: Date, timeZone: string): string {
+  return localDateTime(date, timeZone).slice(0, 10);
+}
+
+/**
+ * Shift a "YYYY-MM-DD" date by whole days
+ */
+export function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * The Monday on or before a "YYYY-MM-DD" date
+ */
+export function weekStart(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((day + 6) % 7));
+}
+
+/**
+ * Shift a local "YYYY-MM-DDTHH:MM" time by minutes on the wall clock
+ */
+export function addMinutes(local: string, minutes: number): string {
+  return new Date(Date.parse(`${local}:00Z`) + minutes * 60_000).toISOString().slice(0, 16);
+}
+
+/**
+ * Minutes from one local time to another
+ */
+export function minutesBetween(from: string, to: string): number {
+  return (Date.parse(`${to}:00Z`) - Date.parse(`${from}:00Z`)) / 60_000;
+}
+
+/**
+ * The instant a local wall-clock time ("YYYY-MM-DDTHH:MM[:SS]") happens in a
+ * time zone. Times skipped by a clock change land an hour later.
+ */
+export function fromLocalDateTime(local: string, timeZone: string): Date {
+  const exact = Date.parse(`${local.length === 16 ? `${local}:00` : local}Z`);
+  const seconds = exact % 60_000;
+  const wanted = exact - seconds;
+  let guess = wanted;
+  // Twice, in case the first guess lands on the other side of a clock change
+  for (let i = 0; i < 2; i++) {
+    guess += wanted - Date.parse(`${localDateTime(new Date(guess), timeZone)}:00Z`);
+  }
+  return new Date(guess + seconds);
+}
+
+/**
+ * The user's time zone, or the server default when they haven't set one
+ */
+export async function getUserTimeZone(userId: string): Promise<string> {
+  const { timezone } = await preferencesRepository.get(userId);
+  return timezone && isValidTimeZone(timezone) ? timezone : config.reminders.defaultTimeZone;
+}
@@ -0,0 +1,205 @@
+/**
+ * Text-to-Speech Layer
+ *
+ * TTS providers (ElevenLabs, plus a local stand-in) behind a
+ * content-addressed disk cache. Each clip is keyed by a hash of the
+ * text, voice and settings, so repeated phrases are synthesized once
+ * and served from /api/audio/:id.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { config, type TTSProviderName } from './config';
+
+export const ELEVENLABS_TTS_MODEL = 'eleven_monolingual_v1';
+
+export interface VoiceSettings {
+  voiceId: string;
+  stability: number;
+  similarityBoost: number;
+}
+
+export interface TTSProvider {
+  name: TTSProviderName;
+  model: string;
+  fileExtension: 'mp3' | 'wav';
+  synthesize(text: string, voice: VoiceSettings): Promise<Buffer>;
+}
+
+const AUDIO_ID_PATTERN = /^[a-f0-9]{40}$/;
+
+/**
+ * ElevenLabs text-to-speech API
+ */
+export function createElevenLabsProvider(apiKey: string): TTSProvider {
+  return {
+    name: 'elevenlabs',
+    model: ELEVENLABS_TTS_MODEL,
+    fileExtension: 'mp3',
+    async synthesize(text, voice) {
+      const response = await fetch(
+        `https://api.elevenlabs.io/v1/text-to-speech/${voice.voiceId}`,
+        {
+          method: 'POST',
+          headers: {
+            'xi-api-key': apiKey,
+            'Content-Type': 'application/json',
+            Accept: 'audio/mpeg',
+          },
+          body: JSON.stringify({
+            text,
+            model_id: ELEVENLABS_TTS_MODEL,
+            voice_settings: {
+              stability: voice.stability,
+              similarity_boost: voice.similarityBoost,
+            },
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const errText = await response.text().catch(() => '');
+        console.error('ElevenLabs API error:', response.status, errText);
+        throw new Error(
+          `ElevenLabs API error: ${response.status} ${errText || ''}`.trim()
+        );
+      }
+
+      return Buffer.from(await response.arrayBuffer());
+    },
+  };
+}
+
+/**
+ * Silent 8-bit mono WAV of the given length
+ */
+function buildSilentWav(durationMs: number): Buffer {
+  const sampleRate = 8000;
+  const samples = Math.round((sampleRate * durationMs) / 1000);
+  const buffer = Buffer.alloc(44 + samples, 0x80); // 8-bit PCM silence is 0x80
+
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + samples, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16); // fmt chunk size
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(1, 22); // mono
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate, 28); // byte rate
+  buffer.writeUInt16LE(1, 32); // block align
+  buffer.writeUInt16LE(8, 34); // bits per sample
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(samples, 40);
+
+  return buffer;
+}
+
+/**
+ * Local stand-in: silence roughly as long as the text would take to say,
+ * so clients can exercise playback without a TTS vendor
+ */
+export function createLocalTTSProvider(): TTSProvider {
+  return {
+    name: 'local',
+    model: 'local-silence',
+    fileExtension: 'wav',
+    async synthesize(text) {
+      const durationMs = Math.min(30_000, Math.max(250, text.length * 60));
+      return buildSilentWav(durationMs);
+    },
+  };
+}
+
+let provider: TTSProvider | null = null;
+
+/**
+ * Get the configured TTS provider
+ */
+export function getTTSProvider(): TTSProvider {
+  if (!provider) {
+    if (config.tts.provider === 'elevenlabs') {
+      if (!config.keys.elevenLabs) {
+        throw new Error('ELEVENLABS_API_KEY is missing – cannot generate audio.');
+      }
+      provider = createElevenLabsProvider(config.keys.elevenLabs);
+    } else {
+      provider = createLocalTTSProvider();
+    }
+  }
+  return provider;
+}
+
+/**
+ * Content address for a clip: same text, voice and settings → same id
+ */
+export function audioId(text: string, tts: TTSProvider, voice: VoiceSettings): string {
+  return createHash('sha1')
+    .update(JSON.stringify([tts.name, tts.model, voice.voiceId, voice.stability, voice.similarityBoost, text]))
+    .digest('hex');
+}
+
+/**
+ * Find a cached clip on disk
+ */
+export function findCachedAudio(id: string): string | null {
+  if (!AUDIO_ID_PATTERN.test(id)) return null;
+  for (const extension of ['mp3', 'wav']) {
+    const filePath = path.join(config.tts.cacheDir, `${id}.${extension}`);
+    if (fs.existsSync(filePath)) return filePath;
+  }
+  return null;
+}
+
+/**
+ * Split finished sentences off the front of streamed text, keeping the
+ * unfinished remainder for the next chunk
+ */
+export function takeSentences(buffer: string): { sentences: string[]; rest: string } {
+  const sentences: string[] = [];
+  const boundary = /[^.!?…]*[.!?…]+["')\]]*\s+/y;
+  let match: RegExpExecArray | null;
+  let consumed = 0;
+
+  while ((match = boundary.exec(buffer)) !== null) {
+    const sentence = match[0].trim();
+    if (sentence) sentences.push(sentence);
+    consumed = boundary.lastIndex;
+  }
+
+  return { sentences, rest: buffer.slice(consumed) };
+}
+
+// Clips currently being synthesized, so concurrent requests share one call
+const pending = new Map<string, Promise<string>>();
+
+/**
+ * Synthesize text (or reuse the cached clip) and return its /api/audio URL
+ */
+export async function synthesizeToUrl(text: string): Promise<string> {
+  const tts = getTTSProvider();
+  const voice = config.tts.voice;
+  const id = audioId(text, tts, voice);
+
+  if (findCachedAudio(id)) {
+    return `/api/audio/${id}`;
+  }
+
+  let job = pending.get(id);
+  if (!job) {
+    job = (async () => {
+      const audio = await tts.synthesize(text, voice);
+      const filePath = path.join(config.tts.cacheDir, `${id}.${tts.fileExtension}`);
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await fs.promises.mkdir(config.tts.cacheDir, { recursive: true });
+      await fs.promises.writeFile(tmpPath, audio);
+      await fs.promises.rename(tmpPath, filePath);
+      console.log(`🎵 [${tts.name}] Synthesized and cached: "${text.substring(0, 50)}..."`);
+      return `/api/audio/${id}`;
+    })().finally(() => pending.delete(id));
+    pending.set(id, job);
+  }
+
+  return job;
+}
@@ -0,0 +1,94 @@
+/**
+ * Request Validation
+ *
+ * Express middleware that parses the body, query and path params with
+ * Zod schemas. Handlers receive the parsed (typed, defaulted) values;
+ * bad input gets a gentle 400 in Amily's voice.
+ */
+
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { z } from 'zod';
+
+interface RequestSchemas {
+  body?: z.ZodTypeAny;
+  query?: z.ZodTypeAny;
+  params?: z.ZodTypeAny;
+}
+
+type Infer<S> = S extends z.ZodTypeAny ? z.output<S> : any;
+
+/**
+ * A request whose parts have been through validate()
+ */
+export type ValidatedRequest<
+  Body = any,
+  Query = any,
+  Params extends Record<string, string> = Record<string, string>,
+> = Request<Params, any, Body, Query>;
+
+/**
+ * Turn "storyInput" into "story input"
+ */
+function fieldName(path: (string | number)[]): string {
+  const last = [...path].reverse().find((part) => typeof part === 'string') as string | undefined;
+  return (last || 'details').replace(/([a-z])([A-Z])/g, '$1 $2').replace(/_/g, ' ').toLowerCase();
+}
+
+/**
+ * A friendly sentence for one validation issue. Messages written in the
+ * schemas are used as-is; Zod's defaults are replaced.
+ */
+function friendlyMessage(issue: z.ZodIssue): string {
+  const field = fieldName(issue.path);
+  if (issue.code === 'custom' || !isDefaultMessage(issue)) {
+    return issue.message;
+  }
+  if (issue.code === 'invalid_type' && issue.received === 'undefined') {
+    return `I'm missing your ${field}… could you share it with me?`;
+  }
+  if (issue.code === 'invalid_enum_value') {
+    return `I didn't quite understand the ${field}… could you pick one of: ${issue.options.join(', ')}?`;
+  }
+  return `Something about the ${field} didn't look quite right… let's try that again.`;
+}
+
+function isDefaultMessage(issue: z.ZodIssue): boolean {
+  const { message } = z.defaultErrorMap(issue, { defaultError: '', data: undefined });
+  return issue.message === message;
+}
+
+/**
+ * Validate request parts, replacing them with the parsed values
+ */
+export function validate<S extends RequestSchemas>(
+  schemas: S
+): RequestHandler<Infer<S['params']>, any, Infer<S['body']>, Infer<S['query']>> {
+  return (req: Request<any, any, any, any>, res: Response, next: NextFunction) => {
+    const issues: z.ZodIssue[] = [];
+
+    for (const part of ['params', 'query', 'body'] as const) {
+      const schema = schemas[part];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[part] ?? {});
+      if (result.success) {
+        req[part] = result.data;
+      } else {
+        issues.push(...result.error.issues.map((issue) => ({ ...issue, path: [part, ...issue.path] })));
+      }
+    }
+
+    if (issues.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: friendlyMessage(issues[0]),
+        details: issues.map((issue) => ({
+          field: issue.path.join('.'),
+          message: friendlyMessage(issue),
+        })),
+      });
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,456 @@
+/**
+ * Vital Signs
+ *
+ * Readings from a watch or entered by hand are kept as a time series per
+ * metric. Each user gets a rolling personal baseline, and we act only on
+ * sustained deviations (several unusual readings in a row, or several
+ * unusual days for steps and sleep), never on a single spike.
+ */
+
+import { config, type VitalMetric } from './config';
+import { alertRepository, vitalsRepository, type VitalReadingRecord } from './repositories';
+import { addDays, getUserTimeZone, localDate } from './timezone';
+import type { VitalsData } from './safety';
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const VITAL_METRICS: VitalMetric[] = ['heart_rate', 'spo2', 'bp_systolic', 'bp_diastolic', 'temperature', 'steps', 'sleep_hours'];
+
+export const VITAL_UNITS: Record<VitalMetric, string> = {
+  heart_rate: 'bpm',
+  spo2: '%',
+  bp_systolic: 'mmHg',
+  bp_diastolic: 'mmHg',
+  temperature: '°C',
+  steps: 'steps',
+  sleep_hours: 'hours',
+};
+
+/** Judged as daily totals rather than reading by reading */
+const DAILY_METRICS: VitalMetric[] = ['steps', 'sleep_hours'];
+
+/** The least spread a baseline is given, so a very steady history doesn't make every small wobble unusual */
+const MIN_SPREAD: Record<VitalMetric, number> = {
+  heart_rate: 5,
+  spo2: 1,
+  bp_systolic: 8,
+  bp_diastolic: 5,
+  temperature: 0.3,
+  steps: 800,
+  sleep_hours: 0.75,
+};
+
+/** More steps than usual is good news, not a concern */
+const IGNORED_DIRECTION: Partial<Record<VitalMetric, 'low' | 'high'>> = { steps: 'high' };
+
+export interface VitalReading {
+  metric: VitalMetric;
+  value: number;
+  timestamp: string;
+}
+
+/**
+ * Median and median absolute deviation (scaled to match a standard
+ * deviation), so one odd reading doesn't skew the baseline
+ */
+export interface VitalBaseline {
+  median: number;
+  spread: number;
+  samples: number;
+}
+
+export interface VitalDeviation {
+  metric: VitalMetric;
+  direction: 'low' | 'high';
+  /** Outside the configured range, or only unusual for this user */
+  kind: 'threshold' | 'baseline';
+  /** The readings (or daily totals) that made it sustained, oldest first */
+  values: number[];
+  baseline: VitalBaseline | null;
+  /** Time of the first of those readings, or its date for daily metrics */
+  since: string;
+  /** …and of the last */
+  until: string;
+}
+
+export interface VitalTrend {
+  metric: VitalMetric;
+  unit: string;
+  latest: { value: number; timestamp: string } | null;
+  /** Per reading, or per day for steps and sleep, over the period */
+  average: number | null;
+  min: number | null;
+  max: number | null;
+  /** Compared with the period before */
+  trend: 'rising' | 'falling' | 'steady' | null;
+  baseline: VitalBaseline | null;
+  /** A sustained deviation right now, if there is one */
+  status: 'normal' | 'low' | 'high';
+  daily: { date: string; value: number; readings: number }[];
+}
+
+function round(value: number, places: number = 1): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * The separate readings in one sample from a device
+ */
+export function readingsFromSample(vitals: VitalsData): VitalReading[] {
+  const { timestamp } = vitals;
+  const readings: VitalReading[] = [];
+  const add = (metric: VitalMetric, value: number | undefined) => {
+    if (value !== undefined) readings.push({ metric, value, timestamp });
+  };
+
+  add('heart_rate', vitals.heartRate);
+  add('spo2', vitals.spo2);
+  add('bp_systolic', vitals.bloodPressure?.systolic);
+  add('bp_diastolic', vitals.bloodPressure?.diastolic);
+  add('temperature', vitals.temperature);
+  add('steps', vitals.steps);
+  add('sleep_hours', vitals.sleepHours);
+  return readings;
+}
+
+/**
+ * Store readings, skipping any already stored; returns the new ones
+ */
+export async function recordVitals(userId: string, readings: VitalReading[], source: string): Promise<VitalReadingRecord[]> {
+  return vitalsRepository.addMany(userId, readings, source);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function baselineOf(values: number[]): VitalBaseline | null {
+  if (values.length < config.vitals.baselineMinSamples) return null;
+  const middle = median(values);
+  const spread = 1.4826 * median(values.map((value) => Math.abs(value - middle)));
+  return { median: round(middle, 2), spread: round(spread, 2), samples: values.length };
+}
+
+/**
+ * Whether one value is out of range, or unusual against the baseline
+ */
+function classify(
+  metric: VitalMetric,
+  value: number,
+  baseline: VitalBaseline | null
+): { direction: 'low' | 'high'; kind: VitalDeviation['kind'] } | null {
+  const { low, high } = config.vitals.thresholds[metric];
+  let result: { direction: 'low' | 'high'; kind: VitalDeviation['kind'] } | null = null;
+
+  if (low !== undefined && value < low) {
+    result = { direction: 'low', kind: 'threshold' };
+  } else if (high !== undefined && value > high) {
+    result = { direction: 'high', kind: 'threshold' };
+  } else if (baseline) {
+    const spread = config.vitals.deviationSd * Math.max(baseline.spread, MIN_SPREAD[metric]);
+    if (value < baseline.median - spread) result = { direction: 'low', kind: 'baseline' };
+    if (value > baseline.median + spread) result = { direction: 'high', kind: 'baseline' };
+  }
+
+  return result && result.direction !== IGNORED_DIRECTION[metric] ? result : null;
+}
+
+/**
+ * A deviation when every value is unusual the same way
+ */
+function sustained(
+  metric: VitalMetric,
+  values: number[],
+  baseline: VitalBaseline | null,
+  since: string,
+  until: string
+): VitalDeviation | null {
+  const found = values.map((value) => classify(metric, value, baseline));
+  const direction = found[0]?.direction;
+  if (!direction || found.some((result) => result?.direction !== direction)) return null;
+
+  return {
+    metric,
+    direction,
+    kind: found.every((result) => result?.kind === 'threshold') ? 'threshold' : 'baseline',
+    values,
+    baseline,
+    since,
+    until,
+  };
+}
+
+/**
+ * Totals per local date (steps walked, hours slept)
+ */
+function dailyTotals(readings: VitalReadingRecord[], timeZone: string): Map<string, { total: number; readings: number }> {
+  const totals = new Map<string, { total: number; readings: number }>();
+  for (const reading of readings) {
+    const date = localDate(new Date(reading.timestamp), timeZone);
+    const day = totals.get(date) || { total: 0, readings: 0 };
+    day.total += reading.value;
+    day.readings++;
+    totals.set(date, day);
+  }
+  return totals;
+}
+
+/**
+ * The last few readings, all unusual, close together and recent
+ */
+function readingDeviation(metric: VitalMetric, readings: VitalReadingRecord[], now: Date): VitalDeviation | null {
+  const { sustainedReadings, sustainedMinutes, baselineDays } = config.vitals;
+  const recent = readings.slice(-sustainedReadings);
+  if (recent.length < sustainedReadings) return null;
+
+  const first = Date.parse(recent[0].timestamp);
+  const last = Date.parse(recent[recent.length - 1].timestamp);
+  if (last - first > sustainedMinutes * MINUTE_MS || now.getTime() - last > sustainedMinutes * MINUTE_MS) {
+    return null;
+  }
+
+  const history = readings.filter((reading) => {
+    const at = Date.parse(reading.timestamp);
+    return at < first && at >= first - baselineDays * DAY_MS;
+  });
+  return sustained(
+    metric,
+    recent.map((reading) => reading.value),
+    baselineOf(history.map((reading) => reading.value)),
+    recent[0].timestamp,
+    recent[recent.length - 1].timestamp
+  );
+}
+
+/**
+ * The last few days, all unusual. Today's steps aren't finished yet, but
+ * last night's sleep is.
+ */
+function dailyDeviation(metric: VitalMetric, readings: VitalReadingRecord[], timeZone: string, now: Date): VitalDeviation | null {
+  const totals = dailyTotals(readings, timeZone);
+  const today = localDate(now, timeZone);
+  return dailyRun(metric, totals, metric === 'sleep_hours' && totals.has(today) ? today : addDays(today, -1));
+}
+
+/**
+ * The days up to `end`, all unusual against the days before them
+ */
+function dailyRun(metric: VitalMetric, totals: Map<string, { total: number }>, end: string): VitalDeviation | null {
+  const { sustainedDays, baselineDays } = config.vitals;
+  const days = Array.from({ length: sustainedDays }, (_, index) => addDays(end, index - sustainedDays + 1));
+  // A day without readings is a day the watch wasn't worn, not a day without steps
+  if (days.some((date) => !totals.has(date))) return null;
+
+  const from = addDays(days[0], -baselineDays);
+  const history = [...totals].filter(([date]) => date >= from && date < days[0]).map(([, day]) => day.total);
+  return sustained(metric, days.map((date) => totals.get(date)!.total), baselineOf(history), days[0], end);
+}
+
+/**
+ * Join overlapping runs into one episode each
+ */
+function addToEpisodes(episodes: VitalDeviation[], deviation: VitalDeviation | null, continues: boolean): boolean {
+  if (!deviation) return false;
+  const last = episodes[episodes.length - 1];
+  if (continues && last?.direction === deviation.direction) {
+    last.values.push(deviation.values[deviation.values.length - 1]);
+    last.until = deviation.until;
+    if (deviation.kind === 'baseline') last.kind = 'baseline';
+  } else {
+    episodes.push(deviation);
+  }
+  return true;
+}
+
+/**
+ * Every sustained run of unusual readings ending inside [from, to]. Each
+ * day's readings are compared with the baseline from the days before it.
+ */
+function readingEpisodes(metric: VitalMetric, readings: VitalReadingRecord[], from: number, to: number): VitalDeviation[] {
+  const { sustainedReadings, sustainedMinutes, baselineDays } = config.vitals;
+  const baselines = new Map<string, VitalBaseline | null>();
+  const baselineFor = (timestamp: string) => {
+    const day = timestamp.slice(0, 10);
+    if (!baselines.has(day)) {
+      const start = Date.parse(`${day}T00:00:00Z`);
+      const history = readings.filter((reading) => {
+        const at = Date.parse(reading.timestamp);
+        return at < start && at >= start - baselineDays * DAY_MS;
+      });
+      baselines.set(day, baselineOf(history.map((reading) => reading.value)));
+    }
+    return baselines.get(day)!;
+  };
+
+  const episodes: VitalDeviation[] = [];
+  let continues = false;
+  for (let index = sustainedReadings - 1; index < readings.length; index++) {
+    const at = Date.parse(readings[index].timestamp);
+    if (at < from || at > to) continue;
+
+    const run = readings.slice(index - sustainedReadings + 1, index + 1);
+    const deviation =
+      at - Date.parse(run[0].timestamp) <= sustainedMinutes * MINUTE_MS
+        ? sustained(metric, run.map((reading) => reading.value), baselineFor(run[0].timestamp), run[0].timestamp, readings[index].timestamp)
+        : null;
+    continues = addToEpisodes(episodes, deviation, continues);
+  }
+  return episodes;
+}
+
+/**
+ * Every sustained run of unusual days ending inside [from, to]
+ */
+function dailyEpisodes(metric: VitalMetric, readings: VitalReadingRecord[], timeZone: string, from: Date, to: Date): VitalDeviation[] {
+  const totals = dailyTotals(readings, timeZone);
+  const episodes: VitalDeviation[] = [];
+  let continues = false;
+  for (let date = localDate(from, timeZone); date <= localDate(to, timeZone); date = addDays(date, 1)) {
+    continues = addToEpisodes(episodes, dailyRun(metric, totals, date), continues);
+  }
+  return episodes;
+}
+
+function deviationFor(metric: VitalMetric, readings: VitalReadingRecord[], timeZone: string, now: Date): VitalDeviation | null {
+  return DAILY_METRICS.includes(metric)
+    ? dailyDeviation(metric, readings, timeZone, now)
+    : readingDeviation(metric, readings, now);
+}
+
+async function readingsSince(userId: string, days: number, now: Date): Promise<Map<VitalMetric, VitalReadingRecord[]>> {
+  const readings = await vitalsRepository.listForUser(userId, {
+    since: new Date(now.getTime() - days * DAY_MS).toISOString(),
+    // A minute's leeway for device clocks running slightly ahead
+    until: new Date(now.getTime() + MINUTE_MS).toISOString(),
+  });
+  const byMetric = new Map<VitalMetric, VitalReadingRecord[]>();
+  for (const reading of readings) {
+    byMetric.set(reading.metric, [...(byMetric.get(reading.metric) || []), reading]);
+  }
+  return byMetric;
+}
+
+/**
+ * Sustained deviations in the given metrics right now
+ */
+export async function findDeviations(
+  userId: string,
+  metrics: VitalMetric[] = VITAL_METRICS,
+  now: Date = new Date()
+): Promise<VitalDeviation[]> {
+  const { baselineDays, sustainedDays } = config.vitals;
+  const [timeZone, byMetric] = await Promise.all([
+    getUserTimeZone(userId),
+    readingsSince(userId, baselineDays + sustainedDays + 1, now),
+  ]);
+
+  return metrics
+    .map((metric) => deviationFor(metric, byMetric.get(metric) || [], timeZone, now))
+    .filter((deviation): deviation is VitalDeviation => deviation !== null);
+}
+
+/**
+ * Sustained deviations anywhere in a stretch of time, such as the span of
+ * an import. Back-to-back runs are joined into one episode.
+ */
+export async function scanDeviations(userId: string, metrics: VitalMetric[], from: Date, to: Date): Promise<VitalDeviation[]> {
+  const { baselineDays, sustainedDays } = config.vitals;
+  const days = Math.ceil((to.getTime() - from.getTime()) / DAY_MS) + baselineDays + sustainedDays + 1;
+  const [timeZone, byMetric] = await Promise.all([getUserTimeZone(userId), readingsSince(userId, days, to)]);
+
+  return metrics.flatMap((metric) => {
+    const readings = byMetric.get(metric) || [];
+    return DAILY_METRICS.includes(metric)
+      ? dailyEpisodes(metric, readings, timeZone, from, to)
+      : readingEpisodes(metric, readings, from.getTime(), to.getTime());
+  });
+}
+
+/**
+ * How a deviation is named in an alert's `detected` list
+ */
+export function deviationCode(deviation: VitalDeviation): string {
+  return `${deviation.metric}_${deviation.direction}`;
+}
+
+/**
+ * Leave out deviations the Care Circle has already been told about recently
+ */
+export async function withoutRecentAlerts(userId: string, deviations: VitalDeviation[], now: Date = new Date()): Promise<VitalDeviation[]> {
+  if (deviations.length === 0) return deviations;
+  const alerts = await alertRepository.listForUser(userId, {
+    since: new Date(now.getTime() - config.vitals.realertMinutes * MINUTE_MS).toISOString(),
+  });
+  const told = new Set(
+    alerts.filter((alert) => alert.source === 'vitals' && alert.status !== 'resolved').flatMap((alert) => alert.detected)
+  );
+  return deviations.filter((deviation) => !told.has(deviationCode(deviation)));
+}
+
+/**
+ * Trend summaries for each metric with readings in the last `days` days
+ */
+export async function getVitalsSummary(userId: string, days: number, now: Date = new Date()): Promise<VitalTrend[]> {
+  const { baselineDays, sustainedDays } = config.vitals;
+  const [timeZone, byMetric] = await Promise.all([
+    getUserTimeZone(userId),
+    readingsSince(userId, Math.max(2 * days, baselineDays + sustainedDays) + 1, now),
+  ]);
+  const today = localDate(now, timeZone);
+  const periodStart = addDays(today, -(days - 1));
+  const previousStart = addDays(periodStart, -days);
+  const baselineStart = addDays(today, -baselineDays);
+
+  const trends: VitalTrend[] = [];
+  for (const metric of VITAL_METRICS) {
+    const readings = byMetric.get(metric) || [];
+    const daily = dailyTotals(readings, timeZone);
+    const dateOf = (reading: VitalReadingRecord) => localDate(new Date(reading.timestamp), timeZone);
+    const isDaily = DAILY_METRICS.includes(metric);
+
+    // Daily totals for steps and sleep, single readings for everything else
+    const valuesBetween = (from: string, to: string): number[] =>
+      isDaily
+        ? [...daily].filter(([date]) => date >= from && date < to).map(([, day]) => day.total)
+        : readings.filter((reading) => dateOf(reading) >= from && dateOf(reading) < to).map((reading) => reading.value);
+
+    const tomorrow = addDays(today, 1);
+    const values = valuesBetween(periodStart, tomorrow);
+    if (values.length === 0) continue;
+
+    const previous = valuesBetween(previousStart, periodStart);
+    const change = previous.length > 0 ? average(values) - average(previous) : null;
+    const deviation = deviationFor(metric, readings, timeZone, now);
+    const latest = readings[readings.length - 1];
+
+    trends.push({
+      metric,
+      unit: VITAL_UNITS[metric],
+      latest: { value: latest.value, timestamp: latest.timestamp },
+      average: round(average(values)),
+      min: Math.min(...values),
+      max: Math.max(...values),
+      trend: change === null ? null : Math.abs(change) < MIN_SPREAD[metric] / 2 ? 'steady' : change > 0 ? 'rising' : 'falling',
+      // Today's steps are still being walked
+      baseline: baselineOf(valuesBetween(baselineStart, metric === 'steps' ? today : tomorrow)),
+      status: deviation ? deviation.direction : 'normal',
+      daily: [...daily]
+        .filter(([date]) => date >= periodStart)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, day]) => ({
+          date,
+          value: round(isDaily ? day.total : day.total / day.readings),
+          readings: day.readings,
+        })),
+    });
+  }
+  return trends;
+}
@@ -0,0 +1,485 @@
+/**
+ * Wearable Data Import
+ *
+ * Turns batch exports from Apple Health (export.xml), Google Fit and
+ * Fitbit (JSON) and plain CSV into vitals readings. Samples that overlap,
+ * such as a phone and a watch both counting the same steps, are counted
+ * once. Steps are summed per hour and sleep is joined into nights. The
+ * readings go into the vitals store, and the imported stretch is checked
+ * for sustained deviations.
+ */
+
+import { config, type VitalMetric } from './config';
+import { StatusError } from './errors';
+import { fromLocalDateTime, getUserTimeZone } from './timezone';
+import { recordVitals, scanDeviations, type VitalDeviation, type VitalReading } from './vitals';
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Gaps up to this long between sleep segments are the same night */
+const SLEEP_GAP_MS = 2 * HOUR_MS;
+
+/** Episodes that ended this recently are still worth telling the Care Circle about */
+const RECENT_EPISODE_MS = 2 * DAY_MS;
+
+export type ImportFormat = 'apple-health' | 'google-fit' | 'fitbit' | 'csv';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['apple-health', 'google-fit', 'fitbit', 'csv'];
+
+/** Bad files are a 400 unless said otherwise */
+export class ImportError extends StatusError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+  }
+}
+
+/** One measurement as the device reported it */
+interface Sample {
+  metric: VitalMetric;
+  value: number;
+  /** Epoch milliseconds; the same for a single reading */
+  start: number;
+  end: number;
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  /** Samples found in the file */
+  received: number;
+  /** Unreadable, implausible, too old or in the future */
+  skipped: number;
+  /** Covered by another sample (another device, or the same minute) */
+  overlapping: number;
+  stored: number;
+  /** Already stored by an earlier import */
+  alreadyStored: number;
+  /** First and last stored reading */
+  window: { from: string; to: string } | null;
+  /** Every sustained deviation in the window */
+  deviations: VitalDeviation[];
+  /** The ones still going on, or only just over */
+  recent: VitalDeviation[];
+}
+
+/** Anything outside these is a glitch, not a reading */
+const PLAUSIBLE: Record<VitalMetric, [number, number]> = {
+  heart_rate: [20, 300],
+  spo2: [50, 100],
+  bp_systolic: [40, 300],
+  bp_diastolic: [20, 200],
+  temperature: [25, 45],
+  steps: [0, 100_000],
+  sleep_hours: [0, 24],
+};
+
+/** Measured over a stretch of time rather than at a moment */
+const INTERVAL_METRICS: VitalMetric[] = ['steps', 'sleep_hours'];
+
+function fahrenheitToCelsius(value: number): number {
+  return ((value - 32) * 5) / 9;
+}
+
+// --- Apple Health --------------------------------------------------------
+
+const APPLE_TYPES: Record<string, VitalMetric> = {
+  HKQuantityTypeIdentifierHeartRate: 'heart_rate',
+  HKQuantityTypeIdentifierOxygenSaturation: 'spo2',
+  HKQuantityTypeIdentifierBloodPressureSystolic: 'bp_systolic',
+  HKQuantityTypeIdentifierBloodPressureDiastolic: 'bp_diastolic',
+  HKQuantityTypeIdentifierBodyTemperature: 'temperature',
+  HKQuantityTypeIdentifierStepCount: 'steps',
+  HKCategoryTypeIdentifierSleepAnalysis: 'sleep_hours',
+};
+
+function xmlAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of tag.matchAll(/([\w:]+)="([^"]*)"/g)) {
+    attributes[name] = value.replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+  }
+  return attributes;
+}
+
+/**
+ * "2024-01-01 08:00:00 +0100"
+ */
+function appleDate(value: string | undefined): number {
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/);
+  return match ? Date.parse(`${match[1]}T${match[2]}${match[3]}:${match[4]}`) : NaN;
+}
+
+function parseAppleHealth(xml: string): Sample[] {
+  const samples: Sample[] = [];
+  for (const [tag] of xml.matchAll(/<Record\s[^>]*>/g)) {
+    const record = xmlAttributes(tag);
+    const metric = APPLE_TYPES[record.type];
+    if (!metric) continue;
+
+    const start = appleDate(record.startDate);
+    const end = appleDate(record.endDate || record.startDate);
+    let value = Number(record.value);
+    if (metric === 'sleep_hours') {
+      // In bed and awake don't count as sleep
+      if (!record.value?.startsWith('HKCategoryValueSleepAnalysisAsleep')) continue;
+      value = (end - start) / HOUR_MS;
+    }
+    if (metric === 'spo2' && value <= 1) value *= 100;
+    if (metric === 'temperature' && record.unit === 'degF') value = fahrenheitToCelsius(value);
+
+    samples.push({ metric, value, start, end });
+  }
+  return samples;
+}
+
+// --- Google Fit ----------------------------------------------------------
+
+const GOOGLE_TYPES: Record<string, VitalMetric | 'blood_pressure'> = {
+  'com.google.heart_rate.bpm': 'heart_rate',
+  'com.google.oxygen_saturation': 'spo2',
+  'com.google.blood_pressure': 'blood_pressure',
+  'com.google.body.temperature': 'temperature',
+  'com.google.step_count.delta': 'steps',
+  'com.google.sleep.segment': 'sleep_hours',
+};
+
+/** Sleep stages that are sleep: sleeping, light, deep and REM */
+const GOOGLE_ASLEEP = [2, 4, 5, 6];
+
+/**
+ * Data points anywhere in a REST response or a Takeout file
+ */
+function googlePoints(json: unknown, points: any[] = []): any[] {
+  if (Array.isArray(json)) {
+    json.forEach((item) => googlePoints(item, points));
+  } else if (json && typeof json === 'object') {
+    const node = json as Record<string, unknown>;
+    if (typeof node.dataTypeName === 'string' && (node.value || node.fitValue)) {
+      points.push(node);
+    } else {
+      Object.values(node).forEach((child) => googlePoints(child, points));
+    }
+  }
+  return points;
+}
+
+function parseGoogleFit(json: unknown): Sample[] {
+  const samples: Sample[] = [];
+  for (const point of googlePoints(json)) {
+    const type = GOOGLE_TYPES[point.dataTypeName];
+    if (!type) continue;
+
+    const start = Number(point.startTimeNanos) / 1e6;
+    const end = Number(point.endTimeNanos ?? point.startTimeNanos) / 1e6;
+    const values: { intVal?: number; fpVal?: number }[] = point.value ?? point.fitValue.map((entry: any) => entry.value);
+    const number = (index: number) => Number(values[index]?.fpVal ?? values[index]?.intVal);
+
+    if (type === 'blood_pressure') {
+      samples.push({ metric: 'bp_systolic', value: number(0), start, end });
+      samples.push({ metric: 'bp_diastolic', value: number(1), start, end });
+    } else if (type === 'sleep_hours') {
+      if (GOOGLE_ASLEEP.includes(number(0))) samples.push({ metric: type, value: (end - start) / HOUR_MS, start, end });
+    } else {
+      const value = number(0);
+      samples.push({ metric: type, value: type === 'spo2' && value <= 1 ? value * 100 : value, start, end });
+    }
+  }
+  return samples;
+}
+
+// --- Fitbit --------------------------------------------------------------
+
+/**
+ * Web API responses (heart rate, steps, SpO2, core temperature, sleep) and
+ * Takeout heart rate and sleep files
+ */
+function parseFitbit(json: any, timeZone: string): Sample[] {
+  const samples: Sample[] = [];
+  const local = (dateTime: string) => fromLocalDateTime(dateTime.slice(0, 19), timeZone).getTime();
+  const add = (metric: VitalMetric, value: unknown, start: number, end: number = start) =>
+    samples.push({ metric, value: Number(value), start, end });
+
+  const heartDate = json?.['activities-heart']?.[0]?.dateTime;
+  for (const point of json?.['activities-heart-intraday']?.dataset ?? []) {
+    add('heart_rate', point.value, local(`${heartDate}T${point.time}`));
+  }
+
+  const stepsIntraday = json?.['activities-steps-intraday']?.dataset;
+  const stepsDate = json?.['activities-steps']?.[0]?.dateTime;
+  if (stepsIntraday) {
+    for (const point of stepsIntraday) add('steps', point.value, local(`${stepsDate}T${point.time}`));
+  } else {
+    for (const day of json?.['activities-steps'] ?? []) add('steps', day.value, local(`${day.dateTime}T00:00:00`));
+  }
+
+  for (const day of [json?.spo2 ?? json].flat()) {
+    if (day?.value?.avg !== undefined && day.dateTime) add('spo2', day.value.avg, local(`${day.dateTime}T00:00:00`));
+    for (const minute of day?.minutes ?? []) add('spo2', minute.value, local(minute.minute));
+  }
+
+  for (const reading of json?.tempCore ?? []) add('temperature', reading.value, local(reading.dateTime));
+
+  const sleeps = json?.sleep ?? (Array.isArray(json) ? json.filter((entry: any) => entry?.minutesAsleep !== undefined) : []);
+  for (const sleep of sleeps) {
+    add('sleep_hours', sleep.minutesAsleep / 60, local(sleep.startTime), local(sleep.endTime));
+  }
+
+  // Takeout heart rate: [{ "dateTime": "01/31/24 08:00:05", "value": { "bpm": 64 } }], in UTC
+  for (const entry of Array.isArray(json) ? json : []) {
+    const match = typeof entry?.dateTime === 'string' && entry.dateTime.match(/^(\d{2})\/(\d{2})\/(\d{2}) (\d{2}:\d{2}:\d{2})$/);
+    if (match && entry.value?.bpm !== undefined) {
+      add('heart_rate', entry.value.bpm, Date.parse(`20${match[3]}-${match[1]}-${match[2]}T${match[4]}Z`));
+    }
+  }
+  return samples;
+}
+
+// --- CSV -----------------------------------------------------------------
+
+const CSV_COLUMNS: Record<string, VitalMetric | 'blood_pressure' | 'temperature_f'> = {
+  heart_rate: 'heart_rate',
+  heartrate: 'heart_rate',
+  hr: 'heart_rate',
+  bpm: 'heart_rate',
+  pulse: 'heart_rate',
+  spo2: 'spo2',
+  oxygen: 'spo2',
+  oxygen_saturation: 'spo2',
+  blood_oxygen: 'spo2',
+  systolic: 'bp_systolic',
+  bp_systolic: 'bp_systolic',
+  diastolic: 'bp_diastolic',
+  bp_diastolic: 'bp_diastolic',
+  blood_pressure: 'blood_pressure',
+  bp: 'blood_pressure',
+  temperature: 'temperature',
+  temp: 'temperature',
+  temperature_c: 'temperature',
+  body_temperature: 'temperature',
+  temperature_f: 'temperature_f',
+  temp_f: 'temperature_f',
+  steps: 'steps',
+  step_count: 'steps',
+  sleep_hours: 'sleep_hours',
+  sleep: 'sleep_hours',
+  hours_slept: 'sleep_hours',
+};
+
+const CSV_TIME_COLUMNS = ['timestamp', 'time', 'datetime', 'date_time', 'date', 'recorded_at', 'start', 'start_time'];
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted && char === '"' && line[i + 1] === '"') {
+      cell += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * ISO times with an offset as they are; anything else on the user's clock
+ */
+function csvTime(value: string, timeZone: string): number {
+  const text = value.trim().replace(' ', 'T');
+  if (/(Z|[+-]\d{2}:?\d{2})$/.test(text)) return Date.parse(text);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return fromLocalDateTime(`${text}T00:00`, timeZone).getTime();
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/.test(text)) return fromLocalDateTime(text, timeZone).getTime();
+  return NaN;
+}
+
+/**
+ * Wide ("timestamp,heart_rate,spo2,…") or long ("timestamp,metric,value[,unit]")
+ */
+function parseCsv(text: string, timeZone: string): Sample[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  const header = splitCsvLine(lines[0] || '').map((name) => name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, ''));
+  const timeColumn = header.findIndex((name) => CSV_TIME_COLUMNS.includes(name));
+  if (timeColumn < 0) {
+    throw new ImportError("I couldn't find a time column in that file... it needs one called timestamp, time or date.");
+  }
+
+  const long = header.includes('metric') && header.includes('value');
+  const samples: Sample[] = [];
+  const add = (column: string | undefined, raw: string, unit: string | undefined, at: number) => {
+    const kind = CSV_COLUMNS[(column || '').toLowerCase().replace(/[^a-z0-9]+/g, '_')];
+    if (!kind || raw === '') return;
+    if (kind === 'blood_pressure') {
+      const [systolic, diastolic] = raw.split('/');
+      samples.push({ metric: 'bp_systolic', value: Number(systolic), start: at, end: at });
+      samples.push({ metric: 'bp_diastolic', value: Number(diastolic), start: at, end: at });
+    } else if (kind === 'temperature_f' || (kind === 'temperature' && /f/i.test(unit || ''))) {
+      samples.push({ metric: 'temperature', value: fahrenheitToCelsius(Number(raw)), start: at, end: at });
+    } else {
+      samples.push({ metric: kind, value: Number(raw), start: at, end: at });
+    }
+  };
+
+  for (const line of lines.slice(1)) {
+    const cells = splitCsvLine(line);
+    const at = csvTime(cells[timeColumn] || '', timeZone);
+    if (long) {
+      const cell = (name: string) => cells[header.indexOf(name)];
+      add(cell('metric'), cell('value') ?? '', cell('unit'), at);
+    } else {
+      header.forEach((name, index) => index !== timeColumn && add(name, cells[index] ?? '', undefined, at));
+    }
+  }
+  return samples;
+}
+
+// --- Normalizing ---------------------------------------------------------
+
+/**
+ * Guess the format from the file itself
+ */
+export function detectFormat(body: string): ImportFormat | null {
+  const start = body.trimStart();
+  if (start.startsWith('<')) return /<HealthData|<Record\s/.test(start.slice(0, 5000)) ? 'apple-health' : null;
+  if (start.startsWith('{') || start.startsWith('[')) {
+    return /"(dataTypeName|Data Points|bucket|point)"/.test(start) ? 'google-fit' : 'fitbit';
+  }
+  return start.split(/\r?\n/, 1)[0].includes(',') ? 'csv' : null;
+}
+
+/**
+ * Validate, drop overlaps and shape samples into readings: single
+ * readings stay as they are (one per metric per minute), steps are summed
+ * per hour and sleep segments are joined into nights ending when the user woke.
+ */
+function normalize(samples: Sample[], now: Date): { readings: VitalReading[]; skipped: number; overlapping: number } {
+  const oldest = now.getTime() - config.vitals.importDays * DAY_MS;
+  let skipped = 0;
+  let overlapping = 0;
+  const byMetric = new Map<VitalMetric, Sample[]>();
+
+  for (const sample of samples) {
+    const [min, max] = PLAUSIBLE[sample.metric];
+    const usable =
+      Number.isFinite(sample.value) && sample.value >= min && sample.value <= max &&
+      Number.isFinite(sample.start) && Number.isFinite(sample.end) && sample.end >= sample.start &&
+      sample.end >= oldest && sample.start <= now.getTime() + MINUTE_MS;
+    if (!usable) {
+      skipped++;
+      continue;
+    }
+    byMetric.set(sample.metric, [...(byMetric.get(sample.metric) || []), sample]);
+  }
+
+  const readings: VitalReading[] = [];
+  for (const [metric, group] of byMetric) {
+    if (!INTERVAL_METRICS.includes(metric)) {
+      const minutes = new Set<number>();
+      for (const sample of group.sort((a, b) => a.start - b.start)) {
+        const minute = Math.floor(sample.start / MINUTE_MS);
+        if (minutes.has(minute)) {
+          overlapping++;
+          continue;
+        }
+        minutes.add(minute);
+        readings.push({ metric, value: Math.round(sample.value * 10) / 10, timestamp: new Date(sample.start).toISOString() });
+      }
+      continue;
+    }
+
+    // Earliest first, and the longer of two that start together
+    const kept: Sample[] = [];
+    let coveredUntil = -Infinity;
+    for (const sample of group.sort((a, b) => a.start - b.start || b.end - a.end)) {
+      if (sample.start < coveredUntil) {
+        overlapping++;
+        continue;
+      }
+      kept.push(sample);
+      coveredUntil = Math.max(coveredUntil, sample.end);
+    }
+
+    if (metric === 'steps') {
+      const hours = new Map<number, number>();
+      for (const sample of kept) {
+        const hour = Math.floor(sample.start / HOUR_MS) * HOUR_MS;
+        hours.set(hour, (hours.get(hour) || 0) + sample.value);
+      }
+      for (const [hour, steps] of hours) {
+        readings.push({ metric, value: Math.round(steps), timestamp: new Date(hour).toISOString() });
+      }
+    } else {
+      let night: { hours: number; end: number } | null = null;
+      for (const sample of kept) {
+        if (night && sample.start - night.end <= SLEEP_GAP_MS) {
+          night.hours += sample.value;
+          night.end = sample.end;
+          continue;
+        }
+        if (night) readings.push({ metric, value: Math.round(night.hours * 100) / 100, timestamp: new Date(night.end).toISOString() });
+        night = { hours: sample.value, end: sample.end };
+      }
+      if (night) readings.push({ metric, value: Math.round(night.hours * 100) / 100, timestamp: new Date(night.end).toISOString() });
+    }
+  }
+
+  readings.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  return { readings, skipped, overlapping };
+}
+
+/**
+ * Parse an export, store its readings and check the stretch it covers
+ */
+export async function importVitals(
+  userId: string,
+  body: string,
+  format: ImportFormat | undefined = detectFormat(body) ?? undefined,
+  now: Date = new Date()
+): Promise<ImportResult> {
+  if (!format) {
+    throw new ImportError("I couldn't tell which app that file came from... could you choose the format?", 415);
+  }
+
+  const timeZone = await getUserTimeZone(userId);
+  let samples: Sample[];
+  try {
+    if (format === 'apple-health') samples = parseAppleHealth(body);
+    else if (format === 'csv') samples = parseCsv(body, timeZone);
+    else {
+      const json = JSON.parse(body);
+      samples = format === 'google-fit' ? parseGoogleFit(json) : parseFitbit(json, timeZone);
+    }
+  } catch (error) {
+    if (error instanceof ImportError) throw error;
+    throw new ImportError(`That doesn't look like a ${format} export... could you check the file?`);
+  }
+  if (samples.length === 0) {
+    throw new ImportError("I couldn't find any readings in that file.", 422);
+  }
+
+  const { readings, skipped, overlapping } = normalize(samples, now);
+  const stored = await recordVitals(userId, readings, format.replace('-', '_'));
+  const window = stored.length > 0 ? { from: stored[0].timestamp, to: stored[stored.length - 1].timestamp } : null;
+  const deviations = window
+    ? await scanDeviations(userId, [...new Set(stored.map((reading) => reading.metric))], new Date(window.from), new Date(window.to))
+    : [];
+
+  return {
+    format,
+    received: samples.length,
+    skipped,
+    overlapping,
+    stored: stored.length,
+    alreadyStored: readings.length - stored.length,
+    window,
+    deviations,
+    recent: deviations.filter((deviation) => now.getTime() - Date.parse(deviation.until) <= RECENT_EPISODE_MS),
+  };
+}
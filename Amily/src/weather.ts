@@ -0,0 +1,226 @@
+/**
+ * Weather Layer
+ *
+ * Current weather for a user's saved location, from Open-Meteo or a
+ * local fixture file for offline use. Temperatures are kept in Celsius
+ * and converted to the user's own unit only when shown or spoken.
+ * Forecasts are cached per location for a short while.
+ */
+
+import * as fs from 'fs';
+import { z } from 'zod';
+import { config, type WeatherProviderName } from './config';
+import { preferencesRepository, type SavedLocation } from './repositories';
+import type { TemperatureUnit, WeatherAlert, WeatherData } from './wellness';
+
+export interface WeatherProvider {
+  name: WeatherProviderName;
+  current(location: SavedLocation): Promise<WeatherData>;
+}
+
+/**
+ * WMO weather codes, as used by Open-Meteo, to our condition names
+ */
+function conditionFromCode(code: number): string {
+  if (code === 0) return 'sunny';
+  if (code <= 3) return 'cloudy';
+  if (code <= 48) return 'foggy';
+  if (code <= 67 || (code >= 80 && code <= 82)) return 'rainy';
+  if (code <= 77 || code === 85 || code === 86) return 'snowy';
+  return 'stormy';
+}
+
+/**
+ * Open-Meteo has no official warnings, so flag the conditions that matter
+ * most to older people from the forecast itself
+ */
+function alertsFromForecast(forecast: { code: number; maxC?: number; minC?: number; windKmh?: number }): WeatherAlert[] {
+  const alerts: WeatherAlert[] = [];
+  if (forecast.code >= 95) {
+    alerts.push({ title: 'Thunderstorms', severity: 'severe', description: 'Storms are expected today.' });
+  }
+  if ([56, 57, 66, 67].includes(forecast.code)) {
+    alerts.push({ title: 'Freezing rain', severity: 'severe', description: 'Paths may be icy and slippery.' });
+  }
+  if (forecast.maxC !== undefined && forecast.maxC >= 32) {
+    alerts.push({ title: 'Extreme heat', severity: 'severe', description: 'It will be very hot this afternoon.' });
+  }
+  if (forecast.minC !== undefined && forecast.minC <= -5) {
+    alerts.push({ title: 'Hard frost', severity: 'moderate', description: 'It will be well below freezing.' });
+  }
+  if (forecast.windKmh !== undefined && forecast.windKmh >= 50) {
+    alerts.push({ title: 'Strong winds', severity: 'moderate', description: 'Gusts could make walking difficult.' });
+  }
+  return alerts;
+}
+
+/** The parts of an Open-Meteo forecast we use (missing values come back as null) */
+const OpenMeteoResponseSchema = z.object({
+  current: z.object({
+    temperature_2m: z.number(),
+    weather_code: z.number(),
+    relative_humidity_2m: z.number().nullish(),
+    wind_speed_10m: z.number().nullish(),
+  }),
+  daily: z
+    .object({
+      temperature_2m_max: z.array(z.number().nullable()).optional(),
+      temperature_2m_min: z.array(z.number().nullable()).optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Open-Meteo forecast API (no key needed)
+ */
+export function createOpenMeteoProvider(apiUrl: string, timeoutMs: number = 5_000): WeatherProvider {
+  return {
+    name: 'open-meteo',
+    async current(location) {
+      const url = new URL(apiUrl);
+      url.searchParams.set('latitude', String(location.lat));
+      url.searchParams.set('longitude', String(location.lng));
+      url.searchParams.set('current', 'temperature_2m,relative_humidity_2m,weather_code,wind_speed_10m');
+      url.searchParams.set('daily', 'temperature_2m_max,temperature_2m_min');
+      url.searchParams.set('temperature_unit', 'celsius');
+      url.searchParams.set('wind_speed_unit', 'kmh');
+      url.searchParams.set('timezone', 'auto');
+      url.searchParams.set('forecast_days', '1');
+
+      const response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+      if (!response.ok) {
+        throw new Error(`Open-Meteo returned ${response.status}`);
+      }
+
+      const parsed = OpenMeteoResponseSchema.safeParse(await response.json());
+      if (!parsed.success) {
+        throw new Error('Open-Meteo response had no current weather');
+      }
+
+      const { current, daily } = parsed.data;
+      return {
+        tempC: current.temperature_2m,
+        condition: conditionFromCode(current.weather_code),
+        humidity: current.relative_humidity_2m ?? 0,
+        alerts: alertsFromForecast({
+          code: current.weather_code,
+          maxC: daily?.temperature_2m_max?.[0] ?? undefined,
+          minC: daily?.temperature_2m_min?.[0] ?? undefined,
+          windKmh: current.wind_speed_10m ?? undefined,
+        }),
+      };
+    },
+  };
+}
+
+const FixtureWeatherSchema = z.object({
+  tempC: z.number(),
+  condition: z.string(),
+  humidity: z.number(),
+  alerts: z
+    .array(
+      z.object({
+        title: z.string(),
+        severity: z.enum(['minor', 'moderate', 'severe']),
+        description: z.string().optional(),
+      })
+    )
+    .optional(),
+});
+
+const FixtureFileSchema = z.object({
+  default: FixtureWeatherSchema,
+  locations: z
+    .array(FixtureWeatherSchema.extend({ name: z.string(), lat: z.number(), lng: z.number() }))
+    .default([]),
+});
+
+/**
+ * Canned weather from a JSON file: the entry with the location's name,
+ * else the nearest one within a degree, else the default
+ */
+export function createFixtureWeatherProvider(filePath: string): WeatherProvider {
+  let fixture: z.infer<typeof FixtureFileSchema> | null = null;
+
+  return {
+    name: 'fixture',
+    async current(location) {
+      if (!fixture) {
+        fixture = FixtureFileSchema.parse(JSON.parse(await fs.promises.readFile(filePath, 'utf-8')));
+      }
+
+      const name = location.name?.trim().toLowerCase();
+      const distance = (entry: { lat: number; lng: number }) =>
+        Math.hypot(entry.lat - location.lat, entry.lng - location.lng);
+      const match =
+        fixture.locations.find((entry) => name && entry.name.toLowerCase() === name) ||
+        [...fixture.locations].filter((entry) => distance(entry) <= 1).sort((a, b) => distance(a) - distance(b))[0];
+
+      const { tempC, condition, humidity, alerts } = match || fixture.default;
+      return { tempC, condition, humidity, alerts: alerts ?? [] };
+    },
+  };
+}
+
+let provider: WeatherProvider | null = null;
+
+/**
+ * Get the configured weather provider
+ */
+export function getWeatherProvider(): WeatherProvider {
+  if (!provider) {
+    provider =
+      config.weather.provider === 'open-meteo'
+        ? createOpenMeteoProvider(config.weather.apiUrl, config.weather.timeoutMs)
+        : createFixtureWeatherProvider(config.weather.fixturePath);
+  }
+  return provider;
+}
+
+const cache = new Map<string, { weather: WeatherData; fetchedAt: number }>();
+
+/**
+ * Current weather for a location, cached for WEATHER_CACHE_MINUTES. When
+ * the provider fails, the last known weather is used if there is one.
+ */
+export async function getWeather(
+  location: SavedLocation,
+  weatherProvider: WeatherProvider = getWeatherProvider(),
+  now: number = Date.now()
+): Promise<WeatherData> {
+  // About a kilometre either way shares an entry
+  const key = `${weatherProvider.name}:${location.lat.toFixed(2)},${location.lng.toFixed(2)}:${location.name ?? ''}`;
+  const cached = cache.get(key);
+  if (cached && now - cached.fetchedAt < config.weather.cacheMinutes * 60_000) {
+    return cached.weather;
+  }
+
+  try {
+    const weather = await weatherProvider.current(location);
+    cache.set(key, { weather, fetchedAt: now });
+    return weather;
+  } catch (error) {
+    if (cached) {
+      console.warn(`Weather lookup failed, using the forecast from ${new Date(cached.fetchedAt).toISOString()}:`, error);
+      return cached.weather;
+    }
+    throw error;
+  }
+}
+
+/**
+ * The weather where a user lives and the unit they think in. Weather is
+ * null when they haven't saved a location or it can't be looked up.
+ */
+export async function getUserWeather(userId: string): Promise<{ weather: WeatherData | null; unit: TemperatureUnit }> {
+  const preferences = await preferencesRepository.get(userId);
+  const unit = preferences.temperature_unit || config.weather.defaultUnit;
+  if (!preferences.location) return { weather: null, unit };
+
+  try {
+    return { weather: await getWeather(preferences.location), unit };
+  } catch (error) {
+    console.error(`Weather lookup for ${userId} failed:`, error);
+    return { weather: null, unit };
+  }
+}
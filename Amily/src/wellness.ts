@@ -20,11 +20,20 @@ export interface HydrationGoal {
   lastDrink?: string;
 }
 
+export type TemperatureUnit = 'C' | 'F';
+
+export interface WeatherAlert {
+  title: string;
+  severity: 'minor' | 'moderate' | 'severe';
+  description?: string;
+}
+
 export interface WeatherData {
-  temp: number;
-  condition: string; // sunny, rainy, cloudy, etc.
+  /** Always Celsius; shown and spoken in the user's own unit */
+  tempC: number;
+  condition: string; // sunny, rainy, cloudy, snowy, stormy, foggy, etc.
   humidity: number;
-  alerts?: string[];
+  alerts?: WeatherAlert[];
 }
 
 export interface WellnessNudge {
@@ -35,10 +44,25 @@ export interface WellnessNudge {
   action?: string;
 }
 
+/**
+ * A Celsius temperature in the user's unit, rounded
+ */
+export function toUnit(tempC: number, unit: TemperatureUnit): number {
+  return Math.round(unit === 'F' ? (tempC * 9) / 5 + 32 : tempC);
+}
+
+function shownTemperature(tempC: number, unit: TemperatureUnit): string {
+  return `${toUnit(tempC, unit)}°${unit}`;
+}
+
+function spokenTemperature(tempC: number, unit: TemperatureUnit): string {
+  return `${toUnit(tempC, unit)} degrees ${unit === 'F' ? 'Fahrenheit' : 'Celsius'}`;
+}
+
 /**
  * Generate medication reminder
  */
-export function getMedicationReminder(med: MedicationSchedule, timeOfDay: string): WellnessNudge {
+export function getMedicationReminder(med: MedicationSchedule, timeOfDay?: string): WellnessNudge {
   const withFoodNote = med.withFood ? ' Remember to take it with some food.' : '';
   
   return {
@@ -53,12 +77,12 @@ export function getMedicationReminder(med: MedicationSchedule, timeOfDay: string
 /**
  * Generate hydration nudge based on time and activity
  */
-export function getHydrationNudge(goal: HydrationGoal, temp: number): WellnessNudge | null {
+export function getHydrationNudge(goal: HydrationGoal, tempC?: number): WellnessNudge | null {
   const remaining = goal.dailyGlasses - goal.currentGlasses;
   
   if (remaining <= 0) return null;
   
-  const tempAdjust = temp > 75 ? ' It is warm today, so staying hydrated is extra important.' : '';
+  const tempAdjust = tempC !== undefined && tempC > 24 ? ' It is warm today, so staying hydrated is extra important.' : '';
   
   let priority: 'high' | 'medium' | 'low' = 'medium';
   let message = '';
@@ -87,26 +111,61 @@ export function getHydrationNudge(goal: HydrationGoal, temp: number): WellnessNu
 }
 
 /**
- * Generate weather-aware routine prompts
+ * Gentle prompt when it's been a while since the last drink (3 hours or more)
+ */
+export function getLastDrinkNudge(goal: HydrationGoal, now: Date = new Date()): WellnessNudge | null {
+  if (!goal.lastDrink || goal.currentGlasses >= goal.dailyGlasses) return null;
+  
+  const hours = Math.floor((now.getTime() - new Date(goal.lastDrink).getTime()) / (60 * 60 * 1000));
+  if (hours < 3) return null;
+  
+  return {
+    type: 'hydration',
+    priority: hours >= 5 ? 'high' : 'medium',
+    message: `It's been about ${hours} hours since your last drink. Time for some water.`,
+    ttsMessage: `It's been a little while since you had a drink... about ${hours} hours. How about a nice glass of water? I'll wait.`,
+    action: 'log_water',
+  };
+}
+
+/**
+ * Generate weather-aware routine prompts. Weather alerts come first;
+ * temperatures are shown and spoken in the user's unit.
  */
-export function getWeatherPrompt(weather: WeatherData, timeOfDay: string): WellnessNudge | null {
+export function getWeatherPrompt(weather: WeatherData, timeOfDay?: string, unit: TemperatureUnit = 'F'): WellnessNudge | null {
+  const shown = shownTemperature(weather.tempC, unit);
+  const spoken = spokenTemperature(weather.tempC, unit);
+
+  // Weather alerts, most severe first
+  const severity = { severe: 0, moderate: 1, minor: 2 };
+  const [alert] = [...(weather.alerts || [])].sort((a, b) => severity[a.severity] - severity[b.severity]);
+  if (alert) {
+    const detail = alert.description ? ` ${alert.description}` : '';
+    return {
+      type: 'weather',
+      priority: alert.severity === 'minor' ? 'medium' : 'high',
+      message: `Weather alert: ${alert.title}.${detail} It's ${shown} outside.`,
+      ttsMessage: `There's a weather warning today... ${alert.title}.${detail} It might be best to stay in where it's safe and comfortable.`,
+    };
+  }
+
   // Heat advisory
-  if (weather.temp > 85) {
+  if (weather.tempC > 29) {
     return {
       type: 'weather',
       priority: 'high',
-      message: `It's ${weather.temp}°F outside. Stay indoors and drink plenty of water.`,
-      ttsMessage: `It's quite warm today... ${weather.temp} degrees. Let's stay inside where it's cool... and make sure to drink extra water.`,
+      message: `It's ${shown} outside. Stay indoors and drink plenty of water.`,
+      ttsMessage: `It's quite warm today... ${spoken}. Let's stay inside where it's cool... and make sure to drink extra water.`,
     };
   }
   
   // Cold weather
-  if (weather.temp < 35) {
+  if (weather.tempC < 2) {
     return {
       type: 'weather',
       priority: 'medium',
-      message: `It's ${weather.temp}°F outside. Dress warmly if you go out.`,
-      ttsMessage: `It's cold today... ${weather.temp} degrees. If you go outside, make sure to bundle up nice and warm.`,
+      message: `It's ${shown} outside. Dress warmly if you go out.`,
+      ttsMessage: `It's cold today... ${spoken}. If you go outside, make sure to bundle up nice and warm.`,
     };
   }
   
@@ -121,12 +180,12 @@ export function getWeatherPrompt(weather: WeatherData, timeOfDay: string): Welln
   }
   
   // Nice weather
-  if (weather.temp >= 65 && weather.temp <= 75 && weather.condition === 'sunny') {
+  if (weather.tempC >= 18 && weather.tempC <= 24 && weather.condition === 'sunny') {
     return {
       type: 'weather',
       priority: 'low',
-      message: `Beautiful day! ${weather.temp}°F and sunny. Great for a short walk.`,
-      ttsMessage: `It's a beautiful day outside... ${weather.temp} degrees and sunny. If you feel up to it, a short walk might feel nice.`,
+      message: `Beautiful day! ${shown} and sunny. Great for a short walk.`,
+      ttsMessage: `It's a beautiful day outside... ${spoken} and sunny. If you feel up to it, a short walk might feel nice.`,
     };
   }
   
@@ -239,28 +298,25 @@ export function getStressReduction(stressLevel: 'high' | 'medium' | 'low'): Well
  */
 export function getWellnessNudges(
   timeOfDay: 'morning' | 'afternoon' | 'evening',
-  medications: MedicationSchedule[],
+  dueMedications: MedicationSchedule[],
   hydration: HydrationGoal,
-  weather: WeatherData,
-  mood: 'low' | 'ok' | 'good'
+  weather: WeatherData | null,
+  mood: 'low' | 'ok' | 'good',
+  unit: TemperatureUnit = 'F'
 ): WellnessNudge[] {
   const nudges: WellnessNudge[] = [];
-  const currentHour = new Date().getHours();
-  const currentTime = `${currentHour.toString().padStart(2, '0')}:00`;
   
-  // Check medications
-  for (const med of medications) {
-    if (med.times.includes(currentTime)) {
-      nudges.push(getMedicationReminder(med, timeOfDay));
-    }
+  // Medications with a dose due now (worked out by the reminder scheduler)
+  for (const med of dueMedications) {
+    nudges.push(getMedicationReminder(med, timeOfDay));
   }
   
-  // Check hydration
-  const hydrationNudge = getHydrationNudge(hydration, weather.temp);
+  // Check hydration (a long gap since the last drink comes first)
+  const hydrationNudge = getLastDrinkNudge(hydration) || getHydrationNudge(hydration, weather?.tempC);
   if (hydrationNudge) nudges.push(hydrationNudge);
   
-  // Check weather
-  const weatherNudge = getWeatherPrompt(weather, timeOfDay);
+  // Check weather (skipped when there's no forecast for the user's location)
+  const weatherNudge = weather ? getWeatherPrompt(weather, timeOfDay, unit) : null;
   if (weatherNudge) nudges.push(weatherNudge);
   
   // Add activity guidance